@@ -1,21 +1,41 @@
 import express, { Application } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import morgan from 'morgan';
 import { config, validateEnvironment } from './config/env';
 import { database } from './config/database';
-import { TranscriptionRoutes } from './routes/transcription.routes';
-import workflowRoutes from './routes/workflow.routes';
+import { createApiRouter, onlyPathsOf } from './routes/api.routes';
+import healthRoutes from './routes/health.routes';
+import metricsRoutes from './routes/metrics.routes';
+import docsRoutes from './routes/docs.routes';
 import { ErrorHandler } from './middleware/error.handler';
-import { generalRateLimit } from './middleware/rate-limiter';
+import { IDEMPOTENCY_KEY_HEADER, IDEMPOTENT_REPLAYED_HEADER } from './middleware/idempotency';
+import { API_VERSIONS, API_VERSION_HEADER, deprecatedRootRoutes, useApiVersion } from './middleware/api-version';
+import { httpMetrics } from './middleware/http-metrics';
+import { requestContext } from './middleware/request-context';
+import { logger } from './utils/logger';
+import { listRoutes, mountedAt } from './docs/route-docs';
+import { jobQueue } from './services/job-queue.service';
+import { JobWorker } from './workers/job.worker';
+import { registerJobHandlers } from './workers/job.handlers';
+import { workflowScheduler } from './services/workflow-scheduler.service';
+import { WorkflowService } from './services/workflow.service';
+import { WorkflowSchedulerWorker } from './workers/workflow-scheduler.worker';
+import { eventStream } from './services/event-stream.service';
+import { EventStreamWorker } from './workers/event-stream.worker';
 
 export class App {
   public app: Application;
-  private transcriptionRoutes: TranscriptionRoutes;
+  public jobWorker: JobWorker;
+  public workflowSchedulerWorker: WorkflowSchedulerWorker;
+  public eventStreamWorker: EventStreamWorker;
 
   constructor() {
     this.app = express();
-    this.transcriptionRoutes = new TranscriptionRoutes();
+
+    registerJobHandlers(jobQueue);
+    this.jobWorker = new JobWorker(jobQueue);
+    this.workflowSchedulerWorker = new WorkflowSchedulerWorker(workflowScheduler, new WorkflowService());
+    this.eventStreamWorker = new EventStreamWorker(eventStream);
     
     this.initializeMiddlewares();
     this.initializeRoutes();
@@ -23,6 +43,10 @@ export class App {
   }
 
   private initializeMiddlewares(): void {
+    // Correlation id and access log, then request latency metrics (first, so every response is covered)
+    this.app.use(requestContext);
+    this.app.use(httpMetrics);
+
     // CORS middleware - Allow file:// access and all origins in development
     this.app.use(cors({
       origin: function (origin, callback) {
@@ -38,8 +62,9 @@ export class App {
           return callback(null, true);
         }
       },
-      methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+      methods: ['GET', 'HEAD', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Upload-Offset', 'X-API-Key', 'X-Admin-Token', 'X-Request-Id', API_VERSION_HEADER, IDEMPOTENCY_KEY_HEADER, 'If-Match'],
+      exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length', 'X-Request-Id', API_VERSION_HEADER, 'Deprecation', 'Sunset', 'Link', IDEMPOTENT_REPLAYED_HEADER, 'ETag'],
       credentials: false
     }));
 
@@ -56,20 +81,10 @@ export class App {
       } : false, // Disable CSP in development
     }));
 
-    // Logging middleware
-    if (config.NODE_ENV === 'development') {
-      this.app.use(morgan('dev'));
-    } else {
-      this.app.use(morgan('combined'));
-    }
-
     // Body parsing middleware
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-    // General rate limiting
-    this.app.use(generalRateLimit);
-
     // Trust proxy for accurate IP addresses
     this.app.set('trust proxy', 1);
   }
@@ -78,9 +93,22 @@ export class App {
     // Serve static files from client directory
     this.app.use('/client', express.static('client'));
 
-    // API routes mounted directly at root level as per requirements
-    this.app.use('/', this.transcriptionRoutes.getRouter());
-    this.app.use('/', workflowRoutes);
+    // Health probes, metrics and API docs are neither tenant-authenticated nor rate limited
+    this.app.use('/', healthRoutes);
+    this.app.use('/', metricsRoutes);
+    this.app.use('/', docsRoutes);
+
+    // The API under /v1 and /v2. Unmatched versioned paths end here rather than
+    // falling through to the unversioned aliases below.
+    const api = createApiRouter();
+    const apiPathsOnly = onlyPathsOf(api);
+    for (const version of API_VERSIONS) {
+      this.app.use(`/v${version}`, mountedAt(`/v${version}`, express.Router().use(apiPathsOnly, useApiVersion(version), api, ErrorHandler.notFound)));
+    }
+
+    // Unversioned paths: deprecated aliases kept for existing clients. Other paths are
+    // a 404 without asking for credentials.
+    this.app.use('/', mountedAt('/', express.Router().use(apiPathsOnly, deprecatedRootRoutes, api), { deprecated: true }));
   }
 
   private initializeErrorHandling(): void {
@@ -99,27 +127,29 @@ export class App {
       // Connect to MongoDB (don't let this fail the server startup)
       await database.connect();
 
+      // Start processing queued jobs and scheduled workflow transitions, and feeding event streams
+      this.jobWorker.start();
+      this.workflowSchedulerWorker.start();
+      this.eventStreamWorker.start();
+
       // Start the server
       this.app.listen(config.PORT, () => {
-        console.log(`🚀 Transcription API server running on port ${config.PORT}`);
-        console.log(`📍 Environment: ${config.NODE_ENV}`);
-        console.log(`🔗 API Base URL: http://localhost:${config.PORT}`);
-        
+        logger.info('Transcription API server running', {
+          port: config.PORT,
+          environment: config.NODE_ENV,
+          baseUrl: `http://localhost:${config.PORT}`
+        });
+
         if (config.NODE_ENV === 'development') {
-          console.log(`📚 Available endpoints:`);
-          console.log(`   POST /transcription`);
-          console.log(`   POST /azure-transcription`);
-          console.log(`   GET  /transcriptions`);
-          console.log(`   POST /workflow`);
-          console.log(`   PUT  /workflow/:id/transition`);
-          console.log(`   GET  /workflow/:id`);
-          console.log(`   GET  /workflows`);
-          console.log(`   GET  /workflow/stats`);
+          logger.info('Available endpoints', {
+            docs: `http://localhost:${config.PORT}/docs`,
+            endpoints: listRoutes(this.app.router).map(route => `${route.method.toUpperCase()} ${route.path}`)
+          });
         }
       });
 
     } catch (error) {
-      console.error('❌ Failed to start server:', error);
+      logger.error('Failed to start server', { error });
       // Only exit if it's a critical error, not database connection
       if (error instanceof Error && !error.message.includes('MongoDB')) {
         process.exit(1);
@@ -129,15 +159,20 @@ export class App {
 
   public async shutdown(): Promise<void> {
     try {
-      console.log('🔄 Gracefully shutting down server...');
+      logger.info('Gracefully shutting down server');
+      
+      // Stop picking up new work (in-flight work is re-claimed after its lease expires)
+      this.jobWorker.stop();
+      this.workflowSchedulerWorker.stop();
+      this.eventStreamWorker.stop();
       
       // Disconnect from database
       await database.disconnect();
       
-      console.log('✅ Server shutdown completed');
+      logger.info('Server shutdown completed');
       process.exit(0);
     } catch (error) {
-      console.error('❌ Error during shutdown:', error);
+      logger.error('Error during shutdown', { error });
       process.exit(1);
     }
   }
@@ -145,28 +180,28 @@ export class App {
 
 // Handle graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('📡 SIGTERM received');
+  logger.info('SIGTERM received');
   const app = new App();
   await app.shutdown();
 });
 
 process.on('SIGINT', async () => {
-  console.log('📡 SIGINT received');
+  logger.info('SIGINT received');
   const app = new App();
   await app.shutdown();
 });
 
 // Handle uncaught exceptions (but don't exit immediately for database errors)
 process.on('uncaughtException', (error) => {
-  console.error('💥 Uncaught Exception:', error);
+  logger.error('Uncaught exception', { error });
   // Only exit for non-database related errors
   if (!error.message.includes('MongoDB') && !error.message.includes('ECONNREFUSED')) {
     process.exit(1);
   }
 });
 
-process.on('unhandledRejection', (reason, promise) => {
-  console.error('💥 Unhandled Rejection at:', promise, 'reason:', reason);
+process.on('unhandledRejection', (reason) => {
+  logger.error('Unhandled rejection', { reason });
   // Only exit for non-database related errors
   if (reason instanceof Error && !reason.message.includes('MongoDB') && !reason.message.includes('ECONNREFUSED')) {
     process.exit(1);
@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import { config } from './env';
+import { logger } from '../utils/logger';
 
 class DatabaseConnection {
   private static instance: DatabaseConnection;
@@ -24,25 +25,25 @@ class DatabaseConnection {
         bufferCommands: false // Disable mongoose buffering
       });
 
-      console.log('✅ Connected to MongoDB successfully');
+      logger.info('Connected to MongoDB');
       
       // Handle connection events
       mongoose.connection.on('error', (error) => {
-        console.error('❌ MongoDB connection error:', error);
+        logger.error('MongoDB connection error', { error });
       });
 
       mongoose.connection.on('disconnected', () => {
-        console.log('⚠️  MongoDB disconnected');
+        logger.warn('MongoDB disconnected');
       });
 
       mongoose.connection.on('reconnected', () => {
-        console.log('✅ MongoDB reconnected');
+        logger.info('MongoDB reconnected');
       });
 
     } catch (error) {
-      console.error('❌ Failed to connect to MongoDB:', error);
-      console.log('⚠️  Server will continue without MongoDB - database operations will fail');
-      console.log('💡 To fix this, please start MongoDB or use MongoDB Atlas');
+      logger.error('Failed to connect to MongoDB', { error });
+      logger.warn('Server will continue without MongoDB - database operations will fail');
+      logger.info('To fix this, please start MongoDB or use MongoDB Atlas');
       // Don't throw error - let server continue without database
     }
   }
@@ -50,9 +51,9 @@ class DatabaseConnection {
   public async disconnect(): Promise<void> {
     try {
       await mongoose.disconnect();
-      console.log('✅ Disconnected from MongoDB');
+      logger.info('Disconnected from MongoDB');
     } catch (error) {
-      console.error('❌ Error disconnecting from MongoDB:', error);
+      logger.error('Error disconnecting from MongoDB', { error });
       throw error;
     }
   }
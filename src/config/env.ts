@@ -1,4 +1,7 @@
 import * as dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -9,8 +12,40 @@ interface Config {
   MONGODB_URI: string;
   AZURE_SPEECH_KEY: string;
   AZURE_REGION: string;
+  DEFAULT_SPEECH_PROVIDER: string;
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  RATE_LIMIT_STORE: string;
+  DEFAULT_PLAN: string;
+  JOB_POLL_INTERVAL_MS: number;
+  JOB_LEASE_MS: number;
+  JOB_MAX_ATTEMPTS: number;
+  JOB_RETRY_BASE_DELAY_MS: number;
+  WORKFLOW_SCHEDULER_POLL_INTERVAL_MS: number;
+  WORKFLOW_SCHEDULER_LEASE_MS: number;
+  AUDIO_MAX_BYTES: number;
+  AUDIO_DOWNLOAD_TIMEOUT_MS: number;
+  AUDIO_TEMP_DIR: string;
+  OUTBOUND_ALLOWED_HOSTS: string[];
+  UPLOAD_STORAGE_BACKEND: string;
+  UPLOAD_DIR: string;
+  AUTH_REQUIRED: boolean;
+  JWT_SECRET: string;
+  JWT_ISSUER: string;
+  JWT_AUDIENCE: string;
+  ADMIN_API_TOKEN: string;
+  WEBHOOK_MAX_ATTEMPTS: number;
+  WEBHOOK_TIMEOUT_MS: number;
+  EVENT_STREAM_HEARTBEAT_MS: number;
+  EVENT_STREAM_POLL_INTERVAL_MS: number;
+  HEALTH_CHECK_TIMEOUT_MS: number;
+  METRICS_TOKEN: string;
+  LOG_LEVEL: string;
+  LOG_FORMAT: string;
+  ROOT_ROUTES_DEPRECATED_AT: Date;
+  ROOT_ROUTES_SUNSET_AT: Date;
+  IDEMPOTENCY_KEY_TTL_MS: number;
+  IDEMPOTENCY_LOCK_MS: number;
 }
 
 export const config: Config = {
@@ -19,8 +54,45 @@ export const config: Config = {
   MONGODB_URI: process.env.MONGODB_URI || 'mongodb://localhost:27017/voiceowl',
   AZURE_SPEECH_KEY: process.env.AZURE_SPEECH_KEY || 'mock-azure-key',
   AZURE_REGION: process.env.AZURE_REGION || 'eastus',
+  DEFAULT_SPEECH_PROVIDER: process.env.DEFAULT_SPEECH_PROVIDER || 'mock',
   RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
-  RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10) // 100 requests per window
+  RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10), // 100 requests per window (free plan)
+  RATE_LIMIT_STORE: process.env.RATE_LIMIT_STORE || 'mongo', // Shared across instances; 'memory' for a single instance
+  DEFAULT_PLAN: process.env.DEFAULT_PLAN || 'free', // Plan for tenants that have not been assigned one
+  JOB_POLL_INTERVAL_MS: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10), // 1 second
+  JOB_LEASE_MS: parseInt(process.env.JOB_LEASE_MS || '60000', 10), // 1 minute
+  JOB_MAX_ATTEMPTS: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+  JOB_RETRY_BASE_DELAY_MS: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || '2000', 10), // 2 seconds
+  WORKFLOW_SCHEDULER_POLL_INTERVAL_MS: parseInt(process.env.WORKFLOW_SCHEDULER_POLL_INTERVAL_MS || '1000', 10), // 1 second
+  WORKFLOW_SCHEDULER_LEASE_MS: parseInt(process.env.WORKFLOW_SCHEDULER_LEASE_MS || '30000', 10), // 30 seconds
+  AUDIO_MAX_BYTES: parseInt(process.env.AUDIO_MAX_BYTES || '104857600', 10), // 100 MB
+  AUDIO_DOWNLOAD_TIMEOUT_MS: parseInt(process.env.AUDIO_DOWNLOAD_TIMEOUT_MS || '30000', 10), // 30 seconds
+  AUDIO_TEMP_DIR: process.env.AUDIO_TEMP_DIR || path.join(os.tmpdir(), 'voiceowl-audio'),
+  // Hosts audio downloads and webhooks may reach although they resolve to private addresses
+  OUTBOUND_ALLOWED_HOSTS: (process.env.OUTBOUND_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean),
+  UPLOAD_STORAGE_BACKEND: process.env.UPLOAD_STORAGE_BACKEND || 'local',
+  UPLOAD_DIR: process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'),
+  // Required in production unless explicitly disabled; elsewhere anonymous requests use the default tenant
+  AUTH_REQUIRED: process.env.AUTH_REQUIRED
+    ? process.env.AUTH_REQUIRED === 'true'
+    : process.env.NODE_ENV === 'production',
+  JWT_SECRET: process.env.JWT_SECRET || '', // Empty disables JWT bearer auth
+  JWT_ISSUER: process.env.JWT_ISSUER || '',
+  JWT_AUDIENCE: process.env.JWT_AUDIENCE || '',
+  ADMIN_API_TOKEN: process.env.ADMIN_API_TOKEN || '', // Empty disables the /admin routes
+  WEBHOOK_MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+  WEBHOOK_TIMEOUT_MS: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10), // 10 seconds
+  EVENT_STREAM_HEARTBEAT_MS: parseInt(process.env.EVENT_STREAM_HEARTBEAT_MS || '15000', 10), // Keeps idle proxies from closing GET /events
+  EVENT_STREAM_POLL_INTERVAL_MS: parseInt(process.env.EVENT_STREAM_POLL_INTERVAL_MS || '1000', 10), // How soon GET /events sees events of other instances
+  HEALTH_CHECK_TIMEOUT_MS: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10), // Per dependency on /ready and /status
+  METRICS_TOKEN: process.env.METRICS_TOKEN || '', // Empty leaves GET /metrics open
+  LOG_LEVEL: process.env.LOG_LEVEL || 'info', // debug, info, warn, error or silent
+  LOG_FORMAT: process.env.LOG_FORMAT || 'json', // json, or pretty for local development
+  // Unversioned routes are aliases of /v1 announced with Deprecation and Sunset headers
+  ROOT_ROUTES_DEPRECATED_AT: new Date(process.env.ROOT_ROUTES_DEPRECATED_AT || '2026-10-19T00:00:00Z'),
+  ROOT_ROUTES_SUNSET_AT: new Date(process.env.ROOT_ROUTES_SUNSET_AT || '2027-04-30T00:00:00Z'),
+  IDEMPOTENCY_KEY_TTL_MS: parseInt(process.env.IDEMPOTENCY_KEY_TTL_MS || '86400000', 10), // 24 hours to replay a response
+  IDEMPOTENCY_LOCK_MS: parseInt(process.env.IDEMPOTENCY_LOCK_MS || '120000', 10) // 2 minutes before an unfinished request's key is freed
 };
 
 // Validate required environment variables
@@ -33,5 +105,5 @@ export const validateEnvironment = (): void => {
     }
   }
   
-  console.log('✅ Environment variables validated successfully');
+  logger.info('Environment variables validated successfully');
 };
@@ -0,0 +1,41 @@
+import { config } from './env';
+
+export interface Plan {
+  name: string;
+  requestsPerWindow: number; // All API requests, per RATE_LIMIT_WINDOW_MS
+  transcriptionRequestsPerWindow: number; // POST /transcription, per 10 minutes
+  azureRequestsPerWindow: number; // POST /azure-transcription, per 15 minutes
+  monthlyAudioMinutes: number | null; // null means unlimited
+}
+
+/**
+ * Rate limit tiers and monthly audio quotas. The free plan keeps the limits
+ * that applied to every client before plans existed.
+ */
+export const PLANS: Record<string, Plan> = {
+  free: {
+    name: 'free',
+    requestsPerWindow: config.RATE_LIMIT_MAX_REQUESTS,
+    transcriptionRequestsPerWindow: 20,
+    azureRequestsPerWindow: 10,
+    monthlyAudioMinutes: 60
+  },
+  pro: {
+    name: 'pro',
+    requestsPerWindow: 1000,
+    transcriptionRequestsPerWindow: 200,
+    azureRequestsPerWindow: 100,
+    monthlyAudioMinutes: 3000
+  },
+  enterprise: {
+    name: 'enterprise',
+    requestsPerWindow: 10000,
+    transcriptionRequestsPerWindow: 2000,
+    azureRequestsPerWindow: 1000,
+    monthlyAudioMinutes: null
+  }
+};
+
+export const PLAN_NAMES = Object.keys(PLANS);
+
+export const getPlan = (name?: string): Plan => PLANS[name || config.DEFAULT_PLAN] || PLANS.free;
@@ -0,0 +1,85 @@
+import { Response, NextFunction } from 'express';
+import { ApiKeyService } from '../services/api-key.service';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { createApiKeySchema, listApiKeysSchema, apiKeyIdSchema, rotateApiKeySchema } from '../schemas/admin.schemas';
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService;
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService();
+  }
+
+  /**
+   * POST /admin/api-keys - Create an API key for a tenant
+   */
+  createKey = async (req: ValidatedRequest<typeof createApiKeySchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { tenantId, name, roles, principal } = req.body;
+
+      const result = await this.apiKeyService.createKey({ tenantId, name, roles: Array.from(new Set(roles)), principal });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'API key created. Store the key now; it cannot be retrieved again.'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /admin/api-keys - List API keys
+   */
+  listKeys = async (req: ValidatedRequest<typeof listApiKeysSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.apiKeyService.listKeys(req.query.tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /admin/api-keys/:id - Revoke an API key
+   */
+  revokeKey = async (req: ValidatedRequest<typeof apiKeyIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.apiKeyService.revokeKey(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'API key revoked'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /admin/api-keys/:id/rotate - Replace an API key, optionally keeping the old one for a grace period
+   */
+  rotateKey = async (req: ValidatedRequest<typeof rotateApiKeySchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.apiKeyService.rotateKey(req.params.id, req.body.graceSeconds);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'API key rotated. Store the new key now; it cannot be retrieved again.'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { buildOpenApiDocument, OpenApiDocument } from '../docs/openapi';
+
+// Swagger UI is loaded from a CDN rather than bundled
+const SWAGGER_UI = 'https://unpkg.com/swagger-ui-dist@5';
+
+export class DocsController {
+  // Routes do not change after startup, so each app's document is built once
+  private documents = new WeakMap<object, OpenApiDocument>();
+
+  /**
+   * GET /openapi.json - OpenAPI 3 document generated from the registered routes
+   */
+  getOpenApiDocument = (req: Request, res: Response): void => {
+    const router = req.app.router;
+    let document = this.documents.get(router);
+
+    if (!document) {
+      document = buildOpenApiDocument(router);
+      this.documents.set(router, document);
+    }
+
+    res.status(200).json(document);
+  };
+
+  /**
+   * GET /docs - Interactive API documentation (Swagger UI)
+   */
+  getDocsPage = (req: Request, res: Response): void => {
+    const nonce = crypto.randomBytes(16).toString('base64');
+
+    res.status(200)
+      .set('Content-Security-Policy', [
+        "default-src 'self'",
+        `script-src 'nonce-${nonce}' https://unpkg.com`,
+        "style-src 'self' https://unpkg.com",
+        "img-src 'self' data: https:"
+      ].join('; '))
+      .type('html')
+      .send(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>VoiceOwl Transcription API</title>
+  <link rel="stylesheet" href="${SWAGGER_UI}/swagger-ui.css">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${SWAGGER_UI}/swagger-ui-bundle.js" nonce="${nonce}"></script>
+  <script nonce="${nonce}">
+    SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui' });
+  </script>
+</body>
+</html>
+`);
+  };
+}
@@ -0,0 +1,57 @@
+import { Response } from 'express';
+import { config } from '../config/env';
+import { DomainEvent } from '../events/event-bus';
+import { EventFilter, matchesEventFilter } from '../events/event-filter';
+import { toEventPayload } from '../events/payloads';
+import { eventStream } from '../services/event-stream.service';
+import { DEFAULT_TENANT_ID } from '../utils/tenant-context';
+import { logger } from '../utils/logger';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { streamEventsSchema } from '../schemas/event.schemas';
+
+const RECONNECT_DELAY_MS = 3000;
+
+export class EventController {
+  /**
+   * GET /events - Server-Sent Events stream of the caller's transcription and workflow events
+   */
+  streamEvents = (req: ValidatedRequest<typeof streamEventsSchema>, res: Response): void => {
+    const { types, workflowId, status } = req.query;
+
+    const filter: EventFilter = {
+      tenantId: req.auth?.tenantId || DEFAULT_TENANT_ID,
+      types,
+      workflowId,
+      status
+    };
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const send = (event: DomainEvent) => {
+      if (!matchesEventFilter(event, filter)) {
+        return;
+      }
+
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(toEventPayload(event))}\n\n`);
+    };
+
+    const unsubscribe = eventStream.subscribe(send);
+    // Comment lines keep idle connections open through proxies and load balancers
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), config.EVENT_STREAM_HEARTBEAT_MS);
+
+    logger.info('Event stream opened', { types: filter.types, workflowId: filter.workflowId, status: filter.status });
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.info('Event stream closed');
+    });
+  };
+}
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { HealthService } from '../services/health.service';
+import { AzureService } from '../services/azure.service';
+
+export class HealthController {
+  private healthService: HealthService;
+  private azureService: AzureService;
+
+  constructor() {
+    this.healthService = new HealthService();
+    this.azureService = new AzureService();
+  }
+
+  /**
+   * GET /health - Liveness: the process is up
+   */
+  getHealth = (req: Request, res: Response): void => {
+    res.status(200).json(this.healthService.getLiveness());
+  };
+
+  /**
+   * GET /ready - Readiness: 503 until MongoDB and the default speech provider are usable
+   */
+  getReadiness = async (req: Request, res: Response): Promise<void> => {
+    const result = await this.healthService.getReadiness();
+
+    res.status(result.status === 'ready' ? 200 : 503)
+      .set('Cache-Control', 'no-store')
+      .json(result);
+  };
+
+  /**
+   * GET /status - Version, uptime and dependency latencies
+   */
+  getStatus = async (req: Request, res: Response): Promise<void> => {
+    const result = await this.healthService.getStatus();
+
+    res.status(result.status === 'ready' ? 200 : 503)
+      .set('Cache-Control', 'no-store')
+      .json(result);
+  };
+
+  /**
+   * GET /health/azure - Health of the Azure speech provider
+   */
+  getAzureHealth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.azureService.getAzureServiceHealth();
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
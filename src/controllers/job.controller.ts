@@ -0,0 +1,31 @@
+import { Response, NextFunction } from 'express';
+import { JobQueueService, jobQueue } from '../services/job-queue.service';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { jobIdSchema } from '../schemas/job.schemas';
+
+export class JobController {
+  private jobQueue: JobQueueService;
+
+  constructor() {
+    this.jobQueue = jobQueue;
+  }
+
+  /**
+   * GET /jobs/:id - Poll the status of an asynchronous job
+   */
+  getJob = async (req: ValidatedRequest<typeof jobIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const result = await this.jobQueue.getJob(id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
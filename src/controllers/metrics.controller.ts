@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { metricsRegistry } from '../metrics/metrics';
+
+export class MetricsController {
+  /**
+   * GET /metrics - Prometheus text exposition format
+   */
+  getMetrics = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const metrics = await metricsRegistry.metrics();
+
+      res.status(200)
+        .set('Content-Type', metricsRegistry.contentType)
+        .send(metrics);
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,140 +1,136 @@
-import { Request, Response } from 'express';
-import { TranscriptionService, CreateTranscriptionRequest } from '../services/transcription.service';
-import { AzureService, AzureTranscriptionRequest } from '../services/azure.service';
-
-export interface TranscriptionRequestBody {
-  audioUrl: string;
-  language?: string;
-}
-
-export interface PaginationQuery {
-  page?: string;
-  limit?: string;
-}
+import { Request, Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
+import { TranscriptionService } from '../services/transcription.service';
+import { TranscriptExportService } from '../services/transcript-export.service';
+import { JobQueueService, jobQueue } from '../services/job-queue.service';
+import { UploadService } from '../services/upload.service';
+import { JOB_TYPES } from '../workers/job.handlers';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../errors/app-errors';
+import { ValidatedRequest } from '../middleware/validate-request';
+import {
+  createTranscriptionSchema,
+  createAzureTranscriptionSchema,
+  listTranscriptionsSchema,
+  bulkExportSchema,
+  exportTranscriptionSchema,
+  transcriptionIdSchema,
+  updateTranscriptionSchema
+} from '../schemas/transcription.schemas';
 
 export class TranscriptionController {
   private transcriptionService: TranscriptionService;
-  private azureService: AzureService;
+  private jobQueue: JobQueueService;
+  private uploadService: UploadService;
+  private transcriptExportService: TranscriptExportService;
 
   constructor() {
     this.transcriptionService = new TranscriptionService();
-    this.azureService = new AzureService();
+    this.jobQueue = jobQueue;
+    this.uploadService = new UploadService();
+    this.transcriptExportService = new TranscriptExportService();
   }
 
   /**
-   * POST /transcription - Create mock transcription
+   * Check that an uploaded audio source exists and is complete
    */
-  public createTranscription = async (req: Request<{}, {}, TranscriptionRequestBody>, res: Response): Promise<void> => {
-    try {
-      // Validate request body
-      const { audioUrl } = req.body;
-      
-      if (!audioUrl) {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'audioUrl is required'
-        });
-        return;
-      }
+  private async checkUpload(uploadId: string | undefined): Promise<void> {
+    if (uploadId) {
+      // Not found and incomplete uploads are reported by the upload service
+      await this.uploadService.getCompletedUpload(uploadId);
+    }
+  }
 
-      // Validate URL format
-      try {
-        new URL(audioUrl);
-      } catch {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'Invalid audioUrl format'
-        });
-        return;
-      }
+  /**
+   * Send a 202 Accepted response pointing at the job status endpoint
+   */
+  private acceptJob(req: Request, res: Response, jobId: string, status: string): void {
+    // Same API version as the request (baseUrl is /v1, /v2 or empty)
+    const statusUrl = `${req.baseUrl}/jobs/${jobId}`;
+
+    res.status(202).location(statusUrl).json({
+      success: true,
+      data: { jobId, status, statusUrl },
+      message: 'Transcription job accepted'
+    });
+  }
+
+  /**
+   * POST /transcription - Queue a transcription job
+   */
+  public createTranscription = async (req: ValidatedRequest<typeof createTranscriptionSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { audioUrl, uploadId, language, provider } = req.body;
 
-      // Extract language parameter (optional)
-      const { language } = req.body;
+      await this.checkUpload(uploadId);
 
-      console.log(`📋 Creating transcription for: ${audioUrl}${language ? ` (language: ${language})` : ''}`);
+      logger.info('Creating transcription', { audioUrl, uploadId, language });
 
-      // Create transcription with language support
-      const result = await this.transcriptionService.createTranscription({ audioUrl, language });
+      // Queue transcription with language and provider support
+      const job = await this.jobQueue.enqueue(JOB_TYPES.TRANSCRIPTION, { audioUrl, uploadId, language, provider });
 
-      res.status(201).json(result);
+      this.acceptJob(req, res, job._id.toString(), job.status);
     } catch (error) {
-      console.error('❌ Error in createTranscription controller:', error);
-      
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'Failed to create transcription'
-      });
+      next(error);
     }
   };
 
   /**
-   * POST /azure-transcription - Create Azure transcription
+   * POST /azure-transcription - Queue an Azure transcription job
    */
-  public createAzureTranscription = async (req: Request<{}, {}, TranscriptionRequestBody>, res: Response): Promise<void> => {
+  public createAzureTranscription = async (req: ValidatedRequest<typeof createAzureTranscriptionSchema>, res: Response, next: NextFunction): Promise<void> => {
     try {
-      // Validate request body
-      const { audioUrl } = req.body;
-      
-      if (!audioUrl) {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'audioUrl is required'
-        });
-        return;
-      }
+      const { audioUrl, uploadId, language } = req.body;
 
-      // Validate URL format
-      try {
-        new URL(audioUrl);
-      } catch {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'Invalid audioUrl format'
-        });
-        return;
-      }
-
-      // Extract language parameter (optional)
-      const { language } = req.body;
+      await this.checkUpload(uploadId);
 
-      console.log(`📋 Creating Azure transcription for: ${audioUrl}${language ? ` (language: ${language})` : ''}`);
+      logger.info('Creating Azure transcription', { audioUrl, uploadId, language });
 
-      // Create Azure transcription with language support
-      const result = await this.azureService.createAzureTranscription({ audioUrl, language });
+      // Queue Azure transcription with language support
+      const job = await this.jobQueue.enqueue(JOB_TYPES.AZURE_TRANSCRIPTION, { audioUrl, uploadId, language });
 
-      res.status(201).json(result);
+      this.acceptJob(req, res, job._id.toString(), job.status);
     } catch (error) {
-      console.error('❌ Error in createAzureTranscription controller:', error);
-      
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'Failed to create Azure transcription'
-      });
+      next(error);
     }
   };
 
   /**
-   * GET /transcriptions - Get recent transcriptions (last 30 days)
+   * GET /transcriptions - List transcriptions (last 30 days unless a date range is given)
    */
-  public getRecentTranscriptions = async (req: Request<{}, {}, {}, PaginationQuery>, res: Response): Promise<void> => {
+  public getTranscriptions = async (req: ValidatedRequest<typeof listTranscriptionsSchema>, res: Response, next: NextFunction): Promise<void> => {
     try {
-      // Parse pagination parameters
-      const page = parseInt(req.query.page || '1', 10);
-      const limit = parseInt(req.query.limit || '10', 10);
-
-      // Validate pagination parameters
-      if (page < 1 || limit < 1 || limit > 100) {
-        res.status(400).json({
-          error: 'Bad Request',
-          message: 'Invalid pagination parameters. Page must be >= 1, limit must be 1-100'
+      const { page = 1, limit, from, to, source, language, workflowStatus, audioHost, search, sortBy, sortOrder } = req.query;
+
+      const filters = { from, to, source, language, workflowStatus, audioHost, search, sortBy, sortOrder };
+
+      // Cursor mode is opt-in so existing page-number clients keep working
+      if (req.query.cursor || req.query.pagination === 'cursor') {
+        logger.debug('Fetching transcriptions', { cursor: true, limit, search });
+
+        const cursorResult = await this.transcriptionService.getTranscriptionsByCursor({
+          ...filters,
+          cursor: req.query.cursor,
+          limit,
+          includeTotal: req.query.includeTotal
+        });
+
+        res.status(200).json({
+          success: true,
+          data: cursorResult.transcriptions,
+          pagination: {
+            limit: cursorResult.limit,
+            next: cursorResult.next,
+            prev: cursorResult.prev,
+            ...(cursorResult.total !== undefined && { total: cursorResult.total })
+          }
         });
         return;
       }
 
-      console.log(`📊 Fetching transcriptions - page: ${page}, limit: ${limit}`);
+      logger.debug('Fetching transcriptions', { page, limit, search });
 
-      // Get transcriptions
-      const result = await this.transcriptionService.getRecentTranscriptions(page, limit);
+      const result = await this.transcriptionService.getTranscriptions({ ...filters, page, limit });
 
       res.status(200).json({
         success: true,
@@ -147,13 +143,126 @@ export class TranscriptionController {
         }
       });
     } catch (error) {
-      console.error('❌ Error in getRecentTranscriptions controller:', error);
-      
-      res.status(500).json({
-        error: 'Internal Server Error',
-        message: 'Failed to fetch transcriptions'
+      next(error);
+    }
+  };
+
+  /**
+   * GET /transcriptions/:id - Get a single transcription
+   */
+  public getTranscription = async (req: ValidatedRequest<typeof transcriptionIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const transcription = await this.transcriptionService.getTranscriptionById(req.params.id);
+
+      if (!transcription) {
+        throw new NotFoundError('Transcription not found');
+      }
+
+      res.status(200).json({
+        success: true,
+        data: transcription
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /transcriptions/:id - Correct the text and/or language
+   */
+  public updateTranscription = async (req: ValidatedRequest<typeof updateTranscriptionSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { transcription, language, comment } = req.body;
+
+      // Authenticated edits are recorded by identity, as transitions are. The body's
+      // editedBy is only kept for unauthenticated requests (AUTH_REQUIRED off).
+      const auth = req.auth;
+      const authenticated = auth && auth.method !== 'anonymous';
+
+      const result = await this.transcriptionService.updateTranscription(req.params.id, {
+        transcription: transcription?.trim(),
+        language,
+        editedBy: authenticated ? auth.subject : req.body.editedBy,
+        comment
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Transcription updated'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /transcriptions/:id - Soft-delete a transcription
+   */
+  public deleteTranscription = async (req: ValidatedRequest<typeof transcriptionIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.transcriptionService.deleteTranscription(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Transcription deleted'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /transcriptions/:id/restore - Restore a soft-deleted transcription
+   */
+  public restoreTranscription = async (req: ValidatedRequest<typeof transcriptionIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.transcriptionService.restoreTranscription(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Transcription restored'
       });
+    } catch (error) {
+      next(error);
     }
   };
 
+  /**
+   * GET /transcriptions/:id/export - Download a transcription as a subtitle or document file
+   */
+  public exportTranscription = async (req: ValidatedRequest<typeof exportTranscriptionSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const file = await this.transcriptExportService.exportTranscription(req.params.id, req.query.format);
+
+      res.status(200)
+        .type(file.contentType)
+        .attachment(file.filename)
+        .send(file.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /transcriptions/export - Stream matching transcriptions as NDJSON or a zip archive
+   */
+  public exportTranscriptions = async (req: ValidatedRequest<typeof bulkExportSchema>, res: Response): Promise<void> => {
+    const { format, entryFormat, ...filters } = req.query;
+
+    const bulkExport = this.transcriptExportService.createBulkExport(filters, format, entryFormat);
+
+    res.status(200)
+      .type(bulkExport.contentType)
+      .attachment(bulkExport.filename);
+
+    try {
+      await pipeline(bulkExport.stream, res);
+    } catch (error) {
+      // Headers are already sent; the client sees a truncated download
+      logger.error('Error streaming bulk export', { error });
+    }
+  };
 }
@@ -0,0 +1,163 @@
+import { Request, Response, NextFunction } from 'express';
+import { UploadService, UploadResponse } from '../services/upload.service';
+import { AppError, ValidationFailedError } from '../errors/app-errors';
+import { logger } from '../utils/logger';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { createResumableUploadSchema, uploadIdSchema } from '../schemas/upload.schemas';
+
+const CHUNK_CONTENT_TYPES = ['application/offset+octet-stream', 'application/octet-stream'];
+
+export class UploadController {
+  private uploadService: UploadService;
+
+  constructor() {
+    this.uploadService = new UploadService();
+  }
+
+  /**
+   * Expose the resumable upload position in headers
+   */
+  private setOffsetHeaders(res: Response, upload: UploadResponse): void {
+    res.set({
+      'Upload-Offset': String(upload.receivedBytes),
+      'Upload-Length': String(upload.sizeBytes),
+      'Cache-Control': 'no-store'
+    });
+  }
+
+  /**
+   * POST /uploads - Upload an audio file as multipart form data
+   */
+  createUpload = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.file) {
+        throw new ValidationFailedError('file is required (multipart/form-data field "file")');
+      }
+
+      logger.info('Receiving upload', { fileName: req.file.originalname, sizeBytes: req.file.size });
+
+      const result = await this.uploadService.createFromFile(req.file);
+
+      res.status(201).location(`${req.baseUrl}/uploads/${result.id}`).json({
+        success: true,
+        data: result,
+        message: 'Upload completed successfully'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /uploads/resumable - Start a resumable upload
+   */
+  createResumableUpload = async (req: ValidatedRequest<typeof createResumableUploadSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { filename, sizeBytes, contentType } = req.body;
+
+      const result = await this.uploadService.createResumableUpload({ filename, sizeBytes, contentType });
+
+      this.setOffsetHeaders(res, result);
+      res.status(201).location(`${req.baseUrl}/uploads/${result.id}`).json({
+        success: true,
+        data: result,
+        message: 'Resumable upload started'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PATCH /uploads/:id - Append a chunk to a resumable upload
+   */
+  appendChunk = async (req: ValidatedRequest<typeof uploadIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      const offsetHeader = req.headers['upload-offset'];
+      const offset = Number(offsetHeader);
+
+      // Validation
+      if (!CHUNK_CONTENT_TYPES.includes(contentType)) {
+        req.resume();
+        throw new AppError(`Content-Type must be one of: ${CHUNK_CONTENT_TYPES.join(', ')}`, 415, 'UNSUPPORTED_MEDIA_TYPE');
+      }
+
+      if (typeof offsetHeader !== 'string' || !Number.isInteger(offset) || offset < 0) {
+        req.resume();
+        throw new ValidationFailedError('Upload-Offset header is required and must be a non-negative integer');
+      }
+
+      const contentLength = req.headers['content-length'];
+      const result = await this.uploadService.appendChunk(
+        id,
+        offset,
+        req,
+        contentLength !== undefined ? parseInt(contentLength, 10) : undefined
+      );
+
+      this.setOffsetHeaders(res, result);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: result.status === 'completed' ? 'Upload completed successfully' : 'Chunk received'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * HEAD /uploads/:id - Get the offset to resume a resumable upload from
+   */
+  getUploadOffset = async (req: ValidatedRequest<typeof uploadIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.uploadService.getUpload(req.params.id);
+
+      this.setOffsetHeaders(res, result);
+      res.status(200).end();
+
+    } catch (error) {
+      // HEAD responses carry the status only
+      next(error);
+    }
+  };
+
+  /**
+   * GET /uploads/:id - Get upload details
+   */
+  getUpload = async (req: ValidatedRequest<typeof uploadIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.uploadService.getUpload(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /uploads/:id - Delete an upload and its stored file
+   */
+  deleteUpload = async (req: ValidatedRequest<typeof uploadIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.uploadService.deleteUpload(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Upload deleted successfully'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
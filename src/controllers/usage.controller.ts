@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from 'express';
+import { UsageService, UsageResponse, RateLimitUsage } from '../services/usage.service';
+import { planRateLimits, getRateLimitKey, getRequestPlan } from '../middleware/rate-limiter';
+import { DEFAULT_TENANT_ID } from '../utils/tenant-context';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { setTenantPlanSchema, tenantIdSchema } from '../schemas/admin.schemas';
+
+export class UsageController {
+  private usageService: UsageService;
+
+  constructor() {
+    this.usageService = new UsageService();
+  }
+
+  /**
+   * GET /usage - Consumption of the caller's tenant against its plan
+   */
+  getUsage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const tenantId = req.auth?.tenantId || DEFAULT_TENANT_ID;
+      const [usage, plan] = await Promise.all([
+        this.usageService.getUsage(tenantId),
+        getRequestPlan(req)
+      ]);
+
+      // Counters of the limiters that apply to this caller (the current request included)
+      const key = getRateLimitKey(req);
+      const rateLimits: Record<string, RateLimitUsage> = {};
+
+      for (const planRateLimit of planRateLimits) {
+        const info = await planRateLimit.middleware.getKey(key);
+        const limit = planRateLimit.limit(plan);
+        const used = info?.totalHits || 0;
+
+        rateLimits[planRateLimit.name] = {
+          limit,
+          used,
+          remaining: Math.max(0, limit - used),
+          windowMs: planRateLimit.windowMs,
+          resetsAt: info?.resetTime || null
+        };
+      }
+
+      const data: UsageResponse = { ...usage, rateLimits };
+
+      res.status(200).json({
+        success: true,
+        data
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /admin/tenants/:tenantId/usage - Monthly consumption of any tenant
+   */
+  getTenantUsage = async (req: ValidatedRequest<typeof tenantIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.usageService.getUsage(req.params.tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /admin/tenants/:tenantId/plan - Assign a plan to a tenant
+   */
+  setTenantPlan = async (req: ValidatedRequest<typeof setTenantPlanSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.usageService.setPlan(req.params.tenantId, req.body.plan);
+
+      res.status(200).json({
+        success: true,
+        data: { tenantId: req.params.tenantId, plan: result },
+        message: `Tenant moved to the ${result.name} plan`
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
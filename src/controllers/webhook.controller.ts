@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import { WebhookService, webhookService } from '../services/webhook.service';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { createWebhookSchema, webhookIdSchema, listDeliveriesSchema, replayDeliverySchema } from '../schemas/webhook.schemas';
+
+export class WebhookController {
+  private webhookService: WebhookService;
+
+  constructor() {
+    this.webhookService = webhookService;
+  }
+
+  /**
+   * POST /webhooks - Subscribe a URL to events
+   */
+  createWebhook = async (req: ValidatedRequest<typeof createWebhookSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { url, events, description, secret } = req.body;
+
+      const result = await this.webhookService.createSubscription({ url, events, description, secret });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Webhook created. Store the secret now; it cannot be retrieved again.'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /webhooks - List webhook subscriptions
+   */
+  listWebhooks = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.webhookService.listSubscriptions();
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /webhooks/:id - Get a webhook subscription
+   */
+  getWebhook = async (req: ValidatedRequest<typeof webhookIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.webhookService.getSubscription(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /webhooks/:id - Delete a webhook subscription
+   */
+  deleteWebhook = async (req: ValidatedRequest<typeof webhookIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await this.webhookService.deleteSubscription(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook deleted'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /webhooks/:id/deliveries - Delivery log of a webhook
+   */
+  listDeliveries = async (req: ValidatedRequest<typeof listDeliveriesSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { status, limit } = req.query;
+
+      const result = await this.webhookService.listDeliveries(req.params.id, status, limit);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * POST /webhooks/:id/deliveries/:deliveryId/replay - Send a logged event again
+   */
+  replayDelivery = async (req: ValidatedRequest<typeof replayDeliverySchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.webhookService.replayDelivery(req.params.id, req.params.deliveryId);
+
+      res.status(202).json({
+        success: true,
+        data: result,
+        message: 'Webhook delivery queued'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
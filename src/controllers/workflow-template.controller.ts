@@ -0,0 +1,148 @@
+import { Request, Response, NextFunction } from 'express';
+import { WorkflowTemplateService } from '../services/workflow-template.service';
+import { logger } from '../utils/logger';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { createTemplateSchema, updateTemplateSchema, getTemplateSchema, templateIdSchema } from '../schemas/workflow-template.schemas';
+
+export class WorkflowTemplateController {
+  private workflowTemplateService: WorkflowTemplateService;
+
+  constructor() {
+    this.workflowTemplateService = new WorkflowTemplateService();
+  }
+
+  /**
+   * POST /workflow-templates - Create a workflow template
+   */
+  createTemplate = async (req: ValidatedRequest<typeof createTemplateSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { name, description, initialState, states, transitions, startRoles } = req.body;
+
+      logger.info('Creating workflow template', { name });
+
+      const result = await this.workflowTemplateService.createTemplate({
+        name,
+        description,
+        initialState,
+        states,
+        transitions,
+        startRoles
+      });
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Workflow template created successfully'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /workflow-templates - List active workflow templates (latest versions)
+   */
+  listTemplates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const result = await this.workflowTemplateService.listTemplates();
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /workflow-templates/:templateId - Get a workflow template (?version= for a specific version)
+   */
+  getTemplate = async (req: ValidatedRequest<typeof getTemplateSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { templateId } = req.params;
+
+      const result = await this.workflowTemplateService.getTemplate(templateId, req.query.version);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /workflow-templates/:templateId/versions - List all versions of a template
+   */
+  listVersions = async (req: ValidatedRequest<typeof templateIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { templateId } = req.params;
+
+      const result = await this.workflowTemplateService.listVersions(templateId);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * PUT /workflow-templates/:templateId - Publish a new version of a template
+   */
+  updateTemplate = async (req: ValidatedRequest<typeof updateTemplateSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { templateId } = req.params;
+      const { name, description, initialState, states, transitions, startRoles } = req.body;
+
+      logger.info('Updating workflow template', { templateId });
+
+      const result = await this.workflowTemplateService.updateTemplate(templateId, {
+        name,
+        description,
+        initialState,
+        states,
+        transitions,
+        startRoles
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: `Workflow template updated to version ${result.version}`
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /workflow-templates/:templateId - Archive a template
+   */
+  deleteTemplate = async (req: ValidatedRequest<typeof templateIdSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { templateId } = req.params;
+
+      logger.info('Archiving workflow template', { templateId });
+
+      await this.workflowTemplateService.deleteTemplate(templateId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Workflow template archived'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
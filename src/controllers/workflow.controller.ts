@@ -1,222 +1,182 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { WorkflowService } from '../services/workflow.service';
+import { WorkflowTemplateService } from '../services/workflow-template.service';
+import { UploadService } from '../services/upload.service';
+import { logger } from '../utils/logger';
+import { ValidationFailedError } from '../errors/app-errors';
+import { ValidatedRequest } from '../middleware/validate-request';
+import { presentWorkflowStatus } from '../presenters/workflow.presenter';
+import { versionETag, parseIfMatch } from '../utils/etag';
+import {
+  createWorkflowSchema,
+  transitionWorkflowSchema,
+  workflowIdSchema,
+  listScheduledTransitionsSchema,
+  cancelScheduledTransitionSchema,
+  listWorkflowsSchema
+} from '../schemas/workflow.schemas';
 
 export class WorkflowController {
   private workflowService: WorkflowService;
+  private workflowTemplateService: WorkflowTemplateService;
+  private uploadService: UploadService;
 
   constructor() {
     this.workflowService = new WorkflowService();
+    this.workflowTemplateService = new WorkflowTemplateService();
+    this.uploadService = new UploadService();
   }
 
   /**
    * POST /workflow - Create a new workflow
    */
-  createWorkflow = async (req: Request, res: Response): Promise<void> => {
+  createWorkflow = async (req: ValidatedRequest<typeof createWorkflowSchema>, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { audioUrl, language } = req.body;
+      const { audioUrl, uploadId, language, provider, templateId } = req.body;
 
-      // Validation
-      if (!audioUrl || typeof audioUrl !== 'string') {
-        res.status(400).json({
-          error: 'audioUrl is required and must be a string'
-        });
-        return;
-      }
-
-      // Basic URL validation
-      const urlRegex = /^(https?|ftp):\/\/[^\s/$.?#].[^\s]*$/i;
-      if (!urlRegex.test(audioUrl)) {
-        res.status(400).json({
-          error: 'Invalid audioUrl format'
-        });
-        return;
-      }
-
-      // Language validation (optional)
-      if (language && typeof language !== 'string') {
-        res.status(400).json({
-          error: 'language must be a string'
-        });
-        return;
+      if (uploadId) {
+        // Not found and incomplete uploads are reported by the upload service
+        await this.uploadService.getCompletedUpload(uploadId);
       }
 
-      if (language) {
-        const langRegex = /^[a-z]{2}-[A-Z]{2}$/;
-        if (!langRegex.test(language)) {
-          res.status(400).json({
-            error: 'language must be in format xx-XX (e.g., en-US, fr-FR)'
-          });
-          return;
-        }
-      }
+      logger.info('Creating workflow', { audioUrl, uploadId, templateId });
 
-      console.log(`📥 Creating workflow for: ${audioUrl}`);
+      // Without credentials (AUTH_REQUIRED off) any template may be used, as transitions are not role-checked either
+      const auth = req.auth;
+      const authenticated = auth && auth.method !== 'anonymous';
 
       const result = await this.workflowService.createWorkflow({
         audioUrl,
-        language
+        uploadId,
+        language,
+        provider,
+        templateId,
+        ...(authenticated && { actor: { id: auth.subject, roles: auth.roles } })
       });
 
-      res.status(201).json({
+      res.status(201).set('ETag', versionETag(result.version)).json({
         success: true,
-        data: result,
+        data: presentWorkflowStatus(result, req.apiVersion),
         message: 'Workflow created successfully'
       });
 
     } catch (error) {
-      console.error('❌ Error in createWorkflow controller:', error);
-      
-      res.status(500).json({
-        error: 'Failed to create workflow',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
+      next(error);
     }
   };
 
   /**
    * PUT /workflow/:id/transition - Transition workflow to next state
    */
-  transitionWorkflow = async (req: Request, res: Response): Promise<void> => {
+  transitionWorkflow = async (req: ValidatedRequest<typeof transitionWorkflowSchema>, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
-      const { newStatus, comment, reviewedBy } = req.body;
+      const { newStatus, comment } = req.body;
+      // Optional: the ETag of the workflow as the client last saw it
+      const ifMatch = req.get('If-Match');
 
-      // Validation
-      if (!id) {
-        res.status(400).json({
-          error: 'Workflow ID is required'
-        });
-        return;
-      }
+      logger.info('Transitioning workflow', { workflowId: id, newStatus });
 
-      if (!newStatus) {
-        res.status(400).json({
-          error: 'newStatus is required'
-        });
-        return;
-      }
-
-      const validStatuses = ['review', 'approval', 'completed', 'rejected'];
-      if (!validStatuses.includes(newStatus)) {
-        res.status(400).json({
-          error: `Invalid status. Must be one of: ${validStatuses.join(', ')}`
-        });
-        return;
-      }
-
-      console.log(`🔄 Transitioning workflow ${id} to ${newStatus}`);
+      // Authenticated callers are role-checked and recorded by identity. Without credentials
+      // (only possible when AUTH_REQUIRED is off) the body's reviewedBy is kept as a label.
+      const auth = req.auth;
+      const authenticated = auth && auth.method !== 'anonymous';
 
       const result = await this.workflowService.transitionWorkflow({
         transcriptionId: id,
         newStatus,
         comment,
-        reviewedBy
+        ifMatch: ifMatch !== undefined ? parseIfMatch(ifMatch) : undefined,
+        ...(authenticated
+          ? { actor: { id: auth.subject, roles: auth.roles } }
+          : { reviewedBy: req.body.reviewedBy })
       });
 
-      res.status(200).json({
+      res.status(200).set('ETag', versionETag(result.version)).json({
         success: true,
-        data: result,
+        data: presentWorkflowStatus(result, req.apiVersion),
         message: `Workflow transitioned to ${newStatus}`
       });
 
     } catch (error) {
-      console.error('❌ Error in transitionWorkflow controller:', error);
-      
-      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 
-                        error instanceof Error && error.message.includes('Invalid transition') ? 400 : 500;
-      
-      res.status(statusCode).json({
-        error: 'Failed to transition workflow',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
+      next(error);
     }
   };
 
   /**
    * GET /workflow/:id - Get workflow status
    */
-  getWorkflowStatus = async (req: Request, res: Response): Promise<void> => {
+  getWorkflowStatus = async (req: ValidatedRequest<typeof workflowIdSchema>, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
 
-      if (!id) {
-        res.status(400).json({
-          error: 'Workflow ID is required'
-        });
-        return;
-      }
-
-      console.log(`📊 Getting workflow status for: ${id}`);
+      logger.debug('Getting workflow status', { workflowId: id });
 
       const result = await this.workflowService.getWorkflowStatus(id);
 
-      res.status(200).json({
+      res.status(200).set('ETag', versionETag(result.version)).json({
         success: true,
-        data: result
+        data: presentWorkflowStatus(result, req.apiVersion)
       });
 
     } catch (error) {
-      console.error('❌ Error in getWorkflowStatus controller:', error);
-      
-      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 500;
-      
-      res.status(statusCode).json({
-        error: 'Failed to get workflow status',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
+      next(error);
     }
   };
 
   /**
    * GET /workflows - List workflows with optional filtering
    */
-  listWorkflows = async (req: Request, res: Response): Promise<void> => {
+  listWorkflows = async (req: ValidatedRequest<typeof listWorkflowsSchema>, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { status, page = '1', limit = '10' } = req.query;
+      const { status, page = 1, limit, cursor, pagination, includeTotal } = req.query;
 
-      // Parse and validate pagination
-      const pageNum = parseInt(page as string, 10);
-      const limitNum = parseInt(limit as string, 10);
-
-      if (isNaN(pageNum) || pageNum < 1) {
-        res.status(400).json({
-          error: 'page must be a positive integer'
-        });
-        return;
+      if (status) {
+        const validStatuses = await this.workflowTemplateService.getKnownStates();
+        if (!validStatuses.includes(status)) {
+          throw new ValidationFailedError(`Invalid status filter. Must be one of: ${validStatuses.join(', ')}`, [
+            { field: 'query.status', message: `Invalid status. Must be one of: ${validStatuses.join(', ')}` }
+          ]);
+        }
       }
 
-      if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
-        res.status(400).json({
-          error: 'limit must be a positive integer between 1 and 100'
-        });
-        return;
-      }
+      // Cursor mode is opt-in so existing page-number clients keep working
+      if (cursor || pagination === 'cursor') {
+        logger.debug('Listing workflows', { status: status || 'all', cursor: true });
+
+        const cursorResult = await this.workflowService.listWorkflowsByCursor(status, cursor, limit, includeTotal);
 
-      // Validate status filter if provided
-      if (status && typeof status !== 'string') {
-        res.status(400).json({
-          error: 'status filter must be a string'
+        res.status(200).json({
+          success: true,
+          data: cursorResult
         });
         return;
       }
 
-      if (status) {
-        const validStatuses = ['transcription', 'review', 'approval', 'completed', 'rejected'];
-        if (!validStatuses.includes(status as string)) {
-          res.status(400).json({
-            error: `Invalid status filter. Must be one of: ${validStatuses.join(', ')}`
-          });
-          return;
-        }
-      }
+      logger.debug('Listing workflows', { status: status || 'all', page });
+
+      const result = await this.workflowService.listWorkflows(status, page, limit);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * GET /workflow/:id/scheduled - List scheduled transitions for a workflow
+   */
+  listScheduledTransitions = async (req: ValidatedRequest<typeof listScheduledTransitionsSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id } = req.params;
 
-      console.log(`📋 Listing workflows (status: ${status || 'all'}, page: ${pageNum})`);
+      logger.debug('Listing scheduled transitions', { workflowId: id });
 
-      const result = await this.workflowService.listWorkflows(
-        status as string,
-        pageNum,
-        limitNum
-      );
+      const result = await this.workflowService.getScheduledTransitions(id, req.query.all);
 
       res.status(200).json({
         success: true,
@@ -224,21 +184,38 @@ export class WorkflowController {
       });
 
     } catch (error) {
-      console.error('❌ Error in listWorkflows controller:', error);
-      
-      res.status(500).json({
-        error: 'Failed to list workflows',
-        message: error instanceof Error ? error.message : 'Unknown error'
+      next(error);
+    }
+  };
+
+  /**
+   * DELETE /workflow/:id/scheduled/:scheduleId - Cancel a pending scheduled transition
+   */
+  cancelScheduledTransition = async (req: ValidatedRequest<typeof cancelScheduledTransitionSchema>, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { id, scheduleId } = req.params;
+
+      logger.info('Cancelling scheduled transition', { workflowId: id, scheduleId });
+
+      const result = await this.workflowService.cancelScheduledTransition(id, scheduleId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Scheduled transition cancelled'
       });
+
+    } catch (error) {
+      next(error);
     }
   };
 
   /**
    * GET /workflow/stats - Get workflow statistics
    */
-  getWorkflowStats = async (req: Request, res: Response): Promise<void> => {
+  getWorkflowStats = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      console.log('📈 Getting workflow statistics');
+      logger.debug('Getting workflow statistics');
 
       const result = await this.workflowService.getWorkflowStats();
 
@@ -251,12 +228,7 @@ export class WorkflowController {
       });
 
     } catch (error) {
-      console.error('❌ Error in getWorkflowStats controller:', error);
-      
-      res.status(500).json({
-        error: 'Failed to get workflow statistics',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
+      next(error);
     }
   };
 }
@@ -0,0 +1,215 @@
+import { config } from '../config/env';
+import { getRequestSchema, RequestSchema } from '../middleware/validate-request';
+import { API_VERSIONS, API_VERSION_HEADER, DEFAULT_API_VERSION } from '../middleware/api-version';
+import { idempotent, IDEMPOTENCY_KEY_HEADER } from '../middleware/idempotency';
+import { appVersion } from '../services/health.service';
+import { JsonSchema } from '../utils/schema';
+import { getRouteDoc, listRoutes, RegisteredRoute, RouteDoc, RouterLike, SecurityScheme } from './route-docs';
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  description?: string;
+  required: boolean;
+  schema: JsonSchema;
+  style?: 'form';
+  explode?: boolean;
+}
+
+interface Operation {
+  tags: string[];
+  summary: string;
+  description?: string;
+  parameters?: Parameter[];
+  requestBody?: { required: boolean; description?: string; content: Record<string, { schema: unknown }> };
+  responses: Record<string, unknown>;
+  security?: Array<Record<string, string[]>>;
+  deprecated?: boolean;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, Operation>>;
+  components: Record<string, unknown>;
+  security: Array<Record<string, string[]>>;
+}
+
+const PROBLEM = { $ref: '#/components/schemas/Problem' };
+
+const problemResponse = (description: string) => ({
+  description,
+  content: { 'application/problem+json': { schema: PROBLEM } }
+});
+
+const components = {
+  securitySchemes: {
+    apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+    bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+    adminToken: { type: 'apiKey', in: 'header', name: 'X-Admin-Token' },
+    metricsToken: { type: 'http', scheme: 'bearer', description: 'METRICS_TOKEN, when configured' }
+  },
+  schemas: {
+    Problem: {
+      type: 'object',
+      description: 'RFC 7807 problem details; some problems add extension members',
+      required: ['type', 'title', 'status', 'detail', 'instance', 'code'],
+      properties: {
+        type: { type: 'string' },
+        title: { type: 'string' },
+        status: { type: 'integer' },
+        detail: { type: 'string' },
+        instance: { type: 'string' },
+        code: { type: 'string' },
+        requestId: { type: 'string' },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['field', 'message'],
+            properties: { field: { type: 'string' }, message: { type: 'string' } }
+          }
+        }
+      }
+    }
+  }
+};
+
+const toSecurity = (schemes: SecurityScheme[]) => schemes.map(scheme => ({ [scheme]: [] }));
+
+/**
+ * Express `/workflow/:id` → OpenAPI `/workflow/{id}`
+ */
+const toOpenApiPath = (path: string): string => path.replace(/:(\w+)/g, '{$1}');
+
+const pathParameterNames = (path: string): string[] => [...path.matchAll(/:(\w+)/g)].map(match => match[1]);
+
+const toParameters = (path: string, schema: RequestSchema | undefined): Parameter[] => {
+  const params = schema?.params?.shape ?? {};
+  const query = schema?.query?.shape ?? {};
+
+  return [
+    ...pathParameterNames(path).map((name): Parameter => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: params[name]?.toJSONSchema() ?? { type: 'string' }
+    })),
+    ...Object.entries(query).map(([name, field]): Parameter => {
+      const fieldSchema = field.toJSONSchema();
+      return {
+        name,
+        in: 'query',
+        required: field.isRequired(),
+        schema: fieldSchema,
+        // Lists are comma-separated (?types=a,b)
+        ...(fieldSchema.type === 'array' && { style: 'form', explode: false })
+      };
+    })
+  ];
+};
+
+// Unversioned (deprecated) routes select the version with a header instead of the path
+const API_VERSION_PARAMETER: Parameter = {
+  name: API_VERSION_HEADER,
+  in: 'header',
+  required: false,
+  schema: { type: 'string', enum: API_VERSIONS.map(String), default: String(DEFAULT_API_VERSION) }
+};
+
+const IDEMPOTENCY_KEY_PARAMETER: Parameter = {
+  name: IDEMPOTENCY_KEY_HEADER,
+  in: 'header',
+  required: false,
+  schema: { type: 'string', minLength: 1, maxLength: 255 }
+};
+
+const toRequestBody = (doc: RouteDoc, schema: RequestSchema | undefined): Operation['requestBody'] => {
+  if (doc.requestBody) {
+    return {
+      required: true,
+      description: doc.requestBody.description,
+      content: { [doc.requestBody.contentType]: { schema: {} } }
+    };
+  }
+  return schema?.body && { required: true, content: { 'application/json': { schema: schema.body.toJSONSchema() } } };
+};
+
+const toOperation = (route: RegisteredRoute, doc: RouteDoc): Operation => {
+  const schema = route.handlers.map(getRequestSchema).find(Boolean);
+  const isIdempotent = route.handlers.includes(idempotent);
+  const parameters = [
+    ...toParameters(route.path, schema),
+    ...(route.deprecated ? [API_VERSION_PARAMETER] : []),
+    ...(isIdempotent ? [IDEMPOTENCY_KEY_PARAMETER] : []),
+    ...Object.entries(doc.headers ?? {}).map(([name, description]): Parameter => (
+      { name, in: 'header', description, required: false, schema: { type: 'string' } }
+    ))
+  ];
+  const requestBody = toRequestBody(doc, schema);
+
+  const responses: Record<string, unknown> = {};
+  for (const [status, description] of Object.entries(doc.responses ?? { 200: 'Success' })) {
+    responses[status] = { description };
+  }
+  if (schema) {
+    responses['400'] = problemResponse('The request failed validation; `errors` lists every invalid field');
+  }
+  if (isIdempotent) {
+    responses['409'] = problemResponse('Conflict, e.g. the Idempotency-Key was used with a different request or that request is still running');
+  }
+  for (const [status, description] of Object.entries(doc.problems ?? {})) {
+    responses[status] = problemResponse(description);
+  }
+  responses.default = problemResponse('Error');
+
+  return {
+    tags: [doc.tag],
+    summary: doc.summary,
+    ...(doc.description && { description: doc.description }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses,
+    ...(doc.security && { security: toSecurity(doc.security) }),
+    ...(route.deprecated && { deprecated: true })
+  };
+};
+
+/**
+ * OpenAPI 3 document for the documented routes of `router`: paths and methods come from
+ * the Express routes, parameters and bodies from their validateRequest schemas, and
+ * summaries from their apiDocs handlers. Routes mounted as deprecated are marked so.
+ */
+export const buildOpenApiDocument = (router: RouterLike): OpenApiDocument => {
+  const paths: OpenApiDocument['paths'] = {};
+  const tags: string[] = [];
+
+  for (const route of listRoutes(router)) {
+    const doc = route.handlers.map(getRouteDoc).find(Boolean);
+    if (!doc) {
+      continue;
+    }
+
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: toOperation(route, doc) };
+    if (!tags.includes(doc.tag)) {
+      tags.push(doc.tag);
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'VoiceOwl Transcription API',
+      version: appVersion,
+      description: 'Transcription, workflow and webhook API under /v1 and /v2; unversioned paths are deprecated aliases. ' +
+        'Errors are RFC 7807 problem documents.'
+    },
+    tags: tags.map(name => ({ name })),
+    paths,
+    components,
+    // Anonymous requests are accepted while AUTH_REQUIRED is off
+    security: [...toSecurity(['apiKey', 'bearerAuth']), ...(config.AUTH_REQUIRED ? [] : [{}])]
+  };
+};
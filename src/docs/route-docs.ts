@@ -0,0 +1,111 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * Security schemes declared in the OpenAPI document (see openapi.ts)
+ */
+export type SecurityScheme = 'apiKey' | 'bearerAuth' | 'adminToken' | 'metricsToken';
+
+export interface RouteDoc {
+  summary: string;
+  description?: string;
+  tag: string;
+  // Success responses by status code; validation and error responses are added by the generator
+  responses?: Record<number, string>;
+  // Error responses particular to the route (e.g. 403 for admin-only routes), documented as problem+json
+  problems?: Record<number, string>;
+  // Optional request headers the route reads, by name
+  headers?: Record<string, string>;
+  // Body that is not JSON (multipart uploads, binary chunks)
+  requestBody?: { contentType: string; description: string };
+  // Accepted credentials; an empty list documents a public route
+  security?: SecurityScheme[];
+}
+
+export type RouteDocOptions = Omit<RouteDoc, 'summary' | 'tag'>;
+
+const docs = new WeakMap<Function, RouteDoc>();
+
+/**
+ * Documentation for the routes of one router. `doc(summary)` returns a pass-through
+ * handler, placed first in a route, that the OpenAPI generator reads:
+ *
+ *   const doc = apiDocs('Workflows');
+ *   router.get('/workflows', doc('List workflows'), controller.listWorkflows);
+ *
+ * Routes without one are left out of the OpenAPI document.
+ */
+export const apiDocs = (tag: string, defaults: RouteDocOptions = {}) =>
+  // Typed loosely so the route's other handlers (e.g. validateRequest) decide the request type
+  (summary: string, options: RouteDocOptions = {}): RequestHandler<any, any, any, any> => {
+    const handler = (req: Request, res: Response, next: NextFunction): void => next();
+    docs.set(handler, { ...defaults, ...options, summary, tag });
+    return handler;
+  };
+
+export const getRouteDoc = (handler: unknown): RouteDoc | undefined =>
+  typeof handler === 'function' ? docs.get(handler) : undefined;
+
+/**
+ * The parts of Express router internals walked to list routes
+ */
+interface StackLayer {
+  handle: unknown;
+  method?: string;
+  slash?: boolean;
+  route?: { path: unknown; stack: StackLayer[] };
+}
+
+export interface RouterLike {
+  stack: StackLayer[];
+}
+
+export interface RegisteredRoute {
+  method: string;
+  path: string;
+  handlers: unknown[];
+  deprecated: boolean;
+}
+
+interface Mount {
+  path: string;
+  deprecated: boolean;
+}
+
+const mounts = new WeakMap<Function, Mount>();
+
+/**
+ * Record where `router` is mounted, which Express does not keep, so listRoutes can prefix
+ * its routes. Each mount needs its own router instance.
+ */
+export const mountedAt = <R extends Function>(path: string, router: R, options: { deprecated?: boolean } = {}): R => {
+  mounts.set(router, { path: path === '/' ? '' : path, deprecated: options.deprecated ?? false });
+  return router;
+};
+
+const isRouter = (handle: unknown): handle is RouterLike & Function =>
+  typeof handle === 'function' && Array.isArray((handle as Partial<RouterLike>).stack);
+
+/**
+ * Every route registered on `router` and the routers mounted on it, in registration order.
+ * Routers mounted at a path other than `/` are only walked when registered with mountedAt.
+ */
+export const listRoutes = (router: RouterLike, prefix = '', deprecated = false): RegisteredRoute[] => router.stack.flatMap(layer => {
+  if (layer.route) {
+    const { path, stack } = layer.route;
+    const methods = [...new Set(stack.map(handler => handler.method).filter((method): method is string => !!method))];
+
+    return typeof path === 'string'
+      ? methods.map(method => ({ method, path: prefix + path, handlers: stack.map(handler => handler.handle), deprecated }))
+      : [];
+  }
+
+  if (!isRouter(layer.handle)) {
+    return [];
+  }
+
+  const mount = mounts.get(layer.handle);
+  if (mount) {
+    return listRoutes(layer.handle, prefix + mount.path, deprecated || mount.deprecated);
+  }
+  return layer.slash ? listRoutes(layer.handle, prefix, deprecated) : [];
+});
@@ -0,0 +1,115 @@
+/**
+ * A single field that failed validation, e.g. `{ field: 'body.audioUrl', message: 'Invalid audioUrl format' }`
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Base class for errors that map to an HTTP status. ErrorHandler.handle turns
+ * them into RFC 7807 problem+json responses: the message becomes `detail`,
+ * `code` is a stable, machine-readable identifier clients can branch on and
+ * `details` are added as extension members.
+ */
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: string,
+    public readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Malformed or invalid request input. Maps to 400 Bad Request.
+ */
+export class ValidationFailedError extends AppError {
+  constructor(message: string, public readonly errors: FieldError[] = [], code: string = 'VALIDATION_FAILED') {
+    super(message, 400, code);
+  }
+}
+
+/**
+ * Missing or invalid credentials. Maps to 401 Unauthorized.
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string, code: string = 'UNAUTHORIZED') {
+    super(message, 401, code);
+  }
+}
+
+/**
+ * Authenticated, but not allowed to do this. Maps to 403 Forbidden.
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: string = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+/**
+ * The addressed resource does not exist (or belongs to another tenant). Maps to 404 Not Found.
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string, code: string = 'NOT_FOUND') {
+    super(message, 404, code);
+  }
+}
+
+/**
+ * The request conflicts with the resource's current state. Maps to 409 Conflict.
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, code: string = 'CONFLICT', details: Record<string, unknown> = {}) {
+    super(message, 409, code, details);
+  }
+}
+
+/**
+ * A workflow cannot move from its current state to the requested one. Maps to 409 Conflict.
+ */
+export class InvalidTransitionError extends ConflictError {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    public readonly allowed: string[]
+  ) {
+    super(
+      `Invalid transition from ${from} to ${to}. Valid transitions: ${allowed.join(', ')}`,
+      'INVALID_TRANSITION',
+      { from, to, allowedTransitions: allowed }
+    );
+  }
+}
+
+/**
+ * A precondition of the request (e.g. `If-Match`) does not hold for the resource's
+ * current version. Maps to 412 Precondition Failed.
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, code: string = 'PRECONDITION_FAILED', details: Record<string, unknown> = {}) {
+    super(message, 412, code, details);
+  }
+}
+
+/**
+ * A rate limit or quota was exceeded. Maps to 429 Too Many Requests.
+ */
+export class RateLimitedError extends AppError {
+  constructor(message: string, public readonly retryAfter: number, code: string = 'RATE_LIMITED', details: Record<string, unknown> = {}) {
+    super(message, 429, code, { retryAfter, ...details });
+  }
+}
+
+/**
+ * The speech provider could not produce a transcription. Maps to 503 Service Unavailable.
+ */
+export class ProviderUnavailableError extends AppError {
+  constructor(public readonly provider: string, reason: string) {
+    super(`Speech provider ${provider} is unavailable: ${reason}`, 503, 'PROVIDER_UNAVAILABLE', { provider });
+  }
+}
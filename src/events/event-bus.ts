@@ -0,0 +1,78 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { getCurrentTenantId, DEFAULT_TENANT_ID } from '../utils/tenant-context';
+import { logger } from '../utils/logger';
+
+export type DomainEventType =
+  | 'transcription.created'
+  | 'workflow.created'
+  | 'workflow.transitioned'
+  | 'workflow.completed';
+
+export const DOMAIN_EVENT_TYPES: DomainEventType[] = [
+  'transcription.created',
+  'workflow.created',
+  'workflow.transitioned',
+  'workflow.completed'
+];
+
+export interface DomainEvent {
+  id: string;
+  type: DomainEventType;
+  tenantId: string;
+  occurredAt: Date;
+  data: Record<string, any>;
+}
+
+export type DomainEventListener = (event: DomainEvent) => void | Promise<void>;
+
+const EVENT = 'domain-event';
+
+/**
+ * In-process publish/subscribe for things that happened to transcriptions and
+ * workflows. Publishers are never affected by listeners: listeners run after
+ * the current operation and their errors are only logged.
+ */
+export class EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0); // One listener per open event stream
+  }
+
+  /**
+   * Publish an event on behalf of the current tenant
+   */
+  publish(type: DomainEventType, data: Record<string, any>): DomainEvent {
+    const event: DomainEvent = {
+      id: randomUUID(),
+      type,
+      tenantId: getCurrentTenantId() || DEFAULT_TENANT_ID,
+      occurredAt: new Date(),
+      data
+    };
+
+    this.emitter.emit(EVENT, event);
+    return event;
+  }
+
+  /**
+   * Listen to every event. Returns a function that removes the listener.
+   */
+  subscribe(listener: DomainEventListener): () => void {
+    const handler = (event: DomainEvent) => {
+      setImmediate(() => {
+        Promise.resolve()
+          .then(() => listener(event))
+          .catch(error => logger.error('Error handling event', { eventType: event.type, eventId: event.id, error }));
+      });
+    };
+
+    this.emitter.on(EVENT, handler);
+    return () => {
+      this.emitter.off(EVENT, handler);
+    };
+  }
+}
+
+export const eventBus = new EventBus();
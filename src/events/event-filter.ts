@@ -0,0 +1,40 @@
+import { DomainEvent, DomainEventType } from './event-bus';
+
+export interface EventFilter {
+  tenantId: string;
+  types?: DomainEventType[];
+  workflowId?: string;
+  status?: string;
+}
+
+/**
+ * Workflow state an event leaves the transcription in: the target state of a
+ * transition, or the initial state of a new transcription/workflow
+ */
+const getEventStatus = (event: DomainEvent): string | undefined =>
+  event.type === 'workflow.transitioned' || event.type === 'workflow.completed'
+    ? event.data.to
+    : event.data.workflowStatus;
+
+/**
+ * Whether an event should be sent to a subscriber. Events of other tenants never match.
+ */
+export const matchesEventFilter = (event: DomainEvent, filter: EventFilter): boolean => {
+  if (event.tenantId !== filter.tenantId) {
+    return false;
+  }
+
+  if (filter.types && !filter.types.includes(event.type)) {
+    return false;
+  }
+
+  if (filter.workflowId && event.data.id !== filter.workflowId) {
+    return false;
+  }
+
+  if (filter.status && getEventStatus(event) !== filter.status) {
+    return false;
+  }
+
+  return true;
+};
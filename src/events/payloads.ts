@@ -0,0 +1,28 @@
+import { ITranscription } from '../models/Transcription.model';
+import { DomainEvent } from './event-bus';
+
+/**
+ * Event data describing a transcription. Kept small: subscribers fetch the
+ * full transcription (text, segments) through the API when they need it.
+ */
+export const toTranscriptionEventData = (transcription: ITranscription): Record<string, any> => ({
+  id: transcription._id.toString(),
+  audioUrl: transcription.audioUrl,
+  uploadId: transcription.uploadId,
+  source: transcription.source,
+  language: transcription.language,
+  confidence: transcription.confidence,
+  durationSeconds: transcription.audioMetadata?.durationSeconds,
+  workflowStatus: transcription.workflowStatus,
+  createdAt: transcription.createdAt
+});
+
+/**
+ * Body of an event as sent to webhooks and event streams
+ */
+export const toEventPayload = (event: DomainEvent): Record<string, any> => ({
+  id: event.id,
+  type: event.type,
+  createdAt: event.occurredAt,
+  data: event.data
+});
@@ -0,0 +1,107 @@
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from 'prom-client';
+import { database } from '../config/database';
+import { Transcription } from '../models/Transcription.model';
+import { logger } from '../utils/logger';
+
+/**
+ * Prometheus metrics, exposed in text format on GET /metrics.
+ *
+ * Metrics live in their own registry (not prom-client's global one) so the
+ * endpoint only exposes what this service defines plus the default process metrics.
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by method, route pattern and status code',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+export const transcriptionsTotal = new Counter({
+  name: 'transcriptions_total',
+  help: 'Speech provider transcriptions by source, language and outcome (success or failure)',
+  labelNames: ['source', 'language', 'outcome'] as const,
+  registers: [metricsRegistry]
+});
+
+export const transcriptionDuration = new Histogram({
+  name: 'transcription_duration_seconds',
+  help: 'Time the speech provider took to transcribe, by source and language',
+  labelNames: ['source', 'language'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60, 120],
+  registers: [metricsRegistry]
+});
+
+export const azureRetriesTotal = new Counter({
+  name: 'azure_retries_total',
+  help: 'Azure Speech Service calls retried after a failed attempt',
+  registers: [metricsRegistry]
+});
+
+export const azureFallbacksTotal = new Counter({
+  name: 'azure_fallbacks_total',
+  help: 'Azure transcriptions that fell back to the mock transcription',
+  registers: [metricsRegistry]
+});
+
+export const rateLimitRejectionsTotal = new Counter({
+  name: 'rate_limit_rejections_total',
+  help: 'Requests rejected with 429 by limiter (general, transcription, azure, audio_quota)',
+  labelNames: ['limiter'] as const,
+  registers: [metricsRegistry]
+});
+
+export const workflowTimeInState = new Histogram({
+  name: 'workflow_time_in_state_seconds',
+  help: 'Time workflows spent in a state before transitioning out of it',
+  labelNames: ['status'] as const,
+  buckets: [1, 5, 15, 60, 300, 900, 3600, 4 * 3600, 24 * 3600, 7 * 24 * 3600],
+  registers: [metricsRegistry]
+});
+
+export const workflowsByState = new Gauge({
+  name: 'workflows',
+  help: 'Workflows currently in each state, across all tenants',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry],
+  // Read when scraped, so the gauge always matches the database
+  async collect() {
+    // Still serve the other metrics when MongoDB is unavailable
+    if (database.getConnection().readyState !== 1) {
+      return;
+    }
+
+    try {
+      const stats = await Transcription.aggregate([
+        { $match: { workflowStatus: { $exists: true } } },
+        { $group: { _id: '$workflowStatus', count: { $sum: 1 } } }
+      ]);
+
+      this.reset();
+      stats.forEach(stat => this.set({ status: stat._id }, stat.count));
+    } catch (error) {
+      logger.error('Error collecting workflow state metrics', { error });
+    }
+  }
+});
+
+/**
+ * Run a speech provider call, recording its latency and outcome
+ */
+export const observeTranscription = async <T>(source: string, language: string, transcribe: () => Promise<T>): Promise<T> => {
+  const endTimer = transcriptionDuration.startTimer({ source, language });
+
+  try {
+    const result = await transcribe();
+    endTimer();
+    transcriptionsTotal.inc({ source, language, outcome: 'success' });
+    return result;
+  } catch (error) {
+    transcriptionsTotal.inc({ source, language, outcome: 'failure' });
+    throw error;
+  }
+};
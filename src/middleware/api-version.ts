@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+import { ValidationFailedError } from '../errors/app-errors';
+
+export const API_VERSIONS = [1, 2] as const;
+
+export type ApiVersion = typeof API_VERSIONS[number];
+
+// Unversioned requests keep the response shapes they had before versioning
+export const DEFAULT_API_VERSION: ApiVersion = 1;
+
+// Request and response header naming the version
+export const API_VERSION_HEADER = 'API-Version';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiVersion?: ApiVersion;
+    }
+  }
+}
+
+const isApiVersion = (value: number): value is ApiVersion => (API_VERSIONS as readonly number[]).includes(value);
+
+const setVersion = (req: Request, res: Response, version: ApiVersion): void => {
+  req.apiVersion = version;
+  res.set(API_VERSION_HEADER, String(version));
+};
+
+/**
+ * Serve the rest of the request as `version` (the `/v1` and `/v2` routers)
+ */
+export const useApiVersion = (version: ApiVersion) => (req: Request, res: Response, next: NextFunction): void => {
+  setVersion(req, res, version);
+  next();
+};
+
+/**
+ * Unversioned routes: the version comes from the API-Version request header (default 1),
+ * and every response announces the deprecation (RFC 9745), the sunset date (RFC 8594)
+ * and the versioned URL to move to.
+ */
+export const deprecatedRootRoutes = (req: Request, res: Response, next: NextFunction): void => {
+  const requested = req.get(API_VERSION_HEADER);
+  const version = requested === undefined ? DEFAULT_API_VERSION : Number(requested);
+
+  if (!isApiVersion(version)) {
+    next(new ValidationFailedError(
+      `Unsupported API version: ${requested}. Supported versions: ${API_VERSIONS.join(', ')}`,
+      [{ field: `headers.${API_VERSION_HEADER}`, message: `${API_VERSION_HEADER} must be one of: ${API_VERSIONS.join(', ')}` }],
+      'UNSUPPORTED_API_VERSION'
+    ));
+    return;
+  }
+
+  setVersion(req, res, version);
+  res.set({
+    Deprecation: `@${Math.floor(config.ROOT_ROUTES_DEPRECATED_AT.getTime() / 1000)}`,
+    Sunset: config.ROOT_ROUTES_SUNSET_AT.toUTCString(),
+    Link: `</v${version}${req.originalUrl}>; rel="successor-version"`
+  });
+  next();
+};
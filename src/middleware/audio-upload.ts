@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { config } from '../config/env';
+import { AudioIngestionError, isAllowedAudioContentType } from '../services/audio-ingestion.service';
+import { ValidationFailedError } from '../errors/app-errors';
+
+const upload = multer({
+  dest: config.AUDIO_TEMP_DIR,
+  limits: {
+    fileSize: config.AUDIO_MAX_BYTES,
+    files: 1
+  },
+  fileFilter: (req, file, callback) => {
+    const contentType = file.mimetype.toLowerCase();
+
+    if (!isAllowedAudioContentType(contentType)) {
+      callback(new AudioIngestionError(`Unsupported content type: ${contentType}`, 'UNSUPPORTED_CONTENT_TYPE'));
+      return;
+    }
+    callback(null, true);
+  }
+}).single('file');
+
+/**
+ * Multipart parser for a single audio file in the `file` field.
+ * Parser errors are mapped to the same problems as the upload endpoints.
+ */
+export const audioUpload = (req: Request, res: Response, next: NextFunction): void => {
+  upload(req, res, (error: unknown) => {
+    if (!error || error instanceof AudioIngestionError) {
+      next(error);
+      return;
+    }
+
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      next(new AudioIngestionError(`Audio exceeds the maximum size of ${config.AUDIO_MAX_BYTES} bytes`, 'AUDIO_TOO_LARGE'));
+      return;
+    }
+
+    next(new ValidationFailedError(
+      error instanceof Error ? error.message : 'Invalid multipart request',
+      [{ field: 'body.file', message: 'must be a single audio file sent as multipart/form-data' }],
+      'INVALID_MULTIPART'
+    ));
+  });
+};
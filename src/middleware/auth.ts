@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+import { ForbiddenError, UnauthorizedError } from '../errors/app-errors';
+import { ApiKeyService } from '../services/api-key.service';
+import { runWithTenant, DEFAULT_TENANT_ID } from '../utils/tenant-context';
+import { Role, parseRoles } from '../utils/roles';
+
+export interface AuthContext {
+  tenantId: string;
+  subject: string; // API key principal (prefix for keys without one), JWT `sub`, or 'anonymous'
+  method: 'api-key' | 'jwt' | 'anonymous';
+  roles: Role[]; // Empty for anonymous requests, which are not role-checked
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const apiKeyService = new ApiKeyService();
+
+const unauthorized = (res: Response, next: NextFunction, message: string): void => {
+  res.set('WWW-Authenticate', 'Bearer');
+  next(new UnauthorizedError(message));
+};
+
+/**
+ * Read the credential from `X-API-Key` or `Authorization: Bearer`
+ */
+const getCredential = (req: Request): string | undefined => {
+  const apiKey = req.get('X-API-Key');
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+};
+
+/**
+ * Verify a JWT bearer token. Signature and expiry errors propagate to
+ * ErrorHandler.handle, which maps them to 401.
+ */
+const verifyJwt = (token: string): AuthContext => {
+  const claims = jwt.verify(token, config.JWT_SECRET, {
+    algorithms: ['HS256'],
+    ...(config.JWT_ISSUER && { issuer: config.JWT_ISSUER }),
+    ...(config.JWT_AUDIENCE && { audience: config.JWT_AUDIENCE })
+  }) as jwt.JwtPayload;
+
+  if (typeof claims.tenantId !== 'string' || !claims.tenantId) {
+    throw new jwt.JsonWebTokenError('Token is missing the tenantId claim');
+  }
+
+  return { tenantId: claims.tenantId, subject: claims.sub || 'jwt', method: 'jwt', roles: parseRoles(claims.roles) };
+};
+
+/**
+ * Authenticate the request with an API key or JWT and run the rest of the
+ * request in that tenant's context, so every tenant-scoped query only sees its data.
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const credential = getCredential(req);
+
+  if (!credential) {
+    if (config.AUTH_REQUIRED) {
+      unauthorized(res, next, 'Authentication required: provide an API key or bearer token');
+      return;
+    }
+
+    req.auth = { tenantId: DEFAULT_TENANT_ID, subject: 'anonymous', method: 'anonymous', roles: [] };
+    runWithTenant(DEFAULT_TENANT_ID, next);
+    return;
+  }
+
+  if (credential.startsWith('vo_')) {
+    const apiKey = await apiKeyService.verifyKey(credential);
+
+    if (!apiKey) {
+      unauthorized(res, next, 'Invalid, revoked or expired API key');
+      return;
+    }
+
+    req.auth = { tenantId: apiKey.tenantId, subject: apiKey.principal || apiKey.prefix, method: 'api-key', roles: apiKey.roles };
+  } else {
+    if (!config.JWT_SECRET) {
+      unauthorized(res, next, 'JWT authentication is not configured');
+      return;
+    }
+
+    req.auth = verifyJwt(credential);
+  }
+
+  runWithTenant(req.auth.tenantId, next);
+};
+
+/**
+ * Guard for tenant routes reserved to some roles; admins always pass. Anonymous requests
+ * (only possible when AUTH_REQUIRED is off) are not role-checked, as with transitions.
+ */
+export const requireRole = (...roles: Role[]) => (req: Request, res: Response, next: NextFunction): void => {
+  const auth = req.auth;
+
+  if (!auth || auth.method === 'anonymous' || auth.roles.includes('admin') || roles.some(role => auth.roles.includes(role))) {
+    next();
+    return;
+  }
+
+  next(new ForbiddenError(`Not permitted: requires role ${roles.join(' or ')}`, 'ROLE_REQUIRED'));
+};
+
+/**
+ * Constant-time comparison of a presented token with the configured one
+ */
+const tokenMatches = (configured: string, presented: string): boolean => {
+  const expected = Buffer.from(configured);
+  const actual = Buffer.from(presented);
+
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Guard for the /admin routes: requires `X-Admin-Token` to match ADMIN_API_TOKEN
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (!config.ADMIN_API_TOKEN) {
+    next(new ForbiddenError('Admin API is disabled. Set ADMIN_API_TOKEN to enable it.', 'ADMIN_API_DISABLED'));
+    return;
+  }
+
+  if (!tokenMatches(config.ADMIN_API_TOKEN, req.get('X-Admin-Token') || '')) {
+    unauthorized(res, next, 'Invalid admin token');
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Guard for GET /metrics: when METRICS_TOKEN is set, scrapers must send it as a bearer token
+ */
+export const requireMetricsToken = (req: Request, res: Response, next: NextFunction): void => {
+  if (!config.METRICS_TOKEN) {
+    next();
+    return;
+  }
+
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+
+  if (scheme?.toLowerCase() !== 'bearer' || !token || !tokenMatches(config.METRICS_TOKEN, token)) {
+    unauthorized(res, next, 'Invalid metrics token');
+    return;
+  }
+
+  next();
+};
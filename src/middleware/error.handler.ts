@@ -1,13 +1,34 @@
 import { Request, Response, NextFunction } from 'express';
+import { AppError, ConflictError, FieldError, NotFoundError, UnauthorizedError, ValidationFailedError } from '../errors/app-errors';
+import { logger } from '../utils/logger';
 
 export interface ApiError extends Error {
   status?: number;
-  code?: string;
+  statusCode?: number;
+  code?: string | number;
+  type?: string;
+  errors?: Record<string, { path?: string; message: string }>;
+  path?: string;
+}
+
+/**
+ * RFC 7807 problem details, sent as application/problem+json
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  requestId?: string;
+  errors?: FieldError[];
+  [extension: string]: unknown;
 }
 
 export class ErrorHandler {
   /**
-   * Global error handling middleware
+   * Global error handling middleware: maps every error to a problem+json response
    */
   public static handle = (
     error: ApiError,
@@ -15,72 +36,100 @@ export class ErrorHandler {
     res: Response,
     next: NextFunction
   ): void => {
-    console.error('🔥 Error caught by global handler:', {
-      message: error.message,
-      stack: error.stack,
-      url: req.url,
-      method: req.method,
-      body: req.body,
-      params: req.params,
-      query: req.query
-    });
+    const appError = ErrorHandler.toAppError(error);
 
-    // Default error response
-    let status = error.status || 500;
-    let message = error.message || 'Internal Server Error';
-
-    // Handle specific error types
-    if (error.name === 'ValidationError') {
-      status = 400;
-      message = 'Validation Error: ' + error.message;
-    } else if (error.name === 'CastError') {
-      status = 400;
-      message = 'Invalid ID format';
-    } else if (error.name === 'MongoServerError' && error.code === 'E11000') {
-      status = 409;
-      message = 'Duplicate entry';
-    } else if (error.name === 'JsonWebTokenError') {
-      status = 401;
-      message = 'Invalid token';
-    } else if (error.name === 'TokenExpiredError') {
-      status = 401;
-      message = 'Token expired';
+    // Request bodies and query strings can carry credentials and transcripts, so only the route is logged
+    if (appError.status >= 500) {
+      logger.error('Error caught by global handler', { error, code: appError.code, method: req.method, path: req.path });
+    } else {
+      logger.debug('Request rejected', { code: appError.code, status: appError.status, detail: appError.message, method: req.method, path: req.path });
     }
 
-    // Don't expose internal error details in production
-    if (process.env.NODE_ENV === 'production' && status === 500) {
-      message = 'Internal Server Error';
+    if (res.headersSent) {
+      next(error);
+      return;
     }
 
-    res.status(status).json({
-      error: ErrorHandler.getErrorName(status),
-      message,
-      timestamp: new Date().toISOString(),
-      path: req.url
-    });
+    res.status(appError.status)
+      .type('application/problem+json')
+      .json(ErrorHandler.toProblem(appError, req));
   };
 
   /**
    * Handle 404 errors for undefined routes
    */
-  public static notFound = (req: Request, res: Response): void => {
-    res.status(404).json({
-      error: 'Not Found',
-      message: `Route ${req.method} ${req.url} not found`,
-      timestamp: new Date().toISOString(),
-      path: req.url
-    });
+  public static notFound = (req: Request, res: Response, next: NextFunction): void => {
+    next(new NotFoundError(`Route ${req.method} ${req.path} not found`, 'ROUTE_NOT_FOUND'));
   };
 
   /**
    * Async error wrapper for route handlers
    */
-  public static asyncHandler = (fn: Function) => {
-    return (req: Request, res: Response, next: NextFunction) => {
+  public static asyncHandler = <R = Request>(fn: (req: R, res: Response, next: NextFunction) => unknown) => {
+    return (req: R, res: Response, next: NextFunction) => {
       Promise.resolve(fn(req, res, next)).catch(next);
     };
   };
 
+  /**
+   * Problem document for an error
+   */
+  public static toProblem(error: AppError, req: Request): ProblemDetails {
+    return {
+      type: `/problems/${error.code.toLowerCase().replace(/_/g, '-')}`,
+      title: ErrorHandler.getErrorName(error.status),
+      status: error.status,
+      detail: error.message,
+      instance: req.originalUrl.split('?')[0],
+      code: error.code,
+      ...error.details,
+      ...(req.requestId && { requestId: req.requestId }),
+      ...(error instanceof ValidationFailedError && error.errors.length > 0 && { errors: error.errors })
+    };
+  }
+
+  /**
+   * Map library and unexpected errors onto the typed error model
+   */
+  private static toAppError(error: ApiError): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+
+    if (error.name === 'ValidationError') {
+      const errors = Object.entries(error.errors || {}).map(([field, fieldError]) => ({
+        field: `body.${fieldError.path || field}`,
+        message: fieldError.message
+      }));
+      return new ValidationFailedError('Validation Error: ' + error.message, errors);
+    }
+    if (error.name === 'CastError') {
+      return new ValidationFailedError('Invalid ID format', [], 'INVALID_ID');
+    }
+    if (error.name === 'MongoServerError' && error.code === 11000) {
+      return new ConflictError('Duplicate entry', 'DUPLICATE');
+    }
+    if (error.name === 'TokenExpiredError') {
+      return new UnauthorizedError('Token expired', 'TOKEN_EXPIRED');
+    }
+    if (error.name === 'JsonWebTokenError' || error.name === 'NotBeforeError') {
+      return new UnauthorizedError('Invalid token', 'INVALID_TOKEN');
+    }
+    if (error.type === 'entity.parse.failed') {
+      return new ValidationFailedError('Malformed JSON request body', [], 'MALFORMED_BODY');
+    }
+
+    // Other client errors raised by Express and body-parser (e.g. 413 Payload Too Large)
+    const status = error.status || error.statusCode;
+    if (status && status >= 400 && status < 500) {
+      return new AppError(error.message, status, ErrorHandler.getErrorName(status).toUpperCase().replace(/ /g, '_'));
+    }
+
+    // Don't expose internal error details in production
+    const message = process.env.NODE_ENV === 'production' ? 'Internal Server Error' : error.message || 'Internal Server Error';
+    return new AppError(message, 500, 'INTERNAL_ERROR');
+  }
+
   /**
    * Get standardized error name from status code
    */
@@ -91,6 +140,9 @@ export class ErrorHandler {
       403: 'Forbidden',
       404: 'Not Found',
       409: 'Conflict',
+      412: 'Precondition Failed',
+      413: 'Payload Too Large',
+      415: 'Unsupported Media Type',
       422: 'Unprocessable Entity',
       429: 'Too Many Requests',
       500: 'Internal Server Error',
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestDuration } from '../metrics/metrics';
+
+/**
+ * Record the latency of every request, labelled with the matched route pattern
+ * (e.g. `/workflow/:id`) rather than the URL to keep label cardinality bounded
+ */
+export const httpMetrics = (req: Request, res: Response, next: NextFunction): void => {
+  const endTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    endTimer({
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched',
+      status_code: String(res.statusCode)
+    });
+  });
+
+  next();
+};
@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { ValidationFailedError } from '../errors/app-errors';
+import { IdempotencyService } from '../services/idempotency.service';
+import { StoredResponse } from '../models/IdempotencyKey.model';
+import { logger } from '../utils/logger';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// Set on responses replayed from an earlier request
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+// Response headers replayed along with the status and body
+const REPLAYED_HEADERS = ['location', 'etag'];
+
+const idempotencyService = new IdempotencyService();
+
+declare global {
+  namespace Express {
+    interface Request {
+      idempotency?: { key: string; fingerprint: string };
+    }
+  }
+}
+
+// Object keys sorted, so the order properties were sent in does not count
+const canonicalJson = (value: unknown): string => JSON.stringify(value, (_key, nested: unknown) =>
+  nested !== null && typeof nested === 'object' && !Array.isArray(nested)
+    ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : nested);
+
+/**
+ * Same key, method, path, API version, If-Match precondition and body means the same
+ * request. The version counts because unversioned paths negotiate it by header and
+ * response shapes differ. Taken before validateRequest, so the body is the one sent:
+ * property order does not count, unknown properties do.
+ */
+const fingerprintOf = (req: Request): string => crypto
+  .createHash('sha256')
+  .update(canonicalJson([
+    req.method,
+    req.baseUrl + req.path,
+    req.apiVersion ?? null,
+    req.get('If-Match') ?? null,
+    req.body ?? null
+  ]))
+  .digest('hex');
+
+const isValidKey = (key: string): boolean => key.length > 0 && key.length <= MAX_KEY_LENGTH;
+
+const sendReplay = (res: Response, key: string, response: StoredResponse): void => {
+  const { statusCode, headers, body } = response;
+  logger.info('Replaying idempotent response', { idempotencyKey: key, statusCode });
+
+  res.status(statusCode).set({ ...headers, [IDEMPOTENT_REPLAYED_HEADER]: 'true' }).type('application/json').send(body);
+};
+
+/**
+ * Answer a retry from its stored response before it reaches rate limits and quotas.
+ * Mounted once, right after authenticate, since keys are scoped to the tenant; requests
+ * whose key is free go on to the route, where `idempotent` claims it.
+ */
+export const replayIdempotent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER);
+
+  // Malformed keys are rejected by `idempotent` on the routes that honor them
+  if (key === undefined || !isValidKey(key)) {
+    next();
+    return;
+  }
+
+  req.idempotency = { key, fingerprint: fingerprintOf(req) };
+
+  try {
+    const response = await idempotencyService.findReplay(key, req.idempotency.fingerprint);
+
+    if (response) {
+      sendReplay(res, key, response);
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Honor an `Idempotency-Key` header on create and transition routes. The first request
+ * with a key runs; its successful response is stored and replayed to retries with the
+ * same body, while reusing the key for a different body is a 409. Failed requests free
+ * the key so they can be retried with it.
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get(IDEMPOTENCY_KEY_HEADER);
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!isValidKey(key)) {
+    const message = `${IDEMPOTENCY_KEY_HEADER} must be between 1 and ${MAX_KEY_LENGTH} characters`;
+    next(new ValidationFailedError(message, [{ field: `headers.${IDEMPOTENCY_KEY_HEADER}`, message }]));
+    return;
+  }
+
+  try {
+    const claim = await idempotencyService.claim(key, req.idempotency?.fingerprint ?? fingerprintOf(req));
+
+    // The first request finished after replayIdempotent looked
+    if (claim.outcome === 'replay') {
+      sendReplay(res, key, claim.response);
+      return;
+    }
+
+    let responseBody: string | undefined;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = JSON.stringify(body);
+      return json(body);
+    };
+
+    res.on('finish', () => {
+      const succeeded = res.statusCode >= 200 && res.statusCode < 300;
+      const headers = Object.fromEntries(REPLAYED_HEADERS
+        .map(name => [name, res.get(name)])
+        .filter((header): header is [string, string] => typeof header[1] === 'string'));
+
+      const stored = succeeded && responseBody !== undefined
+        ? idempotencyService.complete(claim.id, { statusCode: res.statusCode, headers, body: responseBody })
+        : idempotencyService.release(claim.id);
+
+      stored.catch(error => logger.error('Error storing idempotency key', { idempotencyKey: key, error }));
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,74 +1,146 @@
-import rateLimit from 'express-rate-limit';
+import { Request, Response, NextFunction } from 'express';
+import rateLimit, { ipKeyGenerator, RateLimitInfo, RateLimitRequestHandler } from 'express-rate-limit';
 import { config } from '../config/env';
+import { RateLimitedError } from '../errors/app-errors';
+import { Plan, getPlan } from '../config/plans';
+import { rateLimitStores } from '../rate-limit/store.registry';
+import { UsageService } from '../services/usage.service';
+import { DEFAULT_TENANT_ID } from '../utils/tenant-context';
+import { rateLimitRejectionsTotal } from '../metrics/metrics';
+import { logger } from '../utils/logger';
+
+export interface PlanRateLimit {
+  name: string;
+  windowMs: number;
+  limit: (plan: Plan) => number;
+  middleware: RateLimitRequestHandler;
+}
+
+interface PlanRateLimitOptions {
+  name: string;
+  windowMs: number;
+  limit: (plan: Plan) => number;
+  message: string;
+}
+
+const usageService = new UsageService();
 
 /**
- * General API rate limiting middleware
+ * Authenticated callers are limited per tenant, anonymous ones per IP address
+ */
+export const getRateLimitKey = (req: Request): string =>
+  req.auth && req.auth.method !== 'anonymous'
+    ? `tenant:${req.auth.tenantId}`
+    : `ip:${ipKeyGenerator(req.ip || '')}`;
+
+/**
+ * Plan of the caller's tenant. Falls back to the default plan if it cannot be
+ * loaded, so a database outage does not turn into rejected requests.
+ */
+export const getRequestPlan = (req: Request): Promise<Plan> =>
+  usageService.getPlan(req.auth?.tenantId || DEFAULT_TENANT_ID).catch(error => {
+    logger.error('Error loading tenant plan', { error });
+    return getPlan();
+  });
+
+/**
+ * Rate limiter whose limit depends on the caller's plan, counted in the shared RATE_LIMIT_STORE
  */
-export const generalRateLimit = rateLimit({
+const createPlanRateLimit = (options: PlanRateLimitOptions): PlanRateLimit => {
+  const middleware = rateLimit({
+    windowMs: options.windowMs,
+    limit: async (req: Request) => options.limit(await getRequestPlan(req)),
+    keyGenerator: getRateLimitKey,
+    store: rateLimitStores.create(`ratelimit:${options.name}`),
+    passOnStoreError: true, // Let requests through rather than fail them when the store is unavailable
+    standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
+    legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+    handler: (req, res, next) => {
+      const { resetTime } = (req as Request & { rateLimit: RateLimitInfo }).rateLimit;
+      const retryAfter = resetTime
+        ? Math.max(1, Math.ceil((resetTime.getTime() - Date.now()) / 1000))
+        : Math.ceil(options.windowMs / 1000);
+
+      logger.warn('Rate limit exceeded', { limiter: options.name, key: getRateLimitKey(req) });
+      rateLimitRejectionsTotal.inc({ limiter: options.name });
+      res.set('Retry-After', String(retryAfter));
+      next(new RateLimitedError(options.message, retryAfter, 'RATE_LIMITED', { limiter: options.name }));
+    }
+  });
+
+  return { name: options.name, windowMs: options.windowMs, limit: options.limit, middleware };
+};
+
+const generalLimit = createPlanRateLimit({
+  name: 'general',
   windowMs: config.RATE_LIMIT_WINDOW_MS, // 15 minutes by default
-  max: config.RATE_LIMIT_MAX_REQUESTS, // 100 requests per window by default
-  message: {
-    error: 'Too Many Requests',
-    message: 'Too many requests from this IP, please try again later.',
-    retryAfter: Math.ceil(config.RATE_LIMIT_WINDOW_MS / 1000)
-  },
-  standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
-  legacyHeaders: false, // Disable the `X-RateLimit-*` headers
-  handler: (req, res) => {
-    console.warn(`🚨 Rate limit exceeded for IP: ${req.ip}`);
-    res.status(429).json({
-      error: 'Too Many Requests',
-      message: 'Too many requests from this IP, please try again later.',
-      retryAfter: Math.ceil(config.RATE_LIMIT_WINDOW_MS / 1000),
-      timestamp: new Date().toISOString()
-    });
-  }
+  limit: plan => plan.requestsPerWindow,
+  message: 'Too many requests, please try again later.'
+});
+
+const transcriptionLimit = createPlanRateLimit({
+  name: 'transcription',
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  limit: plan => plan.transcriptionRequestsPerWindow,
+  message: 'Too many transcription requests. Please wait before creating more transcriptions.'
+});
+
+const azureLimit = createPlanRateLimit({
+  name: 'azure',
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: plan => plan.azureRequestsPerWindow,
+  message: 'Too many Azure transcription requests. Please wait before trying again.'
 });
 
+// Every plan-based limiter, for reporting consumption on GET /usage
+export const planRateLimits: PlanRateLimit[] = [generalLimit, transcriptionLimit, azureLimit];
+
+/**
+ * General API rate limiting middleware
+ */
+export const generalRateLimit = generalLimit.middleware;
+
 /**
  * Stricter rate limiting for transcription endpoints
  */
-export const transcriptionRateLimit = rateLimit({
-  windowMs: 10 * 60 * 1000, // 10 minutes
-  max: 20, // 20 transcription requests per 10 minutes
-  message: {
-    error: 'Too Many Requests',
-    message: 'Too many transcription requests. Please wait before creating more transcriptions.',
-    retryAfter: 600 // 10 minutes
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    console.warn(`🚨 Transcription rate limit exceeded for IP: ${req.ip}`);
-    res.status(429).json({
-      error: 'Too Many Requests',
-      message: 'Too many transcription requests. Please wait before creating more transcriptions.',
-      retryAfter: 600,
-      timestamp: new Date().toISOString()
-    });
-  }
-});
+export const transcriptionRateLimit = transcriptionLimit.middleware;
 
 /**
  * Azure endpoint specific rate limiting
  */
-export const azureRateLimit = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 10, // 10 Azure requests per 15 minutes
-  message: {
-    error: 'Too Many Requests',
-    message: 'Too many Azure transcription requests. Please wait before trying again.',
-    retryAfter: 900 // 15 minutes
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (req, res) => {
-    console.warn(`🚨 Azure rate limit exceeded for IP: ${req.ip}`);
-    res.status(429).json({
-      error: 'Too Many Requests',
-      message: 'Too many Azure transcription requests. Please wait before trying again.',
-      retryAfter: 900,
-      timestamp: new Date().toISOString()
-    });
+export const azureRateLimit = azureLimit.middleware;
+
+/**
+ * Reject new transcriptions once the tenant has used its monthly audio minutes.
+ * Audio length is only known after download, so usage is recorded when the
+ * audio is transcribed and the last accepted request may go over the quota.
+ */
+export const audioQuota = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const tenantId = req.auth?.tenantId || DEFAULT_TENANT_ID;
+  let quota;
+
+  try {
+    quota = await usageService.getAudioQuota(tenantId);
+  } catch (error) {
+    logger.error('Error checking audio quota', { error });
+    next();
+    return;
   }
-});
+
+  if (!quota.exceeded) {
+    next();
+    return;
+  }
+
+  const retryAfter = Math.ceil((quota.resetsAt.getTime() - Date.now()) / 1000);
+
+  logger.warn('Monthly audio quota exceeded', { tenantId });
+  rateLimitRejectionsTotal.inc({ limiter: 'audio_quota' });
+  res.set('Retry-After', String(retryAfter));
+  next(new RateLimitedError(
+    `Monthly audio quota of ${quota.limitMinutes} minutes exceeded. It resets on ${quota.resetsAt.toISOString()}.`,
+    retryAfter,
+    'AUDIO_QUOTA_EXCEEDED',
+    { quota }
+  ));
+};
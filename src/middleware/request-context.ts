@@ -0,0 +1,49 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { runWithRequestId } from '../utils/request-context';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Accept caller-supplied ids only if they are safe to echo and log
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Give every request a correlation id - the caller's `X-Request-Id` or a new
+ * UUID - echo it back, run the request under it and log the completed request
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.get('X-Request-Id');
+  const requestId = header && VALID_REQUEST_ID.test(header) ? header : randomUUID();
+  const startedAt = process.hrtime.bigint();
+
+  req.requestId = requestId;
+  res.set('X-Request-Id', requestId);
+
+  res.on('finish', () => {
+    const fields = {
+      requestId,
+      tenantId: req.auth?.tenantId,
+      method: req.method,
+      path: req.originalUrl.split('?')[0], // Query strings can carry credentials
+      statusCode: res.statusCode,
+      durationMs: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e6),
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
+    };
+
+    if (res.statusCode >= 500) {
+      logger.error('Request failed', fields);
+    } else {
+      logger.info('Request completed', fields);
+    }
+  });
+
+  runWithRequestId(requestId, next);
+};
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { FieldError, ValidationFailedError } from '../errors/app-errors';
+import { Infer, ObjectField, Shape } from '../utils/schema';
+
+/**
+ * Schemas for the parts of a request a route accepts. Parts without a schema are passed through unchecked.
+ */
+export interface RequestSchema {
+  params?: ObjectField<Shape>;
+  query?: ObjectField<Shape>;
+  body?: ObjectField<Shape>;
+}
+
+// Schema behind each validateRequest handler, read when generating the OpenAPI document
+const schemas = new WeakMap<Function, RequestSchema>();
+
+type PartOf<F, Fallback> = F extends ObjectField<Shape> ? Infer<F> : Fallback;
+
+/**
+ * Express request typed by its schema, as seen by handlers behind validateRequest
+ */
+export type ValidatedRequest<S extends RequestSchema> = Request<
+  PartOf<S['params'], Record<string, string>>,
+  unknown,
+  PartOf<S['body'], unknown>,
+  PartOf<S['query'], Request['query']>
+>;
+
+/**
+ * Check params, query and body against `schema`. Valid values replace the raw ones
+ * (numbers, booleans and dates parsed, unknown properties dropped); otherwise every
+ * field error is reported in one 400 problem response.
+ */
+export const validateRequest = <S extends RequestSchema>(schema: S) => {
+  const handler = (req: ValidatedRequest<S>, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+
+    const params = schema.params?.parse(req.params, 'params', { errors, coerce: true });
+    const query = schema.query?.parse(req.query, 'query', { errors, coerce: true });
+    // Requests without a JSON body validate like an empty object
+    const body = schema.body?.parse(req.body ?? {}, 'body', { errors, coerce: false });
+
+    if (errors.length > 0) {
+      next(new ValidationFailedError(errors.map(error => error.message).join('; '), errors));
+      return;
+    }
+
+    if (schema.params) {
+      req.params = params as ValidatedRequest<S>['params'];
+    }
+    if (schema.query) {
+      // req.query is a getter that re-parses the query string in Express 5
+      Object.defineProperty(req, 'query', { value: query, writable: true, configurable: true, enumerable: true });
+    }
+    if (schema.body) {
+      req.body = body as ValidatedRequest<S>['body'];
+    }
+
+    next();
+  };
+
+  schemas.set(handler, schema);
+  return handler;
+};
+
+/**
+ * Schema checked by `handler`, if it was created by validateRequest
+ */
+export const getRequestSchema = (handler: unknown): RequestSchema | undefined =>
+  typeof handler === 'function' ? schemas.get(handler) : undefined;
@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { Role, ROLES } from '../utils/roles';
+
+export interface IApiKey extends Document {
+  name: string;
+  tenantId: string;
+  roles: Role[];
+  principal?: string; // User or service account the key acts for; missing on keys issued before principals
+  prefix: string; // Public part of the key, used to look it up
+  keyHash: string; // SHA-256 of the full key; the key itself is never stored
+  expiresAt?: Date; // Set when a rotated key is kept valid for a grace period
+  revokedAt?: Date;
+  replacedBy?: string;
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  tenantId: {
+    type: String,
+    required: true,
+    trim: true,
+    index: true
+  },
+  roles: [{
+    type: String,
+    enum: ROLES
+  }],
+  // Recorded as the identity in workflow history, so four-eyes counts every key of one person as them
+  principal: {
+    type: String,
+    trim: true
+  },
+  prefix: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  keyHash: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date
+  },
+  revokedAt: {
+    type: Date
+  },
+  replacedBy: {
+    type: String
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', apiKeySchema);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+
+export type IdempotencyKeyStatus = 'in_progress' | 'completed';
+
+export interface StoredResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string; // JSON as sent, so replays are byte-identical
+}
+
+// First request made with an Idempotency-Key, and its response once it succeeded
+export interface IIdempotencyKey extends Document {
+  tenantId: string;
+  key: string;
+  fingerprint: string; // Hash of method, path and body
+  status: IdempotencyKeyStatus;
+  response?: StoredResponse;
+  expiresAt: Date; // End of the lock while in progress, of the replay window once completed
+  createdAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>({
+  key: {
+    type: String,
+    required: true
+  },
+  fingerprint: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['in_progress', 'completed'],
+    default: 'in_progress'
+  },
+  response: {
+    type: Schema.Types.Mixed
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Keys are unique per tenant
+idempotencyKeySchema.index({ tenantId: 1, key: 1 }, { unique: true });
+
+// Expired keys are removed by MongoDB; the service also ignores expired locks until then
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+idempotencyKeySchema.plugin(tenantScopePlugin);
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>('IdempotencyKey', idempotencyKeySchema);
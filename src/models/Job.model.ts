@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface IJob extends Document {
+  tenantId: string;
+  type: string;
+  status: JobStatus;
+  payload: Record<string, any>;
+  result?: Record<string, any>;
+  error?: string;
+  errorCode?: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  requestId?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const jobSchema = new Schema<IJob>({
+  type: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'succeeded', 'failed'],
+    default: 'queued'
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  result: {
+    type: Schema.Types.Mixed
+  },
+  error: {
+    type: String
+  },
+  errorCode: {
+    type: String
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  maxAttempts: {
+    type: Number,
+    default: 3
+  },
+  runAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  // Correlation id of the request that queued the job, carried into its logs
+  requestId: {
+    type: String
+  },
+  startedAt: {
+    type: Date
+  },
+  finishedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+// Index for claiming the next runnable job (queued, or running with an expired lease)
+jobSchema.index({ status: 1, runAt: 1 });
+jobSchema.index({ status: 1, lockedUntil: 1 });
+
+jobSchema.plugin(tenantScopePlugin);
+
+export const Job = mongoose.model<IJob>('Job', jobSchema);
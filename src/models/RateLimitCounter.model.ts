@@ -0,0 +1,29 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Hit counter for one client in the current fixed rate limit window
+export interface IRateLimitCounter extends Document {
+  key: string; // Limiter prefix + client key
+  hits: number;
+  resetAt: Date;
+}
+
+const rateLimitCounterSchema = new Schema<IRateLimitCounter>({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  hits: {
+    type: Number,
+    required: true
+  },
+  resetAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Expired windows are removed by MongoDB; the store also ignores them until then
+rateLimitCounterSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitCounter = mongoose.model<IRateLimitCounter>('RateLimitCounter', rateLimitCounterSchema);
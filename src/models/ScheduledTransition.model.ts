@@ -0,0 +1,90 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type ScheduledTransitionStatus = 'pending' | 'processing' | 'completed' | 'skipped' | 'cancelled' | 'failed';
+
+export interface IScheduledTransition extends Document {
+  transcriptionId: Types.ObjectId;
+  fromStatus: string;
+  toStatus: string;
+  comment?: string;
+  dueAt: Date;
+  status: ScheduledTransitionStatus;
+  attempts: number;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  requestId?: string;
+  error?: string;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const scheduledTransitionSchema = new Schema<IScheduledTransition>({
+  transcriptionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Transcription',
+    required: true
+  },
+  fromStatus: {
+    type: String,
+    required: true
+  },
+  toStatus: {
+    type: String,
+    required: true
+  },
+  comment: {
+    type: String
+  },
+  dueAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'skipped', 'cancelled', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lockedBy: {
+    type: String
+  },
+  lockedUntil: {
+    type: Date
+  },
+  // Correlation id of the request whose workflow scheduled this transition
+  requestId: {
+    type: String
+  },
+  error: {
+    type: String
+  },
+  completedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+// Index for the poller: due pending transitions and processing ones with an expired lease
+scheduledTransitionSchema.index({ status: 1, dueAt: 1 });
+scheduledTransitionSchema.index({ status: 1, lockedUntil: 1 });
+
+// Listing a workflow's schedule
+scheduledTransitionSchema.index({ transcriptionId: 1, createdAt: -1 });
+
+// At most one pending transition per workflow state, so replicas cannot schedule it twice
+scheduledTransitionSchema.index(
+  { transcriptionId: 1, fromStatus: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+export const ScheduledTransition = mongoose.model<IScheduledTransition>('ScheduledTransition', scheduledTransitionSchema);
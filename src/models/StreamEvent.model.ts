@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+
+// Published domain event, kept briefly so every instance can push it to its event streams
+export interface IStreamEvent extends Document {
+  tenantId: string;
+  eventId: string;
+  type: string;
+  occurredAt: Date;
+  data: Record<string, any>;
+  expiresAt: Date;
+}
+
+const streamEventSchema = new Schema<IStreamEvent>({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  occurredAt: {
+    type: Date,
+    required: true
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Events since the last poll, oldest first
+streamEventSchema.index({ occurredAt: 1 });
+
+// Streams only look back a few seconds; MongoDB removes older events
+streamEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+streamEventSchema.plugin(tenantScopePlugin);
+
+export const StreamEvent = mongoose.model<IStreamEvent>('StreamEvent', streamEventSchema);
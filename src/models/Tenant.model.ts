@@ -0,0 +1,31 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Tenants exist implicitly through their API keys; a record is only needed to assign a plan
+export interface ITenant extends Document {
+  tenantId: string;
+  plan: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const tenantSchema = new Schema<ITenant>({
+  tenantId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  plan: {
+    type: String,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+export const Tenant = mongoose.model<ITenant>('Tenant', tenantSchema);
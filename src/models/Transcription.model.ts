@@ -1,17 +1,45 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+import { speechProviders } from '../providers/provider.registry';
+import { StoredAudioMetadata } from '../services/audio-ingestion.service';
+import { TranscriptSegment } from '../providers/speech.provider';
+import { isHttpUrl, isLanguageCode } from '../utils/formats';
+
+export interface TranscriptionRevision {
+  transcription: string;
+  language?: string;
+  confidence?: number;
+  segments?: TranscriptSegment[];
+  editedAt: Date;
+  editedBy?: string;
+  comment?: string;
+}
 
 export interface ITranscription extends Document {
-  audioUrl: string;
+  tenantId: string;
+  audioUrl?: string;
+  uploadId?: string;
+  jobId?: string; // Queue job that created the transcription
   transcription: string;
-  source?: 'mock' | 'azure';
+  confidence?: number;
+  segments?: TranscriptSegment[];
+  source?: string;
   language?: string;
-  workflowStatus?: 'transcription' | 'review' | 'approval' | 'completed' | 'rejected';
+  audioMetadata?: StoredAudioMetadata;
+  workflowStatus?: string;
+  workflowVersion?: number; // Incremented by every transition; the workflow's ETag
+  workflowTemplate?: {
+    templateId: string;
+    version: number;
+  };
   workflowHistory?: Array<{
     status: string;
     timestamp: Date;
     comment?: string;
     reviewedBy?: string;
   }>;
+  revisions?: TranscriptionRevision[];
+  deletedAt?: Date | null;
   createdAt: Date;
   updatedAt?: Date;
 }
@@ -19,43 +47,147 @@ export interface ITranscription extends Document {
 const transcriptionSchema = new Schema<ITranscription>({
   audioUrl: {
     type: String,
-    required: true,
+    // Transcriptions of uploaded files have no URL
+    required: function(this: ITranscription) {
+      return !this.uploadId;
+    },
     trim: true,
     validate: {
-      validator: function(url: string) {
-        const urlRegex = /^(https?|ftp):\/\/[^\s/$.?#].[^\s]*$/i;
-        return urlRegex.test(url);
-      },
+      validator: isHttpUrl,
       message: 'Invalid URL format'
     }
   },
+  uploadId: {
+    type: String
+  },
+  jobId: {
+    type: String
+  },
   transcription: {
     type: String,
     required: true,
     trim: true
   },
+  confidence: {
+    type: Number,
+    min: 0,
+    max: 1
+  },
+  // Offsets are in seconds from the start of the audio
+  segments: [{
+    _id: false,
+    speaker: {
+      type: String,
+      required: true
+    },
+    start: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    end: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    text: {
+      type: String,
+      required: true
+    },
+    confidence: {
+      type: Number,
+      min: 0,
+      max: 1
+    },
+    words: [{
+      _id: false,
+      text: {
+        type: String,
+        required: true
+      },
+      start: {
+        type: Number,
+        required: true
+      },
+      end: {
+        type: Number,
+        required: true
+      },
+      confidence: {
+        type: Number,
+        min: 0,
+        max: 1
+      }
+    }]
+  }],
   source: {
     type: String,
-    enum: ['mock', 'azure'],
-    default: 'mock'
+    default: 'mock',
+    validate: {
+      // Any registered speech provider is a valid source
+      validator: function(source: string) {
+        return speechProviders.has(source);
+      },
+      message: (props: { value: string }) =>
+        `Unknown transcription source "${props.value}". Registered providers: ${speechProviders.getNames().join(', ')}`
+    }
   },
   language: {
     type: String,
     default: 'en-US',
     validate: {
-      validator: function(lang: string) {
-        // Support common language codes (e.g., en-US, fr-FR, es-ES, de-DE, it-IT, pt-BR, ja-JP, ko-KR, zh-CN)
-        const langRegex = /^[a-z]{2}-[A-Z]{2}$/;
-        return langRegex.test(lang);
-      },
+      // Same rule as request validation (field.language)
+      validator: isLanguageCode,
       message: 'Language must be in format xx-XX (e.g., en-US, fr-FR)'
     }
   },
+  audioMetadata: {
+    format: {
+      type: String,
+      enum: ['wav', 'mp3', 'flac', 'ogg']
+    },
+    codec: {
+      type: String
+    },
+    durationSeconds: {
+      type: Number,
+      min: 0
+    },
+    sampleRate: {
+      type: Number
+    },
+    channels: {
+      type: Number
+    },
+    bitrate: {
+      type: Number
+    },
+    sizeBytes: {
+      type: Number
+    },
+    contentType: {
+      type: String
+    }
+  },
+  // Valid states are defined by the workflow template the transcription is pinned to
   workflowStatus: {
     type: String,
-    enum: ['transcription', 'review', 'approval', 'completed', 'rejected'],
     default: 'transcription'
   },
+  // Transitions only apply to the version they were checked against (see WorkflowService.transitionWorkflow).
+  // Workflows created before versioning have no value and count as version 0.
+  workflowVersion: {
+    type: Number,
+    default: 0
+  },
+  workflowTemplate: {
+    templateId: {
+      type: String
+    },
+    version: {
+      type: Number
+    }
+  },
   workflowHistory: [{
     status: {
       type: String,
@@ -73,6 +205,38 @@ const transcriptionSchema = new Schema<ITranscription>({
       type: String
     }
   }],
+  // Previous versions of the text, oldest first, recorded on every edit
+  revisions: [{
+    _id: false,
+    transcription: {
+      type: String,
+      required: true
+    },
+    language: {
+      type: String
+    },
+    confidence: {
+      type: Number
+    },
+    segments: {
+      type: [Schema.Types.Mixed],
+      default: undefined
+    },
+    editedAt: {
+      type: Date,
+      required: true
+    },
+    editedBy: {
+      type: String
+    },
+    comment: {
+      type: String
+    }
+  }],
+  // Set when soft-deleted; deleted transcriptions are hidden from queries until restored
+  deletedAt: {
+    type: Date
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -89,4 +253,37 @@ transcriptionSchema.index({ createdAt: -1 });
 // Additional index for filtering by source and createdAt
 transcriptionSchema.index({ source: 1, createdAt: -1 });
 
+// Indexes for the language and workflow status filters on GET /transcriptions
+transcriptionSchema.index({ language: 1, createdAt: -1 });
+transcriptionSchema.index({ workflowStatus: 1, createdAt: -1 });
+
+// A job that runs again finds the transcription its first run saved
+transcriptionSchema.index({ jobId: 1 }, { unique: true, partialFilterExpression: { jobId: { $type: 'string' } } });
+
+// Keyset pagination of workflow listings (updatedAt + _id)
+transcriptionSchema.index({ workflowStatus: 1, updatedAt: -1, _id: -1 });
+
+// Full-text search over the transcription text. Our `language` field holds locale codes
+// (en-US) that MongoDB would otherwise read as the per-document stemming language and reject,
+// so point the override at an unused field and index without stemming for every language.
+transcriptionSchema.index(
+  { transcription: 'text' },
+  { default_language: 'none', language_override: 'textSearchLanguage' }
+);
+
+// Hide soft-deleted transcriptions unless the query filters on deletedAt itself
+transcriptionSchema.pre(['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'updateOne', 'updateMany'], function() {
+  if (!Object.prototype.hasOwnProperty.call(this.getFilter(), 'deletedAt')) {
+    this.where({ deletedAt: null });
+  }
+});
+
+transcriptionSchema.pre('aggregate', function() {
+  this.pipeline().unshift({ $match: { deletedAt: null } });
+});
+
+// Every transcription belongs to a tenant; queries only see the caller's tenant
+transcriptionSchema.plugin(tenantScopePlugin);
+transcriptionSchema.index({ tenantId: 1, createdAt: -1 });
+
 export const Transcription = mongoose.model<ITranscription>('Transcription', transcriptionSchema);
@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+import { StoredAudioMetadata } from '../services/audio-ingestion.service';
+
+export type UploadStatus = 'pending' | 'completed';
+
+export interface IUpload extends Document {
+  tenantId: string;
+  filename: string;
+  contentType?: string;
+  status: UploadStatus;
+  sizeBytes: number; // Declared total size; known up front for resumable uploads
+  receivedBytes: number;
+  storage: string;
+  storageKey: string;
+  audioMetadata?: StoredAudioMetadata;
+  lockedUntil?: Date; // Set while a chunk is being appended
+  createdAt: Date;
+  completedAt?: Date;
+  updatedAt?: Date;
+}
+
+const uploadSchema = new Schema<IUpload>({
+  filename: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  contentType: {
+    type: String
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'completed'],
+    default: 'pending'
+  },
+  sizeBytes: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  receivedBytes: {
+    type: Number,
+    default: 0
+  },
+  storage: {
+    type: String,
+    required: true
+  },
+  storageKey: {
+    type: String,
+    required: true
+  },
+  audioMetadata: {
+    format: {
+      type: String,
+      enum: ['wav', 'mp3', 'flac', 'ogg']
+    },
+    codec: {
+      type: String
+    },
+    durationSeconds: {
+      type: Number,
+      min: 0
+    },
+    sampleRate: {
+      type: Number
+    },
+    channels: {
+      type: Number
+    },
+    bitrate: {
+      type: Number
+    },
+    sizeBytes: {
+      type: Number
+    },
+    contentType: {
+      type: String
+    }
+  },
+  lockedUntil: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: {
+    type: Date
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+// Index for finding abandoned resumable uploads
+uploadSchema.index({ status: 1, createdAt: 1 });
+
+uploadSchema.plugin(tenantScopePlugin);
+
+export const Upload = mongoose.model<IUpload>('Upload', uploadSchema);
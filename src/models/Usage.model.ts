@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Metered consumption of one tenant in one calendar month (UTC)
+export interface IUsage extends Document {
+  tenantId: string;
+  period: string; // YYYY-MM
+  audioSeconds: number;
+  transcriptions: number;
+  updatedAt?: Date;
+}
+
+const usageSchema = new Schema<IUsage>({
+  tenantId: {
+    type: String,
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  audioSeconds: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  transcriptions: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+usageSchema.index({ tenantId: 1, period: 1 }, { unique: true });
+
+export const Usage = mongoose.model<IUsage>('Usage', usageSchema);
@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  statusCode?: number;
+  error?: string;
+  responseBody?: string; // First 1 KB of the response
+  durationMs: number;
+}
+
+export interface IWebhookDelivery extends Document {
+  tenantId: string;
+  subscription: Types.ObjectId;
+  eventId: string;
+  eventType: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  maxAttempts: number;
+  nextAttemptAt?: Date;
+  replayOf?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>({
+  subscription: {
+    type: Schema.Types.ObjectId,
+    ref: 'WebhookSubscription',
+    required: true
+  },
+  eventId: {
+    type: String,
+    required: true
+  },
+  eventType: {
+    type: String,
+    required: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'succeeded', 'failed'],
+    default: 'pending'
+  },
+  attempts: [{
+    _id: false,
+    attemptedAt: {
+      type: Date,
+      required: true
+    },
+    statusCode: {
+      type: Number
+    },
+    error: {
+      type: String
+    },
+    responseBody: {
+      type: String
+    },
+    durationMs: {
+      type: Number,
+      required: true
+    }
+  }],
+  maxAttempts: {
+    type: Number,
+    required: true
+  },
+  nextAttemptAt: {
+    type: Date
+  },
+  replayOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'WebhookDelivery'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+webhookDeliverySchema.plugin(tenantScopePlugin);
+
+// Delivery log of a subscription, newest first
+webhookDeliverySchema.index({ subscription: 1, createdAt: -1 });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+import { DOMAIN_EVENT_TYPES } from '../events/event-bus';
+
+export interface IWebhookSubscription extends Document {
+  tenantId: string;
+  url: string;
+  secret: string; // HMAC key for signing payloads; only returned when the subscription is created
+  events: string[];
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const webhookSubscriptionSchema = new Schema<IWebhookSubscription>({
+  url: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  secret: {
+    type: String,
+    required: true
+  },
+  events: {
+    type: [{
+      type: String,
+      enum: DOMAIN_EVENT_TYPES
+    }],
+    validate: {
+      validator: (events: string[]) => events.length > 0,
+      message: 'At least one event type is required'
+    }
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+webhookSubscriptionSchema.plugin(tenantScopePlugin);
+
+// Matching subscriptions for an event
+webhookSubscriptionSchema.index({ tenantId: 1, active: 1, events: 1 });
+
+export const WebhookSubscription = mongoose.model<IWebhookSubscription>('WebhookSubscription', webhookSubscriptionSchema);
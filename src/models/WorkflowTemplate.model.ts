@@ -0,0 +1,140 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { tenantScopePlugin } from './plugins/tenant-scope.plugin';
+import { Role, ROLES } from '../utils/roles';
+
+export interface WorkflowStateDefinition {
+  name: string;
+  terminal?: boolean;
+  autoProgress?: {
+    to: string;
+    afterMs: number;
+    comment?: string;
+  };
+}
+
+export interface WorkflowTransitionDefinition {
+  from: string;
+  to: string;
+  roles?: Role[]; // Roles allowed to perform the transition; any role when empty (admin always may)
+  fourEyes?: boolean; // Must be performed by someone other than whoever moved the workflow since its initial state
+}
+
+export interface IWorkflowTemplate extends Document {
+  tenantId: string;
+  templateId: string;
+  version: number;
+  name: string;
+  description?: string;
+  initialState: string;
+  states: WorkflowStateDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+  startRoles?: Role[]; // Roles that may start workflows from the template; only admins when empty
+  isLatest: boolean;
+  archived: boolean;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+const workflowTemplateSchema = new Schema<IWorkflowTemplate>({
+  templateId: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  initialState: {
+    type: String,
+    required: true
+  },
+  states: [{
+    _id: false,
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    terminal: {
+      type: Boolean,
+      default: false
+    },
+    autoProgress: {
+      to: {
+        type: String
+      },
+      afterMs: {
+        type: Number,
+        min: 0
+      },
+      comment: {
+        type: String
+      }
+    }
+  }],
+  transitions: [{
+    _id: false,
+    from: {
+      type: String,
+      required: true
+    },
+    to: {
+      type: String,
+      required: true
+    },
+    roles: [{
+      type: String,
+      enum: ROLES
+    }],
+    fourEyes: {
+      type: Boolean
+    }
+  }],
+  startRoles: [{
+    type: String,
+    enum: ROLES
+  }],
+  isLatest: {
+    type: Boolean,
+    default: true
+  },
+  archived: {
+    type: Boolean,
+    default: false
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  updatedAt: {
+    type: Date
+  }
+});
+
+// Every version of a template is kept so workflows stay pinned to the version they started with
+workflowTemplateSchema.index({ tenantId: 1, templateId: 1, version: 1 }, { unique: true });
+
+// Listing the current version of each template
+workflowTemplateSchema.index({ tenantId: 1, isLatest: 1, archived: 1 });
+
+// At most one version of a template is the latest
+workflowTemplateSchema.index(
+  { tenantId: 1, templateId: 1 },
+  { unique: true, partialFilterExpression: { isLatest: true } }
+);
+
+// Templates belong to the tenant that created them; only the built-in default is shared
+workflowTemplateSchema.plugin(tenantScopePlugin);
+
+export const WorkflowTemplate = mongoose.model<IWorkflowTemplate>('WorkflowTemplate', workflowTemplateSchema);
@@ -0,0 +1,53 @@
+import { Schema } from 'mongoose';
+import { getCurrentTenantId, DEFAULT_TENANT_ID } from '../../utils/tenant-context';
+
+const SCOPED_QUERIES = [
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'countDocuments',
+  'distinct',
+  'updateOne',
+  'updateMany',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany'
+] as const;
+
+/**
+ * Documents stored before tenants existed have no tenantId and belong to the default tenant
+ */
+const tenantFilter = (tenantId: string): unknown =>
+  tenantId === DEFAULT_TENANT_ID ? { $in: [DEFAULT_TENANT_ID, null] } : tenantId;
+
+/**
+ * Adds a `tenantId` to every document and scopes all queries and aggregations to the
+ * tenant of the current request (see utils/tenant-context). Code running outside a
+ * tenant context, like the job and scheduler pollers, sees every tenant.
+ */
+export const tenantScopePlugin = (schema: Schema): void => {
+  schema.add({
+    tenantId: {
+      type: String,
+      required: true,
+      index: true,
+      default: () => getCurrentTenantId() || DEFAULT_TENANT_ID
+    }
+  });
+
+  schema.pre([...SCOPED_QUERIES], function() {
+    const tenantId = getCurrentTenantId();
+    if (tenantId) {
+      this.where({ tenantId: tenantFilter(tenantId) });
+    }
+  });
+
+  schema.pre('aggregate', function() {
+    const tenantId = getCurrentTenantId();
+    if (tenantId) {
+      this.pipeline().unshift({ $match: { tenantId: tenantFilter(tenantId) } });
+    }
+  });
+};
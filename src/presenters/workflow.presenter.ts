@@ -0,0 +1,51 @@
+import { ApiVersion } from '../middleware/api-version';
+import { WorkflowStatusResponse } from '../services/workflow.service';
+import { TranscriptSegment } from '../providers/speech.provider';
+
+/**
+ * v2 workflow status: the transcript is grouped, and the state fields use the names of
+ * the INVALID_TRANSITION problem (`status`, `allowedTransitions`)
+ */
+export interface WorkflowStatusResponseV2 {
+  id: string;
+  template: {
+    templateId: string;
+    version: number;
+  };
+  status: string;
+  version: number;
+  allowedTransitions: string[];
+  transcript: {
+    text: string;
+    confidence?: number;
+    segments: TranscriptSegment[];
+  };
+  history: Array<{
+    status: string;
+    at: Date;
+    comment?: string;
+    reviewedBy?: string;
+  }>;
+}
+
+const toV2 = (workflow: WorkflowStatusResponse): WorkflowStatusResponseV2 => ({
+  id: workflow.id,
+  template: workflow.template,
+  status: workflow.currentStatus,
+  version: workflow.version,
+  allowedTransitions: workflow.canTransition,
+  transcript: {
+    text: workflow.transcription,
+    confidence: workflow.confidence,
+    segments: workflow.segments
+  },
+  history: workflow.workflowHistory.map(({ status, timestamp, comment, reviewedBy }) => ({ status, at: timestamp, comment, reviewedBy }))
+});
+
+/**
+ * Workflow status in the response shape of `version` (v1 is the service's own shape)
+ */
+export const presentWorkflowStatus = (
+  workflow: WorkflowStatusResponse,
+  version: ApiVersion | undefined
+): WorkflowStatusResponse | WorkflowStatusResponseV2 => version === 2 ? toV2(workflow) : workflow;
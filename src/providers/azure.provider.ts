@@ -0,0 +1,285 @@
+import { config } from '../config/env';
+import {
+  SpeechProvider,
+  SpeechRecognitionRequest,
+  SpeechRecognitionResult,
+  ProviderHealth,
+  TranscriptSegment
+} from './speech.provider';
+import { buildTimedTranscript, summarizeConfidence } from '../utils/transcript-timing';
+import { calculateBackoffDelay } from '../utils/retry';
+import { azureRetriesTotal } from '../metrics/metrics';
+import { logger } from '../utils/logger';
+import { ProviderUnavailableError } from '../errors/app-errors';
+
+export interface RetryConfig {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+/**
+ * Recognized phrase as returned by Azure batch transcription (offsets in 100ns ticks)
+ */
+interface AzureRecognizedPhrase {
+  speaker: number;
+  offsetInTicks: number;
+  durationInTicks: number;
+  nBest: Array<{
+    confidence: number;
+    display: string;
+    words: Array<{
+      word: string;
+      offsetInTicks: number;
+      durationInTicks: number;
+      confidence: number;
+    }>;
+  }>;
+}
+
+const TICKS_PER_SECOND = 10_000_000;
+
+/**
+ * Azure Speech Service provider (mocked) with retry and language support
+ */
+export class AzureSpeechProvider implements SpeechProvider {
+  public readonly name = 'azure';
+
+  private retryConfig: RetryConfig = {
+    maxAttempts: 3,
+    baseDelay: 1000, // 1 second
+    maxDelay: 8000   // 8 seconds
+  };
+
+  /**
+   * Generate language-specific mock transcriptions
+   */
+  private getLanguageSpecificTranscriptions(language: string): string[] {
+    const transcriptions: Record<string, string[]> = {
+      'en-US': [
+        "This audio has been transcribed using Azure Speech Services.",
+        "Azure Cognitive Services successfully processed this audio content.",
+        "Voice recognition completed using Microsoft Azure Speech-to-Text API.",
+        "Azure Speech Service has converted this audio to text with high accuracy.",
+        "Microsoft Azure identified the speakers in this recording."
+      ],
+      'fr-FR': [
+        "Cet audio a été transcrit en utilisant les services de reconnaissance vocale Azure.",
+        "Azure Cognitive Services a traité avec succès ce contenu audio.",
+        "La reconnaissance vocale a été complétée en utilisant l'API Speech-to-Text de Microsoft Azure.",
+        "Le service Azure Speech a converti cet audio en texte avec une grande précision.",
+        "Microsoft Azure a identifié les locuteurs de cet enregistrement."
+      ],
+      'es-ES': [
+        "Este audio ha sido transcrito usando los servicios de voz de Azure.",
+        "Azure Cognitive Services procesó exitosamente este contenido de audio.",
+        "El reconocimiento de voz se completó usando la API Speech-to-Text de Microsoft Azure.",
+        "El servicio Azure Speech ha convertido este audio a texto con alta precisión.",
+        "Microsoft Azure identificó a los hablantes de esta grabación."
+      ],
+      'de-DE': [
+        "Diese Audio wurde mit Azure Speech Services transkribiert.",
+        "Azure Cognitive Services hat diesen Audioinhalt erfolgreich verarbeitet.",
+        "Die Spracherkennung wurde mit der Microsoft Azure Speech-to-Text API abgeschlossen.",
+        "Der Azure Speech Service hat dieses Audio mit hoher Genauigkeit in Text umgewandelt.",
+        "Microsoft Azure hat die Sprecher in dieser Aufnahme erkannt."
+      ],
+      'it-IT': [
+        "Questo audio è stato trascritto utilizzando i servizi di riconoscimento vocale di Azure.",
+        "Azure Cognitive Services ha elaborato con successo questo contenuto audio.",
+        "Il riconoscimento vocale è stato completato utilizzando l'API Speech-to-Text di Microsoft Azure.",
+        "Il servizio Azure Speech ha convertito questo audio in testo con alta precisione.",
+        "Microsoft Azure ha identificato i parlanti in questa registrazione."
+      ],
+      'pt-BR': [
+        "Este áudio foi transcrito usando os serviços de fala do Azure.",
+        "Os Serviços Cognitivos do Azure processaram com sucesso este conteúdo de áudio.",
+        "O reconhecimento de voz foi concluído usando a API Speech-to-Text do Microsoft Azure.",
+        "O serviço Azure Speech converteu este áudio em texto com alta precisão.",
+        "A Microsoft Azure identificou os locutores desta gravação."
+      ],
+      'ja-JP': [
+        "このオーディオはAzure音声サービスを使用して転写されました。",
+        "Azure Cognitive Servicesがこのオーディオコンテンツを正常に処理しました。",
+        "Microsoft Azure Speech-to-Text APIを使用して音声認識が完了しました。",
+        "Azure音声サービスがこのオーディオを高精度でテキストに変換しました。",
+        "Microsoft Azureがこの録音の話者を識別しました。"
+      ],
+      'ko-KR': [
+        "이 오디오는 Azure 음성 서비스를 사용하여 전사되었습니다.",
+        "Azure Cognitive Services가 이 오디오 콘텐츠를 성공적으로 처리했습니다.",
+        "Microsoft Azure Speech-to-Text API를 사용하여 음성 인식이 완료되었습니다.",
+        "Azure Speech Service가 이 오디오를 높은 정확도로 텍스트로 변환했습니다.",
+        "Microsoft Azure가 이 녹음의 화자를 식별했습니다."
+      ],
+      'zh-CN': [
+        "此音频已使用Azure语音服务进行转录。",
+        "Azure认知服务已成功处理此音频内容。",
+        "使用Microsoft Azure语音转文本API完成了语音识别。",
+        "Azure语音服务已高精度地将此音频转换为文本。",
+        "Microsoft Azure已识别此录音中的说话人。"
+      ]
+    };
+    
+    return transcriptions[language] || transcriptions['en-US'];
+  }
+
+  /**
+   * Mock Azure Speech Service call with retry logic and language support
+   */
+  private async callAzureSpeechService(
+    audioSource: string,
+    language: string = 'en-US',
+    durationSeconds: number = 0,
+    attempt: number = 1
+  ): Promise<AzureRecognizedPhrase[]> {
+    logger.debug('Azure Speech API call', { attempt, audioSource, language });
+    
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 800));
+    
+    // Simulate Azure API failures (30% chance for demonstration)
+    const failureRate = 0.3;
+    if (Math.random() < failureRate) {
+      throw new Error(`Azure Speech API error: Service temporarily unavailable (attempt ${attempt})`);
+    }
+    
+    // Get language-specific transcriptions
+    const languageTranscriptions = this.getLanguageSpecificTranscriptions(language);
+    const transcription = languageTranscriptions[Math.floor(Math.random() * languageTranscriptions.length)];
+    
+    // Shape the mock response like Azure's detailed output with speaker diarization
+    const { segments } = buildTimedTranscript(transcription, { durationSeconds, speakers: 2, minConfidence: 0.85 });
+    const toTicks = (seconds: number) => Math.round(seconds * TICKS_PER_SECOND);
+    
+    logger.debug('Azure Speech API response received', { language });
+    return segments.map((segment, index) => ({
+      speaker: (index % 2) + 1,
+      offsetInTicks: toTicks(segment.start),
+      durationInTicks: toTicks(segment.end - segment.start),
+      nBest: [{
+        confidence: segment.confidence,
+        display: segment.text,
+        words: segment.words.map(word => ({
+          word: word.text,
+          offsetInTicks: toTicks(word.start),
+          durationInTicks: toTicks(word.end - word.start),
+          confidence: word.confidence
+        }))
+      }]
+    }));
+  }
+
+  /**
+   * Convert Azure recognized phrases (best alternative of each) to transcript segments
+   */
+  private toSegments(phrases: AzureRecognizedPhrase[]): TranscriptSegment[] {
+    const toSeconds = (ticks: number) => Math.round((ticks / TICKS_PER_SECOND) * 1000) / 1000;
+
+    return phrases
+      .filter(phrase => phrase.nBest.length > 0)
+      .map(phrase => {
+        const best = phrase.nBest[0];
+
+        return {
+          speaker: `Speaker ${phrase.speaker}`,
+          start: toSeconds(phrase.offsetInTicks),
+          end: toSeconds(phrase.offsetInTicks + phrase.durationInTicks),
+          text: best.display,
+          confidence: best.confidence,
+          words: best.words.map(word => ({
+            text: word.word,
+            start: toSeconds(word.offsetInTicks),
+            end: toSeconds(word.offsetInTicks + word.durationInTicks),
+            confidence: word.confidence
+          }))
+        };
+      });
+  }
+
+  /**
+   * Retry mechanism with exponential backoff
+   */
+  private async withRetry<T>(
+    operation: () => Promise<T>,
+    context: string
+  ): Promise<T> {
+    let lastError: Error | undefined;
+    
+    for (let attempt = 1; attempt <= this.retryConfig.maxAttempts; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        logger.warn(`${context} failed`, { attempt, error: lastError.message });
+        
+        if (attempt === this.retryConfig.maxAttempts) {
+          break;
+        }
+        
+        const delay = calculateBackoffDelay(attempt, this.retryConfig.baseDelay, this.retryConfig.maxDelay);
+        logger.info(`Retrying ${context}`, { attempt, delayMs: delay });
+        azureRetriesTotal.inc();
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+    
+    throw new ProviderUnavailableError(this.name, lastError ? lastError.message : 'no attempts made');
+  }
+
+  /**
+   * Validate Azure configuration
+   */
+  private validateAzureConfig(): void {
+    if (!config.AZURE_SPEECH_KEY || config.AZURE_SPEECH_KEY === 'mock-azure-key') {
+      logger.warn('Using mock Azure configuration. Set AZURE_SPEECH_KEY for production.');
+    }
+    
+    if (!config.AZURE_REGION) {
+      throw new Error('AZURE_REGION is required for Azure Speech Service');
+    }
+  }
+
+  async transcribe(request: SpeechRecognitionRequest): Promise<SpeechRecognitionResult> {
+    // Validate Azure configuration
+    this.validateAzureConfig();
+    
+    // Call Azure Speech Service with retry logic and language support
+    const phrases = await this.withRetry(
+      () => this.callAzureSpeechService(
+        request.audioUrl || `upload ${request.uploadId}`,
+        request.language,
+        request.audioMetadata.durationSeconds
+      ),
+      'Azure Speech Service call'
+    );
+    
+    const segments = this.toSegments(phrases);
+    const text = segments.map(segment => segment.text).join(' ');
+    
+    logger.info('Azure transcription completed', { language: request.language, characters: text.length });
+    return { text, language: request.language, confidence: summarizeConfidence(segments), segments };
+  }
+
+  /**
+   * Get Azure service health status
+   */
+  async getHealth(): Promise<ProviderHealth> {
+    try {
+      // Mock health check
+      await new Promise(resolve => setTimeout(resolve, 200));
+      
+      return {
+        status: Math.random() > 0.1 ? 'healthy' : 'degraded',
+        timestamp: new Date(),
+        details: { region: config.AZURE_REGION }
+      };
+    } catch (error) {
+      return {
+        status: 'unhealthy',
+        timestamp: new Date(),
+        details: { region: config.AZURE_REGION }
+      };
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { config } from '../config/env';
+import { SpeechProvider } from './speech.provider';
+import { MockSpeechProvider } from './mock.provider';
+import { AzureSpeechProvider } from './azure.provider';
+import { logger } from '../utils/logger';
+
+export class SpeechProviderRegistry {
+  private static instance: SpeechProviderRegistry;
+  private providers = new Map<string, SpeechProvider>();
+
+  private constructor() {}
+
+  public static getInstance(): SpeechProviderRegistry {
+    if (!SpeechProviderRegistry.instance) {
+      SpeechProviderRegistry.instance = new SpeechProviderRegistry();
+    }
+    return SpeechProviderRegistry.instance;
+  }
+
+  /**
+   * Register a provider under its name (replaces any provider with the same name)
+   */
+  public register(provider: SpeechProvider): void {
+    this.providers.set(provider.name, provider);
+    logger.debug('Speech provider registered', { provider: provider.name });
+  }
+
+  public has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  public get(name: string): SpeechProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider) {
+      throw new Error(`Unknown speech provider: ${name}. Available providers: ${this.getNames().join(', ')}`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Resolve a provider by name, falling back to the configured default
+   */
+  public resolve(name?: string): SpeechProvider {
+    return this.get(name || config.DEFAULT_SPEECH_PROVIDER);
+  }
+
+  public getNames(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+export const speechProviders = SpeechProviderRegistry.getInstance();
+
+// Built-in providers
+speechProviders.register(new MockSpeechProvider());
+speechProviders.register(new AzureSpeechProvider());
@@ -0,0 +1,52 @@
+import { AudioMetadata } from '../utils/audio-probe';
+import { AudioSource } from '../services/audio-ingestion.service';
+
+export interface SpeechRecognitionRequest extends AudioSource {
+  language: string;
+  audioFilePath: string; // Local copy of the audio, removed once transcription finishes
+  audioMetadata: AudioMetadata;
+}
+
+export interface TranscriptWord {
+  text: string;
+  start: number; // Seconds from the start of the audio
+  end: number;
+  confidence: number; // 0-1
+}
+
+export interface TranscriptSegment {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+  confidence: number;
+  words: TranscriptWord[];
+}
+
+export interface SpeechRecognitionResult {
+  text: string;
+  language: string;
+  confidence: number; // Overall confidence, weighted by word count
+  segments: TranscriptSegment[];
+}
+
+export interface ProviderHealth {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  timestamp: Date;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Common contract for speech-to-text engines.
+ *
+ * Providers are registered by name in the provider registry and selected
+ * per request or through DEFAULT_SPEECH_PROVIDER. The name is persisted as
+ * the `source` of every transcription the provider produces.
+ */
+export interface SpeechProvider {
+  readonly name: string;
+
+  transcribe(request: SpeechRecognitionRequest): Promise<SpeechRecognitionResult>;
+
+  getHealth(): Promise<ProviderHealth>;
+}
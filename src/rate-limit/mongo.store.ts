@@ -0,0 +1,70 @@
+import type { Store, Options, ClientRateLimitInfo } from 'express-rate-limit';
+import { RateLimitCounter } from '../models/RateLimitCounter.model';
+
+const DUPLICATE_KEY = 11000;
+
+/**
+ * Fixed-window hit counters in MongoDB, shared by every API instance.
+ * Each increment is a single atomic update that starts a new window once
+ * the previous one has expired.
+ */
+export class MongoRateLimitStore implements Store {
+  readonly localKeys = false;
+  readonly prefix: string;
+  private windowMs = 60 * 1000;
+
+  constructor(prefix: string) {
+    this.prefix = `${prefix}:`;
+  }
+
+  init(options: Pick<Options, 'windowMs'>): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const counter = await RateLimitCounter.findOne({ key: this.prefix + key, resetAt: { $gt: new Date() } }).lean();
+    return counter ? { totalHits: counter.hits, resetTime: counter.resetAt } : undefined;
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const now = new Date();
+    const inWindow = { $gt: ['$resetAt', now] };
+
+    // Two instances can race to create the same counter; the loser retries as an update
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const counter = await RateLimitCounter.collection.findOneAndUpdate(
+          { key: this.prefix + key },
+          [{
+            $set: {
+              hits: { $cond: [inWindow, { $add: ['$hits', 1] }, 1] },
+              resetAt: { $cond: [inWindow, '$resetAt', new Date(now.getTime() + this.windowMs)] }
+            }
+          }],
+          { upsert: true, returnDocument: 'after' }
+        );
+
+        return { totalHits: counter!.hits, resetTime: counter!.resetAt };
+      } catch (error) {
+        if ((error as { code?: number }).code !== DUPLICATE_KEY || attempt > 0) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    await RateLimitCounter.updateOne(
+      { key: this.prefix + key, resetAt: { $gt: new Date() }, hits: { $gt: 0 } },
+      { $inc: { hits: -1 } }
+    );
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await RateLimitCounter.deleteOne({ key: this.prefix + key });
+  }
+
+  async resetAll(): Promise<void> {
+    await RateLimitCounter.deleteMany({ key: { $regex: `^${this.prefix}` } });
+  }
+}
@@ -0,0 +1,65 @@
+import { MemoryStore, Store } from 'express-rate-limit';
+import { config } from '../config/env';
+import { MongoRateLimitStore } from './mongo.store';
+import { logger } from '../utils/logger';
+
+/**
+ * Creates the store for one limiter. Every limiter needs its own store
+ * instance; `prefix` keeps their keys apart in a shared backend.
+ */
+export type RateLimitStoreFactory = (prefix: string) => Store;
+
+/**
+ * Rate limit counter backends, selected through RATE_LIMIT_STORE.
+ * Any express-rate-limit store can be plugged in, e.g. Redis:
+ *
+ *   rateLimitStores.register('redis', prefix => new RedisStore({ prefix, sendCommand }));
+ */
+export class RateLimitStoreRegistry {
+  private static instance: RateLimitStoreRegistry;
+  private factories = new Map<string, RateLimitStoreFactory>();
+
+  private constructor() {}
+
+  public static getInstance(): RateLimitStoreRegistry {
+    if (!RateLimitStoreRegistry.instance) {
+      RateLimitStoreRegistry.instance = new RateLimitStoreRegistry();
+    }
+    return RateLimitStoreRegistry.instance;
+  }
+
+  /**
+   * Register a store factory under a name (replaces any factory with the same name)
+   */
+  public register(name: string, factory: RateLimitStoreFactory): void {
+    this.factories.set(name, factory);
+    logger.debug('Rate limit store registered', { store: name });
+  }
+
+  public has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * Create a store for a limiter with the configured (or given) backend
+   */
+  public create(prefix: string, name: string = config.RATE_LIMIT_STORE): Store {
+    const factory = this.factories.get(name);
+
+    if (!factory) {
+      throw new Error(`Unknown rate limit store: ${name}. Available stores: ${this.getNames().join(', ')}`);
+    }
+
+    return factory(prefix);
+  }
+
+  public getNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+}
+
+export const rateLimitStores = RateLimitStoreRegistry.getInstance();
+
+// Built-in stores
+rateLimitStores.register('memory', () => new MemoryStore());
+rateLimitStores.register('mongo', prefix => new MongoRateLimitStore(prefix));
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/api-key.controller';
+import { UsageController } from '../controllers/usage.controller';
+import { requireAdmin } from '../middleware/auth';
+import { validateRequest } from '../middleware/validate-request';
+import { apiDocs } from '../docs/route-docs';
+import {
+  createApiKeySchema,
+  listApiKeysSchema,
+  apiKeyIdSchema,
+  rotateApiKeySchema,
+  setTenantPlanSchema,
+  tenantIdSchema
+} from '../schemas/admin.schemas';
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+const usageController = new UsageController();
+const doc = apiDocs('Admin', { security: ['adminToken'] });
+
+/**
+ * Admin Routes (require X-Admin-Token)
+ */
+
+router.use('/admin', requireAdmin);
+
+router.post('/admin/api-keys', doc('Create an API key for a tenant', { responses: { 201: 'Created; the key is only returned once' } }), validateRequest(createApiKeySchema), apiKeyController.createKey);
+
+router.get('/admin/api-keys', doc('List API keys, optionally for one tenant'), validateRequest(listApiKeysSchema), apiKeyController.listKeys);
+
+router.delete('/admin/api-keys/:id', doc('Revoke an API key'), validateRequest(apiKeyIdSchema), apiKeyController.revokeKey);
+
+router.post('/admin/api-keys/:id/rotate', doc('Rotate an API key', { responses: { 201: 'Created the replacement key' } }), validateRequest(rotateApiKeySchema), apiKeyController.rotateKey);
+
+router.put('/admin/tenants/:tenantId/plan', doc('Assign a plan to a tenant'), validateRequest(setTenantPlanSchema), usageController.setTenantPlan);
+
+router.get('/admin/tenants/:tenantId/usage', doc("Get a tenant's monthly usage"), validateRequest(tenantIdSchema), usageController.getTenantUsage);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { TranscriptionRoutes } from './transcription.routes';
+import workflowRoutes from './workflow.routes';
+import jobRoutes from './job.routes';
+import workflowTemplateRoutes from './workflow-template.routes';
+import uploadRoutes from './upload.routes';
+import adminRoutes from './admin.routes';
+import usageRoutes from './usage.routes';
+import webhookRoutes from './webhook.routes';
+import eventRoutes from './event.routes';
+import { generalRateLimit } from '../middleware/rate-limiter';
+import { authenticate } from '../middleware/auth';
+import { replayIdempotent } from '../middleware/idempotency';
+import { ErrorHandler } from '../middleware/error.handler';
+import { listRoutes } from '../docs/route-docs';
+
+/**
+ * The versioned API: every route except health probes, metrics and docs. The same router
+ * serves /v1, /v2 and the deprecated unversioned paths; handlers read req.apiVersion
+ * where response shapes differ.
+ */
+export const createApiRouter = (): Router => {
+  const router = Router();
+
+  // Admin routes use their own token and are not tenant-scoped
+  // (rate limited per IP, as admin requests carry no tenant)
+  router.use('/admin', generalRateLimit);
+  router.use('/', adminRoutes);
+
+  // Everything below is authenticated and scoped to the caller's tenant
+  router.use(authenticate);
+
+  // Retries are answered from their stored response before any limit or quota counts them
+  router.use(replayIdempotent);
+
+  // General rate limiting, per tenant once the caller is known
+  router.use(generalRateLimit);
+
+  router.use('/', new TranscriptionRoutes().getRouter());
+  router.use('/', workflowRoutes);
+  router.use('/', jobRoutes);
+  router.use('/', workflowTemplateRoutes);
+  router.use('/', uploadRoutes);
+  router.use('/', usageRoutes);
+  router.use('/', webhookRoutes);
+  router.use('/', eventRoutes);
+
+  return router;
+};
+
+/**
+ * Answer paths outside the resources of `api` with 404 before they are authenticated,
+ * rate limited or announced as deprecated aliases
+ */
+export const onlyPathsOf = (api: Router) => {
+  const resources = new Set(listRoutes(api).map(route => route.path.split('/')[1]));
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (resources.has(req.path.split('/')[1])) {
+      next();
+    } else {
+      ErrorHandler.notFound(req, res, next);
+    }
+  };
+};
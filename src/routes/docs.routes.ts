@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { DocsController } from '../controllers/docs.controller';
+import { apiDocs } from '../docs/route-docs';
+
+const router = Router();
+const docsController = new DocsController();
+const doc = apiDocs('Docs', { security: [] });
+
+/**
+ * API Documentation Routes (unauthenticated)
+ */
+
+router.get('/openapi.json', doc('OpenAPI 3 document for this API'), docsController.getOpenApiDocument);
+
+router.get('/docs', doc('Interactive API documentation', { responses: { 200: 'HTML page' } }), docsController.getDocsPage);
+
+export default router;
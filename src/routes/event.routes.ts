@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { EventController } from '../controllers/event.controller';
+import { validateRequest } from '../middleware/validate-request';
+import { streamEventsSchema } from '../schemas/event.schemas';
+import { apiDocs } from '../docs/route-docs';
+
+const router = Router();
+const eventController = new EventController();
+const doc = apiDocs('Events');
+
+/**
+ * Event Stream Routes
+ */
+
+router.get('/events', doc('Stream transcription and workflow events as Server-Sent Events', {
+  responses: { 200: 'text/event-stream' }
+}), validateRequest(streamEventsSchema), eventController.streamEvents);
+
+export default router;
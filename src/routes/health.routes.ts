@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { HealthController } from '../controllers/health.controller';
+import { requireMetricsToken } from '../middleware/auth';
+import { apiDocs } from '../docs/route-docs';
+
+const router = Router();
+const healthController = new HealthController();
+const doc = apiDocs('Health', { security: [] });
+
+/**
+ * Health Routes (unauthenticated, for probes and monitoring; /status exposes
+ * deployment details and takes the METRICS_TOKEN when configured)
+ */
+
+// Used by the Docker HEALTHCHECK
+router.get('/health', doc('Liveness probe'), healthController.getHealth);
+
+router.get('/ready', doc('Readiness probe', {
+  responses: { 200: 'Ready', 503: 'MongoDB or the default speech provider is unavailable' }
+}), healthController.getReadiness);
+
+router.get('/status', doc('Detailed status with version, uptime and dependency latencies', {
+  responses: { 200: 'Ready', 503: 'Not ready' },
+  security: ['metricsToken']
+}), requireMetricsToken, healthController.getStatus);
+
+router.get('/health/azure', doc('Azure speech provider health'), healthController.getAzureHealth);
+
+export default router;
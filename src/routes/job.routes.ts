@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { JobController } from '../controllers/job.controller';
+import { validateRequest } from '../middleware/validate-request';
+import { jobIdSchema } from '../schemas/job.schemas';
+import { apiDocs } from '../docs/route-docs';
+
+const router = Router();
+const jobController = new JobController();
+const doc = apiDocs('Jobs');
+
+/**
+ * Job Routes
+ */
+
+router.get('/jobs/:id', doc('Get asynchronous job status by ID'), validateRequest(jobIdSchema), jobController.getJob);
+
+export default router;
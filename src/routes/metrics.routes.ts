@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { MetricsController } from '../controllers/metrics.controller';
+import { requireMetricsToken } from '../middleware/auth';
+import { apiDocs } from '../docs/route-docs';
+
+const router = Router();
+const metricsController = new MetricsController();
+const doc = apiDocs('Metrics', { security: ['metricsToken'] });
+
+/**
+ * Metrics Routes (bearer METRICS_TOKEN when configured)
+ */
+
+router.get('/metrics', doc('Prometheus scrape endpoint', { responses: { 200: 'Metrics in Prometheus text format' } }), requireMetricsToken, metricsController.getMetrics);
+
+export default router;
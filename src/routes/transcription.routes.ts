@@ -1,7 +1,22 @@
 import { Router } from 'express';
 import { TranscriptionController } from '../controllers/transcription.controller';
 import { ErrorHandler } from '../middleware/error.handler';
-import { transcriptionRateLimit, azureRateLimit } from '../middleware/rate-limiter';
+import { transcriptionRateLimit, azureRateLimit, audioQuota } from '../middleware/rate-limiter';
+import { validateRequest } from '../middleware/validate-request';
+import { idempotent } from '../middleware/idempotency';
+import {
+  createTranscriptionSchema,
+  createAzureTranscriptionSchema,
+  listTranscriptionsSchema,
+  bulkExportSchema,
+  exportTranscriptionSchema,
+  transcriptionIdSchema,
+  updateTranscriptionSchema
+} from '../schemas/transcription.schemas';
+import { apiDocs } from '../docs/route-docs';
+
+const doc = apiDocs('Transcriptions');
+const ACCEPTED = { 202: 'Job queued; poll `data.statusUrl` (also in `Location`)' };
 
 export class TranscriptionRoutes {
   private router: Router;
@@ -14,42 +29,79 @@ export class TranscriptionRoutes {
   }
 
   private initializeRoutes(): void {
-    /**
-     * @route   POST /transcription
-     * @desc    Create mock transcription
-     * @access  Public
-     * @body    { audioUrl: string }
-     * @returns { id: string, message: string }
-     */
     this.router.post(
       '/transcription',
+      doc('Queue a transcription job (default or selected provider)', { responses: ACCEPTED }),
       transcriptionRateLimit,
+      audioQuota,
+      validateRequest(createTranscriptionSchema),
+      idempotent,
       ErrorHandler.asyncHandler(this.transcriptionController.createTranscription)
     );
 
-    /**
-     * @route   POST /azure-transcription
-     * @desc    Create Azure transcription (mocked)
-     * @access  Public
-     * @body    { audioUrl: string }
-     * @returns { id: string, message: string }
-     */
     this.router.post(
       '/azure-transcription',
+      doc('Queue an Azure transcription job (mocked)', { responses: ACCEPTED }),
       azureRateLimit,
+      audioQuota,
+      validateRequest(createAzureTranscriptionSchema),
+      idempotent,
       ErrorHandler.asyncHandler(this.transcriptionController.createAzureTranscription)
     );
 
-    /**
-     * @route   GET /transcriptions
-     * @desc    Get recent transcriptions (last 30 days)
-     * @access  Public
-     * @query   page?: number, limit?: number
-     * @returns { success: boolean, data: ITranscription[], pagination: object }
-     */
     this.router.get(
       '/transcriptions',
-      ErrorHandler.asyncHandler(this.transcriptionController.getRecentTranscriptions)
+      doc('List transcriptions with filters, sorting and full-text search', {
+        description: 'Without `from`/`to` only the last 30 days are returned.'
+      }),
+      validateRequest(listTranscriptionsSchema),
+      ErrorHandler.asyncHandler(this.transcriptionController.getTranscriptions)
+    );
+
+    this.router.get(
+      '/transcriptions/export',
+      doc('Stream matching transcriptions as NDJSON or a zip archive', {
+        responses: { 200: 'NDJSON stream or application/zip attachment' }
+      }),
+      validateRequest(bulkExportSchema),
+      ErrorHandler.asyncHandler(this.transcriptionController.exportTranscriptions)
+    );
+
+    this.router.get(
+      '/transcriptions/:id/export',
+      doc('Download a transcription as a subtitle or document file', {
+        responses: { 200: 'File attachment with the matching content type' }
+      }),
+      validateRequest(exportTranscriptionSchema),
+      ErrorHandler.asyncHandler(this.transcriptionController.exportTranscription)
+    );
+
+    this.router.get(
+      '/transcriptions/:id',
+      doc('Get a single transcription with its revisions'),
+      validateRequest(transcriptionIdSchema),
+      ErrorHandler.asyncHandler(this.transcriptionController.getTranscription)
+    );
+
+    this.router.patch(
+      '/transcriptions/:id',
+      doc('Correct the text and/or language; the previous version is kept as a revision'),
+      validateRequest(updateTranscriptionSchema),
+      ErrorHandler.asyncHandler(this.transcriptionController.updateTranscription)
+    );
+
+    this.router.delete(
+      '/transcriptions/:id',
+      doc('Soft-delete a transcription and cancel its pending workflow progressions'),
+      validateRequest(transcriptionIdSchema),
+      ErrorHandler.asyncHandler(this.transcriptionController.deleteTranscription)
+    );
+
+    this.router.post(
+      '/transcriptions/:id/restore',
+      doc('Restore a soft-deleted transcription and resume its workflow'),
+      validateRequest(transcriptionIdSchema),
+      ErrorHandler.asyncHandler(this.transcriptionController.restoreTranscription)
     );
   }
 
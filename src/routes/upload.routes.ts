@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { UploadController } from '../controllers/upload.controller';
+import { audioUpload } from '../middleware/audio-upload';
+import { validateRequest } from '../middleware/validate-request';
+import { idempotent } from '../middleware/idempotency';
+import { apiDocs } from '../docs/route-docs';
+import { createResumableUploadSchema, uploadIdSchema } from '../schemas/upload.schemas';
+
+const router = Router();
+const uploadController = new UploadController();
+const doc = apiDocs('Uploads');
+
+/**
+ * Upload Routes
+ */
+
+router.post('/uploads', doc('Upload an audio file in one multipart request', {
+  requestBody: { contentType: 'multipart/form-data', description: 'The audio file in the `file` field' },
+  responses: { 201: 'Created' }
+}), audioUpload, uploadController.createUpload);
+
+router.post('/uploads/resumable', doc('Start a resumable upload', { responses: { 201: 'Created; `Location` is the upload URL' } }), validateRequest(createResumableUploadSchema), idempotent, uploadController.createResumableUpload);
+
+router.head('/uploads/:id', doc('Get the offset to resume a resumable upload from', { responses: { 200: 'Offset in `Upload-Offset`' } }), validateRequest(uploadIdSchema), uploadController.getUploadOffset);
+
+router.patch('/uploads/:id', doc('Append a chunk to a resumable upload', {
+  description: 'The `Upload-Offset` header must match the bytes received so far.',
+  requestBody: { contentType: 'application/offset+octet-stream', description: 'The next chunk of the file' },
+  responses: { 200: 'Chunk stored; new offset in `Upload-Offset`' }
+}), validateRequest(uploadIdSchema), uploadController.appendChunk);
+
+router.get('/uploads/:id', doc('Get upload details'), validateRequest(uploadIdSchema), uploadController.getUpload);
+
+router.delete('/uploads/:id', doc('Delete an upload'), validateRequest(uploadIdSchema), uploadController.deleteUpload);
+
+export default router;
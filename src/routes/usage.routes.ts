@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { UsageController } from '../controllers/usage.controller';
+import { apiDocs } from '../docs/route-docs';
+
+const router = Router();
+const usageController = new UsageController();
+const doc = apiDocs('Usage');
+
+/**
+ * Usage Routes
+ */
+
+router.get('/usage', doc("Get the caller's consumption against its plan's limits and quotas"), usageController.getUsage);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers/webhook.controller';
+import { validateRequest } from '../middleware/validate-request';
+import { apiDocs } from '../docs/route-docs';
+import { createWebhookSchema, webhookIdSchema, listDeliveriesSchema, replayDeliverySchema } from '../schemas/webhook.schemas';
+
+const router = Router();
+const webhookController = new WebhookController();
+const doc = apiDocs('Webhooks');
+
+/**
+ * Webhook Routes
+ */
+
+router.post('/webhooks', doc('Subscribe a URL to transcription and workflow events', { responses: { 201: 'Created' } }), validateRequest(createWebhookSchema), webhookController.createWebhook);
+
+router.get('/webhooks', doc('List webhook subscriptions'), webhookController.listWebhooks);
+
+router.get('/webhooks/:id', doc('Get a webhook subscription'), validateRequest(webhookIdSchema), webhookController.getWebhook);
+
+router.delete('/webhooks/:id', doc('Delete a webhook subscription'), validateRequest(webhookIdSchema), webhookController.deleteWebhook);
+
+router.get('/webhooks/:id/deliveries', doc('Delivery log of a webhook'), validateRequest(listDeliveriesSchema), webhookController.listDeliveries);
+
+router.post('/webhooks/:id/deliveries/:deliveryId/replay', doc('Send a logged event again', { responses: { 202: 'Queued for delivery' } }), validateRequest(replayDeliverySchema), webhookController.replayDelivery);
+
+export default router;
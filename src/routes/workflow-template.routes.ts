@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { WorkflowTemplateController } from '../controllers/workflow-template.controller';
+import { validateRequest } from '../middleware/validate-request';
+import { idempotent } from '../middleware/idempotency';
+import { requireRole } from '../middleware/auth';
+import { apiDocs } from '../docs/route-docs';
+import { createTemplateSchema, updateTemplateSchema, getTemplateSchema, templateIdSchema } from '../schemas/workflow-template.schemas';
+
+const router = Router();
+const workflowTemplateController = new WorkflowTemplateController();
+const doc = apiDocs('Workflow Templates');
+
+// Templates decide who may perform each transition, so only admins may change them
+const adminOnly = requireRole('admin');
+const ADMIN_ONLY = { 403: 'The caller does not have the admin role' };
+
+/**
+ * Workflow Template Routes
+ */
+
+router.post('/workflow-templates', doc('Create a workflow template', { responses: { 201: 'Created' }, problems: ADMIN_ONLY }), adminOnly, validateRequest(createTemplateSchema), idempotent, workflowTemplateController.createTemplate);
+
+router.get('/workflow-templates', doc('List active workflow templates (latest version of each)'), workflowTemplateController.listTemplates);
+
+router.get('/workflow-templates/:templateId/versions', doc('List every version of a template'), validateRequest(templateIdSchema), workflowTemplateController.listVersions);
+
+router.get('/workflow-templates/:templateId', doc('Get a template (latest version, or ?version=n)'), validateRequest(getTemplateSchema), workflowTemplateController.getTemplate);
+
+router.put('/workflow-templates/:templateId', doc('Publish a new version of a template', { problems: ADMIN_ONLY }), adminOnly, validateRequest(updateTemplateSchema), idempotent, workflowTemplateController.updateTemplate);
+
+router.delete('/workflow-templates/:templateId', doc('Archive a template', { problems: ADMIN_ONLY }), adminOnly, validateRequest(templateIdSchema), workflowTemplateController.deleteTemplate);
+
+export default router;
@@ -1,26 +1,46 @@
 import { Router } from 'express';
 import { WorkflowController } from '../controllers/workflow.controller';
+import { audioQuota } from '../middleware/rate-limiter';
+import { validateRequest } from '../middleware/validate-request';
+import { idempotent } from '../middleware/idempotency';
+import {
+  createWorkflowSchema,
+  transitionWorkflowSchema,
+  workflowIdSchema,
+  listScheduledTransitionsSchema,
+  cancelScheduledTransitionSchema,
+  listWorkflowsSchema
+} from '../schemas/workflow.schemas';
+import { apiDocs } from '../docs/route-docs';
 
 const router = Router();
 const workflowController = new WorkflowController();
+const doc = apiDocs('Workflows');
 
 /**
  * Workflow Management Routes
  */
 
-// Create a new workflow
-router.post('/workflow', workflowController.createWorkflow);
+router.post('/workflow', doc('Create a workflow for an audio file', { responses: { 201: 'Created' } }), audioQuota, validateRequest(createWorkflowSchema), idempotent, workflowController.createWorkflow);
 
-// Get workflow statistics (must be before /:id route)
-router.get('/workflow/stats', workflowController.getWorkflowStats);
+// Must be before the /:id route
+router.get('/workflow/stats', doc('Workflow counts by status'), workflowController.getWorkflowStats);
 
-// Transition workflow to next state
-router.put('/workflow/:id/transition', workflowController.transitionWorkflow);
+router.put('/workflow/:id/transition', doc('Transition a workflow to its next state', {
+  headers: { 'If-Match': 'ETag from GET /workflow/:id; the transition only applies if the workflow is still at that version' },
+  problems: {
+    409: 'Invalid transition, or the workflow was transitioned concurrently',
+    412: 'The workflow has changed since the If-Match ETag was read'
+  }
+}), validateRequest(transitionWorkflowSchema), idempotent, workflowController.transitionWorkflow);
 
-// Get workflow status by ID (must be after /stats route)
-router.get('/workflow/:id', workflowController.getWorkflowStatus);
+router.get('/workflow/:id/scheduled', doc('List pending scheduled transitions (?all=true includes completed/cancelled ones)'), validateRequest(listScheduledTransitionsSchema), workflowController.listScheduledTransitions);
 
-// List all workflows with optional filtering
-router.get('/workflows', workflowController.listWorkflows);
+router.delete('/workflow/:id/scheduled/:scheduleId', doc('Cancel a pending scheduled transition'), validateRequest(cancelScheduledTransitionSchema), workflowController.cancelScheduledTransition);
+
+// Must be after the /stats route
+router.get('/workflow/:id', doc('Get workflow status by ID'), validateRequest(workflowIdSchema), workflowController.getWorkflowStatus);
+
+router.get('/workflows', doc('List workflows with optional status filtering'), validateRequest(listWorkflowsSchema), workflowController.listWorkflows);
 
 export default router;
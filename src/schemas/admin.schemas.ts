@@ -0,0 +1,52 @@
+import { field } from '../utils/schema';
+import { ROLES } from '../utils/roles';
+import { PLAN_NAMES } from '../config/plans';
+import { idParams } from './common.schemas';
+
+const TENANT_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const tenantParams = field.object({
+  tenantId: field.string()
+});
+
+export const createApiKeySchema = {
+  body: field.object({
+    tenantId: field.string({
+      pattern: TENANT_ID_PATTERN,
+      message: 'tenantId may only contain letters, digits, "_" and "-" (max 64)'
+    }),
+    name: field.string({ minLength: 1 }),
+    roles: field.array(field.enum(ROLES)).default([]),
+    // User or service account id the key acts for
+    principal: field.string({ minLength: 1 })
+  })
+};
+
+export const listApiKeysSchema = {
+  query: field.object({
+    tenantId: field.string().optional()
+  })
+};
+
+export const apiKeyIdSchema = {
+  params: idParams
+};
+
+export const rotateApiKeySchema = {
+  params: idParams,
+  body: field.object({
+    // Up to 7 days
+    graceSeconds: field.integer({ min: 0, max: 7 * 24 * 60 * 60 }).default(0)
+  })
+};
+
+export const setTenantPlanSchema = {
+  params: tenantParams,
+  body: field.object({
+    plan: field.enum(PLAN_NAMES)
+  })
+};
+
+export const tenantIdSchema = {
+  params: tenantParams
+};
@@ -0,0 +1,39 @@
+import { field } from '../utils/schema';
+
+/**
+ * `:id` route parameter. Ids are not format-checked here: services look up malformed ids
+ * as unknown ones (`Types.ObjectId.isValid` before `findById`), so both answer 404.
+ */
+export const idParams = field.object({
+  id: field.string()
+});
+
+/**
+ * Audio to transcribe: a URL or a completed upload, and the spoken language
+ */
+export const audioSourceFields = {
+  audioUrl: field.httpUrl({ message: 'Invalid audioUrl format' }).optional(),
+  uploadId: field.string().optional(),
+  language: field.language().optional()
+};
+
+export const requireOneAudioSource = ({ audioUrl, uploadId }: { audioUrl?: string; uploadId?: string }): string | undefined => {
+  if (audioUrl && uploadId) {
+    return 'Provide either audioUrl or uploadId, not both';
+  }
+  return audioUrl || uploadId ? undefined : 'audioUrl or uploadId is required';
+};
+
+/**
+ * Page-number pagination, or cursor pagination with `pagination=cursor` or a `cursor`
+ */
+export const paginationFields = {
+  page: field.integer({ min: 1 }).optional(),
+  limit: field.integer({ min: 1, max: 100 }).default(10),
+  pagination: field.enum(['page', 'cursor'] as const).optional(),
+  cursor: field.string().optional(),
+  includeTotal: field.boolean().optional()
+};
+
+export const rejectPageWithCursor = ({ page, cursor, pagination }: { page?: number; cursor?: string; pagination?: string }): string | undefined =>
+  page !== undefined && (cursor || pagination === 'cursor') ? 'page cannot be combined with cursor pagination' : undefined;
@@ -0,0 +1,11 @@
+import { field } from '../utils/schema';
+import { DOMAIN_EVENT_TYPES } from '../events/event-bus';
+
+export const streamEventsSchema = {
+  query: field.object({
+    // Comma-separated, e.g. ?types=workflow.transitioned,transcription.completed
+    types: field.array(field.enum(DOMAIN_EVENT_TYPES), { minItems: 1 }).optional(),
+    workflowId: field.string().optional(),
+    status: field.string().optional()
+  })
+};
@@ -0,0 +1,5 @@
+import { idParams } from './common.schemas';
+
+export const jobIdSchema = {
+  params: idParams
+};
@@ -0,0 +1,73 @@
+import { field } from '../utils/schema';
+import { speechProviders } from '../providers/provider.registry';
+import { TRANSCRIPTION_SORT_FIELDS } from '../utils/transcription-filters';
+import { TRANSCRIPT_EXPORT_FORMATS, TranscriptExportFormat } from '../utils/transcript-export';
+import { BULK_EXPORT_FORMATS } from '../services/transcript-export.service';
+import { idParams, audioSourceFields, requireOneAudioSource, paginationFields, rejectPageWithCursor } from './common.schemas';
+
+const EXPORT_FORMATS = Object.keys(TRANSCRIPT_EXPORT_FORMATS) as TranscriptExportFormat[];
+
+export const createTranscriptionSchema = {
+  body: field.object({
+    ...audioSourceFields,
+    provider: field.enum(() => speechProviders.getNames()).optional()
+  }).refine(requireOneAudioSource)
+};
+
+export const createAzureTranscriptionSchema = {
+  body: field.object(audioSourceFields).refine(requireOneAudioSource)
+};
+
+// Filters shared by the transcription list and the bulk export (see utils/transcription-filters)
+const transcriptionFilterFields = {
+  from: field.date().optional(),
+  to: field.date().optional(),
+  source: field.string().optional(),
+  language: field.language().optional(),
+  workflowStatus: field.string().optional(),
+  audioHost: field.string().optional(),
+  search: field.string().optional()
+};
+
+export const listTranscriptionsSchema = {
+  query: field.object({
+    ...paginationFields,
+    ...transcriptionFilterFields,
+    sortBy: field.enum(TRANSCRIPTION_SORT_FIELDS).optional(),
+    sortOrder: field.enum(['asc', 'desc'] as const).optional()
+  })
+    .refine(({ sortBy, search }) => sortBy === 'relevance' && !search ? 'sortBy=relevance requires a search term' : undefined, 'sortBy')
+    .refine(rejectPageWithCursor, 'page')
+};
+
+export const bulkExportSchema = {
+  query: field.object({
+    format: field.enum(BULK_EXPORT_FORMATS).default('ndjson'),
+    entryFormat: field.enum(EXPORT_FORMATS).default('json'),
+    ...transcriptionFilterFields
+  })
+};
+
+export const exportTranscriptionSchema = {
+  params: idParams,
+  query: field.object({
+    format: field.enum(EXPORT_FORMATS).default('json')
+  })
+};
+
+export const transcriptionIdSchema = {
+  params: idParams
+};
+
+export const updateTranscriptionSchema = {
+  params: idParams,
+  body: field.object({
+    transcription: field.string({ minLength: 1 }).optional(),
+    language: field.language().optional(),
+    // Only recorded for unauthenticated requests; authenticated callers are recorded by identity
+    editedBy: field.string().optional(),
+    comment: field.string().optional()
+  }).refine(({ transcription, language }) =>
+    transcription === undefined && language === undefined ? 'transcription or language is required' : undefined
+  )
+};
@@ -0,0 +1,15 @@
+import { field } from '../utils/schema';
+import { idParams } from './common.schemas';
+
+export const createResumableUploadSchema = {
+  body: field.object({
+    filename: field.string({ minLength: 1 }),
+    sizeBytes: field.integer({ min: 1 }),
+    contentType: field.string().optional()
+  })
+};
+
+// Chunks are streamed from the raw body, so only the id is checked here
+export const uploadIdSchema = {
+  params: idParams
+};
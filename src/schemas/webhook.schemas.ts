@@ -0,0 +1,33 @@
+import { field } from '../utils/schema';
+import { DOMAIN_EVENT_TYPES } from '../events/event-bus';
+import { idParams } from './common.schemas';
+
+const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export const createWebhookSchema = {
+  body: field.object({
+    url: field.httpUrl(),
+    events: field.array(field.enum(DOMAIN_EVENT_TYPES), { minItems: 1 }),
+    description: field.string().optional(),
+    secret: field.string({ minLength: 16 }).optional()
+  })
+};
+
+export const webhookIdSchema = {
+  params: idParams
+};
+
+export const listDeliveriesSchema = {
+  params: idParams,
+  query: field.object({
+    status: field.enum(DELIVERY_STATUSES).optional(),
+    limit: field.integer({ min: 1, max: 100 }).default(20)
+  })
+};
+
+export const replayDeliverySchema = {
+  params: field.object({
+    id: field.string(),
+    deliveryId: field.string()
+  })
+};
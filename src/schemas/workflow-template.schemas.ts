@@ -0,0 +1,49 @@
+import { field } from '../utils/schema';
+import { ROLES } from '../utils/roles';
+
+const templateIdParams = field.object({
+  templateId: field.string()
+});
+
+// Shape only: consistency (known states, terminal states, auto-progression) is checked by the service
+const templateBody = field.object({
+  name: field.string({ minLength: 1 }),
+  description: field.string().optional(),
+  initialState: field.string({ minLength: 1 }),
+  states: field.array(field.object({
+    name: field.string({ minLength: 1 }),
+    terminal: field.boolean().optional(),
+    autoProgress: field.object({
+      to: field.string(),
+      afterMs: field.number({ min: 0 }),
+      comment: field.string().optional()
+    }).optional()
+  }), { minItems: 1 }),
+  transitions: field.array(field.object({
+    from: field.string(),
+    to: field.string(),
+    roles: field.array(field.enum(ROLES)).optional(),
+    fourEyes: field.boolean().optional()
+  })),
+  startRoles: field.array(field.enum(ROLES)).optional()
+});
+
+export const createTemplateSchema = {
+  body: templateBody
+};
+
+export const updateTemplateSchema = {
+  params: templateIdParams,
+  body: templateBody
+};
+
+export const getTemplateSchema = {
+  params: templateIdParams,
+  query: field.object({
+    version: field.integer({ min: 1 }).optional()
+  })
+};
+
+export const templateIdSchema = {
+  params: templateIdParams
+};
@@ -0,0 +1,48 @@
+import { field } from '../utils/schema';
+import { speechProviders } from '../providers/provider.registry';
+import { idParams, audioSourceFields, requireOneAudioSource, paginationFields, rejectPageWithCursor } from './common.schemas';
+
+export const createWorkflowSchema = {
+  body: field.object({
+    ...audioSourceFields,
+    provider: field.enum(() => speechProviders.getNames()).optional(),
+    templateId: field.string().optional()
+  }).refine(requireOneAudioSource)
+};
+
+// Allowed target states depend on the workflow's template and are checked by the service
+export const transitionWorkflowSchema = {
+  params: idParams,
+  body: field.object({
+    newStatus: field.string({ minLength: 1 }),
+    comment: field.string().optional(),
+    // Only recorded for unauthenticated requests; authenticated callers are recorded by identity
+    reviewedBy: field.string().optional()
+  })
+};
+
+export const workflowIdSchema = {
+  params: idParams
+};
+
+export const listScheduledTransitionsSchema = {
+  params: idParams,
+  query: field.object({
+    all: field.boolean().default(false)
+  })
+};
+
+export const cancelScheduledTransitionSchema = {
+  params: field.object({
+    id: field.string(),
+    scheduleId: field.string()
+  })
+};
+
+// Known states come from the stored templates, so the status filter is checked by the controller
+export const listWorkflowsSchema = {
+  query: field.object({
+    ...paginationFields,
+    status: field.string().optional()
+  }).refine(rejectPageWithCursor, 'page')
+};
@@ -1,8 +1,9 @@
 import { App } from './app';
+import { logger } from './utils/logger';
 
 // Create and start the application
 const app = new App();
 app.start().catch((error) => {
-  console.error('❌ Failed to start application:', error);
+  logger.error('Failed to start application', { error });
   process.exit(1);
 });
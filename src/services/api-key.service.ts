@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { ApiKey, IApiKey } from '../models/ApiKey.model';
+import { Role } from '../utils/roles';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError } from '../errors/app-errors';
+
+const KEY_PREFIX = 'vo';
+const KEY_PATTERN = /^vo_([a-f0-9]{12})_([\w-]{32})$/;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Avoid a write on every request
+
+export interface CreateApiKeyRequest {
+  tenantId: string;
+  name: string;
+  roles: Role[];
+  principal: string;
+}
+
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  tenantId: string;
+  roles: Role[];
+  principal?: string;
+  prefix: string;
+  status: 'active' | 'expiring' | 'revoked' | 'expired';
+  expiresAt?: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+export interface IssuedApiKeyResponse extends ApiKeyResponse {
+  key: string; // Only returned when the key is created or rotated
+}
+
+const hashKey = (key: string): string => crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Issues and verifies tenant API keys. Keys look like `vo_<prefix>_<secret>`; the prefix
+ * is stored in clear for lookup and the full key only as a SHA-256 hash. Keys are
+ * random 192-bit secrets, so a fast hash is sufficient (unlike passwords).
+ */
+export class ApiKeyService {
+  /**
+   * Create a key for a tenant. The plaintext key is only available in this response.
+   */
+  async createKey(request: CreateApiKeyRequest): Promise<IssuedApiKeyResponse> {
+    try {
+      const key = `${KEY_PREFIX}_${crypto.randomBytes(6).toString('hex')}_${crypto.randomBytes(24).toString('base64url')}`;
+      const [, prefix] = key.match(KEY_PATTERN) as RegExpMatchArray;
+
+      const apiKey = await ApiKey.create({
+        name: request.name,
+        tenantId: request.tenantId,
+        roles: request.roles,
+        principal: request.principal,
+        prefix,
+        keyHash: hashKey(key),
+        createdAt: new Date()
+      });
+
+      logger.info('API key created', { keyPrefix: apiKey.prefix, tenantId: apiKey.tenantId });
+      return { ...this.formatApiKeyResponse(apiKey), key };
+
+    } catch (error) {
+      logger.error('Error creating API key', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * List keys (never their secrets), optionally for a single tenant
+   */
+  async listKeys(tenantId?: string): Promise<ApiKeyResponse[]> {
+    try {
+      const keys = await ApiKey.find(tenantId ? { tenantId } : {}).sort({ createdAt: -1 });
+      return keys.map(key => this.formatApiKeyResponse(key));
+
+    } catch (error) {
+      logger.error('Error listing API keys', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  async revokeKey(id: string): Promise<ApiKeyResponse> {
+    try {
+      const apiKey = await this.findKey(id);
+
+      if (apiKey.revokedAt) {
+        throw new ConflictError('API key is already revoked', 'API_KEY_REVOKED');
+      }
+
+      apiKey.revokedAt = new Date();
+      await apiKey.save();
+
+      logger.info('API key revoked', { keyPrefix: apiKey.prefix });
+      return this.formatApiKeyResponse(apiKey);
+
+    } catch (error) {
+      logger.error('Error revoking API key', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a replacement key. The old key is revoked, or keeps working for
+   * `graceSeconds` so clients can switch over without downtime.
+   */
+  async rotateKey(id: string, graceSeconds: number = 0): Promise<IssuedApiKeyResponse> {
+    try {
+      const apiKey = await this.findKey(id);
+
+      if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+        throw new ConflictError('API key is revoked or expired and cannot be rotated', 'API_KEY_REVOKED');
+      }
+
+      // The replacement acts for the same principal (keys without one were identified by their prefix)
+      const replacement = await this.createKey({
+        tenantId: apiKey.tenantId,
+        name: apiKey.name,
+        roles: apiKey.roles,
+        principal: apiKey.principal || apiKey.prefix
+      });
+
+      if (graceSeconds > 0) {
+        apiKey.expiresAt = new Date(Date.now() + graceSeconds * 1000);
+      } else {
+        apiKey.revokedAt = new Date();
+      }
+      apiKey.replacedBy = replacement.id;
+      await apiKey.save();
+
+      logger.info('API key rotated', { keyPrefix: apiKey.prefix, replacementPrefix: replacement.prefix });
+      return replacement;
+
+    } catch (error) {
+      logger.error('Error rotating API key', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a presented key to its record. Returns null for unknown, revoked or expired keys.
+   */
+  async verifyKey(key: string): Promise<IApiKey | null> {
+    const match = key.match(KEY_PATTERN);
+
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await ApiKey.findOne({ prefix: match[1] });
+
+    if (!apiKey) {
+      return null;
+    }
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(hashKey(key), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const now = new Date();
+    if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: now } }).catch(error => {
+        logger.error('Error recording API key usage', { error });
+      });
+    }
+
+    return apiKey;
+  }
+
+  private async findKey(id: string): Promise<IApiKey> {
+    const apiKey = Types.ObjectId.isValid(id) ? await ApiKey.findById(id) : null;
+
+    if (!apiKey) {
+      throw new NotFoundError('API key not found');
+    }
+
+    return apiKey;
+  }
+
+  private formatApiKeyResponse(apiKey: IApiKey): ApiKeyResponse {
+    const now = new Date();
+    const status = apiKey.revokedAt ? 'revoked'
+      : apiKey.expiresAt && apiKey.expiresAt <= now ? 'expired'
+      : apiKey.expiresAt ? 'expiring'
+      : 'active';
+
+    return {
+      id: apiKey._id.toString(),
+      name: apiKey.name,
+      tenantId: apiKey.tenantId,
+      roles: apiKey.roles,
+      principal: apiKey.principal,
+      prefix: apiKey.prefix,
+      status,
+      expiresAt: apiKey.expiresAt,
+      revokedAt: apiKey.revokedAt,
+      replacedBy: apiKey.replacedBy,
+      lastUsedAt: apiKey.lastUsedAt,
+      createdAt: apiKey.createdAt
+    };
+  }
+}
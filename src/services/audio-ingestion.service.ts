@@ -0,0 +1,332 @@
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createWriteStream, promises as fs } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { config } from '../config/env';
+import { AppError } from '../errors/app-errors';
+import { Upload } from '../models/Upload.model';
+import { uploadStorages } from '../storage/storage.registry';
+import { AudioMetadata, AudioProbeError, probeAudioFile } from '../utils/audio-probe';
+import { isPublicUrl } from '../utils/address-guard';
+import { UsageService } from './usage.service';
+import { getCurrentTenantId, DEFAULT_TENANT_ID } from '../utils/tenant-context';
+import { logger } from '../utils/logger';
+
+export type AudioIngestionErrorCode =
+  | 'UNSUPPORTED_URL'
+  | 'UPLOAD_NOT_FOUND'
+  | 'UPLOAD_INCOMPLETE'
+  | 'DOWNLOAD_FAILED'
+  | 'DOWNLOAD_TIMEOUT'
+  | 'UNSUPPORTED_CONTENT_TYPE'
+  | 'AUDIO_TOO_LARGE'
+  | 'UNSUPPORTED_AUDIO_FORMAT'
+  | 'CORRUPT_AUDIO';
+
+/**
+ * Raised when the audio behind a request cannot be used. Maps to 422 Unprocessable Entity.
+ */
+export class AudioIngestionError extends AppError {
+  constructor(message: string, public readonly code: AudioIngestionErrorCode) {
+    super(message, 422, code);
+  }
+
+  // Retrying will not make an unsupported or corrupt file valid
+  get retryable(): boolean {
+    return this.code === 'DOWNLOAD_FAILED' || this.code === 'DOWNLOAD_TIMEOUT';
+  }
+}
+
+export interface StoredAudioMetadata extends AudioMetadata {
+  sizeBytes: number;
+  contentType?: string;
+}
+
+/**
+ * Where the audio comes from: a remote URL or a completed upload
+ */
+export interface AudioSource {
+  audioUrl?: string;
+  uploadId?: string;
+}
+
+export interface IngestedAudio {
+  filePath: string;
+  metadata: StoredAudioMetadata;
+}
+
+export interface DownloadedFile {
+  filePath: string;
+  sizeBytes: number;
+  contentType?: string;
+}
+
+const ALLOWED_CONTENT_TYPES = ['application/octet-stream', 'application/ogg', 'video/ogg', 'binary/octet-stream'];
+const MAX_REDIRECTS = 3;
+
+/**
+ * Accept audio/* and the generic binary types audio is commonly served with
+ */
+export const isAllowedAudioContentType = (contentType: string): boolean =>
+  contentType.startsWith('audio/') || ALLOWED_CONTENT_TYPES.includes(contentType);
+
+export class AudioIngestionService {
+  private usageService = new UsageService();
+
+  /**
+   * Download and probe the audio, run `fn` with it, and always remove the temporary file.
+   * Once `fn` succeeds the audio duration counts towards the tenant's monthly usage.
+   */
+  async withIngestedAudio<T>(source: AudioSource, fn: (audio: IngestedAudio) => Promise<T>): Promise<T> {
+    const audio = await this.ingest(source);
+
+    try {
+      const result = await fn(audio);
+      await this.recordUsage(audio);
+      return result;
+    } finally {
+      await this.release(audio);
+    }
+  }
+
+  /**
+   * Stream the audio to temporary storage and read its format metadata
+   */
+  async ingest(source: AudioSource): Promise<IngestedAudio> {
+    if (source.uploadId) {
+      return this.ingestUpload(source.uploadId);
+    }
+    if (!source.audioUrl) {
+      throw new AudioIngestionError('Either audioUrl or uploadId is required', 'UNSUPPORTED_URL');
+    }
+
+    return this.ingestFile(await this.download(source.audioUrl));
+  }
+
+  /**
+   * Copy a stream (e.g. from upload storage) to temporary storage and read its format metadata
+   */
+  async ingestStream(data: Readable, contentType?: string): Promise<IngestedAudio> {
+    const filePath = await this.createTempPath();
+
+    try {
+      const sizeBytes = await this.writeLimited(data, filePath);
+      return await this.ingestFile({ filePath, sizeBytes, contentType });
+    } catch (error) {
+      await this.removeFile(filePath);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the metadata of a local file, converting probe failures to ingestion errors.
+   * The file is removed when it is not usable audio.
+   */
+  async ingestFile(file: DownloadedFile): Promise<IngestedAudio> {
+    try {
+      const metadata = await probeAudioFile(file.filePath);
+      logger.info('Audio ingested', { format: metadata.format, durationSeconds: metadata.durationSeconds, sampleRate: metadata.sampleRate, channels: metadata.channels });
+
+      return {
+        filePath: file.filePath,
+        metadata: {
+          ...metadata,
+          sizeBytes: file.sizeBytes,
+          contentType: file.contentType
+        }
+      };
+
+    } catch (error) {
+      await this.removeFile(file.filePath);
+
+      if (error instanceof AudioProbeError) {
+        throw new AudioIngestionError(error.message, error.code);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the temporary file of an ingested audio
+   */
+  async release(audio: IngestedAudio): Promise<void> {
+    await this.removeFile(audio.filePath);
+  }
+
+  /**
+   * Stream a remote file to disk, enforcing protocol, address, content type, size and timeout limits
+   */
+  private async download(audioUrl: string, redirectsLeft: number = MAX_REDIRECTS): Promise<DownloadedFile> {
+    let url: URL;
+    try {
+      url = new URL(audioUrl);
+    } catch {
+      throw new AudioIngestionError('Invalid audioUrl format', 'UNSUPPORTED_URL');
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new AudioIngestionError(`Unsupported audioUrl protocol: ${url.protocol.replace(':', '')}`, 'UNSUPPORTED_URL');
+    }
+
+    // Checked again on every redirect, so a public URL cannot bounce the server to an internal one
+    await this.assertPublicUrl(url);
+
+    logger.info('Downloading audio', { url: `${url.origin}${url.pathname}` });
+
+    const response = await this.request(url);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirectsLeft === 0) {
+        throw new AudioIngestionError('Too many redirects while downloading audio', 'DOWNLOAD_FAILED');
+      }
+      return this.download(new URL(response.headers.location, url).toString(), redirectsLeft - 1);
+    }
+
+    if (status !== 200) {
+      response.resume();
+      throw new AudioIngestionError(`Audio download failed with HTTP ${status}`, 'DOWNLOAD_FAILED');
+    }
+
+    const contentType = response.headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (contentType && !isAllowedAudioContentType(contentType)) {
+      response.resume();
+      throw new AudioIngestionError(`Unsupported content type: ${contentType}`, 'UNSUPPORTED_CONTENT_TYPE');
+    }
+
+    const declaredLength = parseInt(response.headers['content-length'] || '', 10);
+    if (declaredLength > config.AUDIO_MAX_BYTES) {
+      response.resume();
+      throw new AudioIngestionError(`Audio exceeds the maximum size of ${config.AUDIO_MAX_BYTES} bytes`, 'AUDIO_TOO_LARGE');
+    }
+
+    const filePath = await this.createTempPath();
+
+    let sizeBytes: number;
+    try {
+      sizeBytes = await this.writeLimited(response, filePath);
+    } catch (error) {
+      await this.removeFile(filePath);
+      throw error instanceof AudioIngestionError
+        ? error
+        : new AudioIngestionError(`Audio download failed: ${error instanceof Error ? error.message : String(error)}`, 'DOWNLOAD_FAILED');
+    }
+
+    logger.info('Audio downloaded', { sizeBytes });
+    return { filePath, sizeBytes, contentType };
+  }
+
+  /**
+   * Refuse to make the server request loopback, private or link-local addresses (SSRF)
+   */
+  private async assertPublicUrl(url: URL): Promise<void> {
+    let isPublic: boolean;
+    try {
+      isPublic = await isPublicUrl(url);
+    } catch (error) {
+      throw new AudioIngestionError(`Audio download failed: ${error instanceof Error ? error.message : String(error)}`, 'DOWNLOAD_FAILED');
+    }
+
+    if (!isPublic) {
+      throw new AudioIngestionError(`audioUrl host ${url.hostname} resolves to a private or local address`, 'UNSUPPORTED_URL');
+    }
+  }
+
+  /**
+   * Copy a completed upload out of its storage backend
+   */
+  private async ingestUpload(uploadId: string): Promise<IngestedAudio> {
+    const upload = await Upload.findById(uploadId);
+
+    if (!upload) {
+      throw new AudioIngestionError('Upload not found', 'UPLOAD_NOT_FOUND');
+    }
+    if (upload.status !== 'completed') {
+      throw new AudioIngestionError('Upload is not complete', 'UPLOAD_INCOMPLETE');
+    }
+
+    logger.debug('Reading upload', { uploadId, storage: upload.storage });
+
+    const data = await uploadStorages.get(upload.storage).read(upload.storageKey);
+    return this.ingestStream(data, upload.contentType);
+  }
+
+  private async createTempPath(): Promise<string> {
+    await fs.mkdir(config.AUDIO_TEMP_DIR, { recursive: true });
+    return path.join(config.AUDIO_TEMP_DIR, randomUUID());
+  }
+
+  /**
+   * Write a stream to disk, failing once it grows past AUDIO_MAX_BYTES
+   */
+  private async writeLimited(data: Readable, filePath: string): Promise<number> {
+    let sizeBytes = 0;
+    const sizeLimiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        sizeBytes += chunk.length;
+        if (sizeBytes > config.AUDIO_MAX_BYTES) {
+          callback(new AudioIngestionError(`Audio exceeds the maximum size of ${config.AUDIO_MAX_BYTES} bytes`, 'AUDIO_TOO_LARGE'));
+          return;
+        }
+        callback(null, chunk);
+      }
+    });
+
+    await pipeline(data, sizeLimiter, createWriteStream(filePath));
+    return sizeBytes;
+  }
+
+  /**
+   * Issue the GET request; the timeout covers the whole transfer, not just the connection
+   */
+  private request(url: URL): Promise<http.IncomingMessage> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      let activeResponse: http.IncomingMessage | undefined;
+
+      const req = client.get(url, response => {
+        activeResponse = response;
+        response.on('close', () => clearTimeout(timer));
+        resolve(response);
+      });
+
+      const timer = setTimeout(() => {
+        const error = new AudioIngestionError(`Audio download timed out after ${config.AUDIO_DOWNLOAD_TIMEOUT_MS}ms`, 'DOWNLOAD_TIMEOUT');
+        req.destroy(error);
+        activeResponse?.destroy(error);
+      }, config.AUDIO_DOWNLOAD_TIMEOUT_MS);
+
+      req.on('error', error => {
+        clearTimeout(timer);
+        reject(error instanceof AudioIngestionError
+          ? error
+          : new AudioIngestionError(`Audio download failed: ${error.message}`, 'DOWNLOAD_FAILED'));
+      });
+    });
+  }
+
+  /**
+   * Meter transcribed audio against the current tenant. Failures are only logged:
+   * the transcription is already saved and must not be retried because of metering.
+   */
+  private async recordUsage(audio: IngestedAudio): Promise<void> {
+    try {
+      await this.usageService.recordAudio(getCurrentTenantId() || DEFAULT_TENANT_ID, audio.metadata.durationSeconds);
+    } catch (error) {
+      logger.error('Error recording audio usage', { error });
+    }
+  }
+
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch {
+      // Already removed
+    }
+  }
+}
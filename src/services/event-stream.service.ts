@@ -0,0 +1,106 @@
+import { eventBus, DomainEvent, DomainEventListener, DomainEventType } from '../events/event-bus';
+import { StreamEvent, IStreamEvent } from '../models/StreamEvent.model';
+import { logger } from '../utils/logger';
+
+// Events committed late, or stamped by an instance whose clock is slightly behind,
+// are still picked up by polls within this window
+const LOOKBACK_MS = 5000;
+
+// Kept a while longer than the look-back, then removed by MongoDB
+const RETENTION_MS = 10 * 60 * 1000;
+
+/**
+ * Feeds GET /events from the `streamevents` collection rather than the in-process
+ * event bus, so a stream sees the events of every API and worker instance.
+ *
+ * Every published event is recorded; EventStreamWorker polls for new ones and hands
+ * each to the listeners of this instance once. Listeners filter by tenant themselves.
+ */
+export class EventStreamService {
+  private listeners = new Set<DomainEventListener>();
+  // Events already handed to listeners, by id, with their occurrence time for pruning
+  private delivered = new Map<string, number>();
+  private watchingSince: number | null = null;
+
+  /**
+   * Store a published event for the event streams of every instance
+   */
+  async record(event: DomainEvent): Promise<void> {
+    await StreamEvent.create({
+      eventId: event.id,
+      type: event.type,
+      tenantId: event.tenantId,
+      occurredAt: event.occurredAt,
+      data: event.data,
+      expiresAt: new Date(event.occurredAt.getTime() + RETENTION_MS)
+    });
+  }
+
+  /**
+   * Receive events recorded from now on. Returns a function that removes the listener.
+   */
+  subscribe(listener: DomainEventListener): () => void {
+    if (this.listeners.size === 0) {
+      this.watchingSince = Date.now();
+    }
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+
+      if (this.listeners.size === 0) {
+        this.watchingSince = null;
+        this.delivered.clear();
+      }
+    };
+  }
+
+  /**
+   * Hand events recorded since the last poll to the listeners. Returns how many were new.
+   */
+  async poll(): Promise<number> {
+    if (this.watchingSince === null) {
+      return 0;
+    }
+
+    const from = Math.max(this.watchingSince, Date.now() - LOOKBACK_MS);
+    const records = await StreamEvent.find({ occurredAt: { $gte: new Date(from) } }).sort({ occurredAt: 1, _id: 1 });
+
+    for (const [id, occurredAt] of this.delivered) {
+      if (occurredAt < from) {
+        this.delivered.delete(id);
+      }
+    }
+
+    const events = records
+      .filter(record => !this.delivered.has(record.eventId))
+      .map(record => this.toDomainEvent(record));
+
+    for (const event of events) {
+      this.delivered.set(event.id, event.occurredAt.getTime());
+
+      for (const listener of this.listeners) {
+        Promise.resolve()
+          .then(() => listener(event))
+          .catch(error => logger.error('Error streaming event', { eventType: event.type, eventId: event.id, error }));
+      }
+    }
+
+    return events.length;
+  }
+
+  private toDomainEvent(record: IStreamEvent): DomainEvent {
+    return {
+      id: record.eventId,
+      type: record.type as DomainEventType,
+      tenantId: record.tenantId,
+      occurredAt: record.occurredAt,
+      data: record.data
+    };
+  }
+}
+
+export const eventStream = new EventStreamService();
+
+// Record every published event, whichever instance streams it
+eventBus.subscribe(event => eventStream.record(event));
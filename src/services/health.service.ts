@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { database } from '../config/database';
+import { speechProviders } from '../providers/provider.registry';
+import { ProviderHealth } from '../providers/speech.provider';
+import { jobQueue } from './job-queue.service';
+
+export type CheckStatus = 'up' | 'degraded' | 'down';
+
+export interface DependencyCheck {
+  status: CheckStatus;
+  latencyMs: number;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface LivenessResponse {
+  status: 'healthy';
+  timestamp: Date;
+  environment: string;
+  version: string;
+}
+
+export interface ReadinessResponse {
+  status: 'ready' | 'not_ready';
+  timestamp: Date;
+  checks: {
+    database: DependencyCheck;
+    speechProvider: DependencyCheck;
+    jobQueue: DependencyCheck;
+  };
+}
+
+export interface StatusResponse {
+  status: 'ready' | 'not_ready';
+  version: string;
+  environment: string;
+  nodeVersion: string;
+  startedAt: Date;
+  uptimeSeconds: number;
+  timestamp: Date;
+  memory: { rssBytes: number; heapUsedBytes: number; heapTotalBytes: number };
+  dependencies: {
+    database: DependencyCheck;
+    speechProviders: Record<string, DependencyCheck>;
+    jobQueue: DependencyCheck;
+  };
+}
+
+// Mongoose connection.readyState values
+const CONNECTION_STATES: Record<number, string> = {
+  0: 'disconnected',
+  1: 'connected',
+  2: 'connecting',
+  3: 'disconnecting'
+};
+
+const PROVIDER_CHECK_STATUS: Record<ProviderHealth['status'], CheckStatus> = {
+  healthy: 'up',
+  degraded: 'degraded',
+  unhealthy: 'down'
+};
+
+/**
+ * Version from package.json (two levels up from both src/services and dist/services)
+ */
+const readVersion = (): string => {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../package.json'), 'utf8'));
+    return packageJson.version;
+  } catch {
+    return process.env.npm_package_version || 'unknown';
+  }
+};
+
+const startedAt = new Date();
+export const appVersion = readVersion();
+
+/**
+ * Liveness, readiness and dependency status for orchestrators and operators.
+ * Every dependency check is bounded by HEALTH_CHECK_TIMEOUT_MS so a hanging
+ * dependency reports as down instead of hanging the probe.
+ */
+export class HealthService {
+  /**
+   * The process is up and serving requests. Checks no dependencies.
+   */
+  getLiveness(): LivenessResponse {
+    return {
+      status: 'healthy',
+      timestamp: new Date(),
+      environment: config.NODE_ENV,
+      version: appVersion
+    };
+  }
+
+  /**
+   * Ready when MongoDB is connected and the default speech provider is not unhealthy
+   */
+  async getReadiness(): Promise<ReadinessResponse> {
+    const [databaseCheck, speechProvider] = await Promise.all([
+      this.checkDatabase(),
+      this.checkSpeechProvider(config.DEFAULT_SPEECH_PROVIDER)
+    ]);
+
+    // The backlog is read from MongoDB, so only ask when it is reachable
+    const jobQueueCheck = await this.checkJobQueue(databaseCheck);
+
+    return {
+      status: this.isReady(databaseCheck, speechProvider) ? 'ready' : 'not_ready',
+      timestamp: new Date(),
+      checks: { database: databaseCheck, speechProvider, jobQueue: jobQueueCheck }
+    };
+  }
+
+  /**
+   * Detailed status: build, process and every dependency with its latency
+   */
+  async getStatus(): Promise<StatusResponse> {
+    const providerNames = speechProviders.getNames();
+    const [databaseCheck, ...providerChecks] = await Promise.all([
+      this.checkDatabase(),
+      ...providerNames.map(name => this.checkSpeechProvider(name))
+    ]);
+    const jobQueueCheck = await this.checkJobQueue(databaseCheck);
+
+    const providers: Record<string, DependencyCheck> = {};
+    providerNames.forEach((name, index) => {
+      providers[name] = providerChecks[index];
+    });
+
+    const defaultProvider = providers[config.DEFAULT_SPEECH_PROVIDER]
+      || { status: 'down', latencyMs: 0, error: `Unknown speech provider: ${config.DEFAULT_SPEECH_PROVIDER}` };
+    const memory = process.memoryUsage();
+
+    return {
+      status: this.isReady(databaseCheck, defaultProvider) ? 'ready' : 'not_ready',
+      version: appVersion,
+      environment: config.NODE_ENV,
+      nodeVersion: process.version,
+      startedAt,
+      uptimeSeconds: Math.round(process.uptime()),
+      timestamp: new Date(),
+      memory: { rssBytes: memory.rss, heapUsedBytes: memory.heapUsed, heapTotalBytes: memory.heapTotal },
+      dependencies: { database: databaseCheck, speechProviders: providers, jobQueue: jobQueueCheck }
+    };
+  }
+
+  private isReady(databaseCheck: DependencyCheck, speechProvider: DependencyCheck): boolean {
+    return databaseCheck.status === 'up' && speechProvider.status !== 'down';
+  }
+
+  private async checkDatabase(): Promise<DependencyCheck> {
+    const connection = database.getConnection();
+    const state = CONNECTION_STATES[connection.readyState] || 'unknown';
+
+    if (connection.readyState !== 1 || !connection.db) {
+      return { status: 'down', latencyMs: 0, details: { state }, error: `MongoDB is ${state}` };
+    }
+
+    const db = connection.db;
+    return this.runCheck(async () => {
+      await db.admin().ping();
+      return { status: 'up', details: { state, name: connection.name } };
+    });
+  }
+
+  private async checkSpeechProvider(name: string): Promise<DependencyCheck> {
+    return this.runCheck(async () => {
+      const health = await speechProviders.get(name).getHealth();
+      return { status: PROVIDER_CHECK_STATUS[health.status], details: { name, ...health.details } };
+    });
+  }
+
+  private async checkJobQueue(databaseCheck: DependencyCheck): Promise<DependencyCheck> {
+    if (databaseCheck.status !== 'up') {
+      return { status: 'down', latencyMs: 0, error: 'Job queue is stored in MongoDB, which is unavailable' };
+    }
+
+    return this.runCheck(async () => {
+      const backlog = await jobQueue.getBacklog();
+      return { status: 'up', details: { backlog } };
+    });
+  }
+
+  /**
+   * Time a check, turning errors and timeouts into a `down` result
+   */
+  private async runCheck(check: () => Promise<Omit<DependencyCheck, 'latencyMs'>>): Promise<DependencyCheck> {
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${config.HEALTH_CHECK_TIMEOUT_MS}ms`)),
+        config.HEALTH_CHECK_TIMEOUT_MS
+      );
+    });
+
+    try {
+      const result = await Promise.race([check(), timeout]);
+      return { ...result, latencyMs: Date.now() - started };
+    } catch (error) {
+      return {
+        status: 'down',
+        latencyMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
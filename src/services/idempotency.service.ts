@@ -0,0 +1,107 @@
+import { config } from '../config/env';
+import { IdempotencyKey, IIdempotencyKey, StoredResponse } from '../models/IdempotencyKey.model';
+import { ConflictError } from '../errors/app-errors';
+
+const DUPLICATE_KEY = 11000;
+
+export type IdempotencyClaim =
+  | { outcome: 'claimed'; id: string }
+  | { outcome: 'replay'; response: StoredResponse };
+
+/**
+ * Idempotency keys in MongoDB, scoped to the current tenant.
+ *
+ * The first request with a key claims it with a unique insert, so concurrent
+ * retries cannot both run. Its successful response is kept for
+ * IDEMPOTENCY_KEY_TTL_MS and replayed to later requests with the same key and body.
+ */
+export class IdempotencyService {
+  /**
+   * Claim `key` for a request, or get the response to replay
+   */
+  async claim(key: string, fingerprint: string): Promise<IdempotencyClaim> {
+    // A second attempt follows removing an expired key
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const record = await IdempotencyKey.create({
+          key,
+          fingerprint,
+          status: 'in_progress',
+          expiresAt: new Date(Date.now() + config.IDEMPOTENCY_LOCK_MS)
+        });
+        return { outcome: 'claimed', id: record._id.toString() };
+      } catch (error) {
+        if ((error as { code?: number }).code !== DUPLICATE_KEY) {
+          throw error;
+        }
+      }
+
+      const existing = await IdempotencyKey.findOne({ key });
+      if (!existing) {
+        continue;
+      }
+
+      // Expired but not yet removed by MongoDB, or a lock whose request never
+      // finished (e.g. the process restarted): the key is free again
+      if (existing.expiresAt <= new Date()) {
+        await IdempotencyKey.deleteOne({ _id: existing._id, expiresAt: existing.expiresAt });
+        continue;
+      }
+
+      return { outcome: 'replay', response: this.replayOf(existing, fingerprint) };
+    }
+
+    throw new ConflictError('A request with this Idempotency-Key is still in progress', 'IDEMPOTENCY_REQUEST_IN_PROGRESS');
+  }
+
+  /**
+   * The response to replay for `key` without claiming it, or null while the key is free.
+   * Lets retries be answered before they reach rate limits and quotas. A key used for a
+   * different request is left to claim(), as only the routes honoring keys reject reuse.
+   */
+  async findReplay(key: string, fingerprint: string): Promise<StoredResponse | null> {
+    const existing = await IdempotencyKey.findOne({ key });
+
+    if (!existing || existing.expiresAt <= new Date() || existing.fingerprint !== fingerprint) {
+      return null;
+    }
+
+    return this.replayOf(existing, fingerprint);
+  }
+
+  /**
+   * Keep the response of a claimed key for replay
+   */
+  async complete(id: string, response: StoredResponse): Promise<void> {
+    await IdempotencyKey.updateOne(
+      { _id: id },
+      { status: 'completed', response, expiresAt: new Date(Date.now() + config.IDEMPOTENCY_KEY_TTL_MS) }
+    );
+  }
+
+  /**
+   * The stored response of a taken key, if the request is the same and has finished
+   */
+  private replayOf(existing: IIdempotencyKey, fingerprint: string): StoredResponse {
+    if (existing.fingerprint !== fingerprint) {
+      throw new ConflictError(
+        'Idempotency-Key was already used with a different request',
+        'IDEMPOTENCY_KEY_REUSED'
+      );
+    }
+
+    if (existing.status === 'completed' && existing.response) {
+      return existing.response;
+    }
+
+    // The first request is still running
+    throw new ConflictError('A request with this Idempotency-Key is still in progress', 'IDEMPOTENCY_REQUEST_IN_PROGRESS');
+  }
+
+  /**
+   * Free a claimed key whose request failed, so the client can retry with it
+   */
+  async release(id: string): Promise<void> {
+    await IdempotencyKey.deleteOne({ _id: id, status: 'in_progress' });
+  }
+}
@@ -0,0 +1,244 @@
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { Job, IJob } from '../models/Job.model';
+import { runWithTenant } from '../utils/tenant-context';
+import { runWithRequestId, getRequestId } from '../utils/request-context';
+import { calculateBackoffDelay } from '../utils/retry';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../errors/app-errors';
+
+export type JobHandler = (payload: Record<string, any>, jobId: string) => Promise<Record<string, any>>;
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+export interface JobStatusResponse {
+  id: string;
+  type: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  result?: Record<string, any>;
+  error?: string;
+  errorCode?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * MongoDB-backed job queue.
+ *
+ * Jobs are claimed atomically with a lease so several workers (or replicas)
+ * can poll the same collection. The lease is renewed while the handler runs;
+ * a job whose lease expires anyway - e.g. because the process was restarted -
+ * becomes claimable again, so handlers must tolerate running a job twice.
+ */
+export class JobQueueService {
+  private handlers = new Map<string, JobHandler>();
+
+  /**
+   * Register the handler that processes jobs of the given type
+   */
+  registerHandler(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async enqueue(type: string, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<IJob> {
+    try {
+      const job = await Job.create({
+        type,
+        payload,
+        status: 'queued',
+        maxAttempts: options.maxAttempts || config.JOB_MAX_ATTEMPTS,
+        runAt: options.runAt || new Date(),
+        requestId: getRequestId(),
+        createdAt: new Date()
+      });
+
+      logger.info('Job queued', { jobId: job._id, type });
+      return job;
+    } catch (error) {
+      logger.error('Error enqueuing job', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically claim the next runnable job for this worker
+   */
+  async claimNext(workerId: string): Promise<IJob | null> {
+    const now = new Date();
+
+    return Job.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          { status: 'running', lockedUntil: { $lt: now } }
+        ]
+      },
+      {
+        $set: {
+          status: 'running',
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + config.JOB_LEASE_MS),
+          startedAt: now,
+          updatedAt: now
+        },
+        $inc: { attempts: 1 }
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Claim and run a single job. Returns false when nothing was runnable.
+   */
+  async processNext(workerId: string): Promise<boolean> {
+    const job = await this.claimNext(workerId);
+
+    if (!job) {
+      return false;
+    }
+
+    // Run (and log) the job under the correlation id of the request that queued it
+    await runWithRequestId(job.requestId, () => this.run(job, workerId));
+    return true;
+  }
+
+  /**
+   * Run a claimed job's handler and record its outcome
+   */
+  private async run(job: IJob, workerId: string): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    // Keep the lease while the handler runs, however long that takes
+    const heartbeat = setInterval(() => this.renewLease(job, workerId), config.JOB_LEASE_MS / 3);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type: ${job.type}`);
+      }
+
+      logger.info('Processing job', { jobId: job._id, type: job.type, attempt: job.attempts });
+      // Run the handler on behalf of the tenant that queued the job
+      const result = await runWithTenant(job.tenantId, () => handler(job.payload, job._id.toString()));
+
+      await Job.updateOne(
+        { _id: job._id, lockedBy: workerId },
+        {
+          $set: { status: 'succeeded', result, finishedAt: new Date(), updatedAt: new Date() },
+          $unset: { lockedBy: '', lockedUntil: '', error: '', errorCode: '' }
+        }
+      );
+      logger.info('Job succeeded', { jobId: job._id });
+
+    } catch (error) {
+      await this.handleFailure(job, workerId, error instanceof Error ? error : new Error(String(error)), !handler);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Extend the lease of a running job held by this worker
+   */
+  private async renewLease(job: IJob, workerId: string): Promise<void> {
+    try {
+      await Job.updateOne(
+        { _id: job._id, status: 'running', lockedBy: workerId },
+        { $set: { lockedUntil: new Date(Date.now() + config.JOB_LEASE_MS), updatedAt: new Date() } }
+      );
+    } catch (error) {
+      logger.warn('Error renewing job lease', { jobId: job._id, error });
+    }
+  }
+
+  /**
+   * Get job status by ID
+   */
+  async getJob(id: string): Promise<JobStatusResponse> {
+    try {
+      const job = Types.ObjectId.isValid(id) ? await Job.findById(id) : null;
+
+      if (!job) {
+        throw new NotFoundError('Job not found');
+      }
+
+      return this.formatJobResponse(job);
+    } catch (error) {
+      logger.error('Error fetching job', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Count jobs waiting to be processed
+   */
+  async getBacklog(): Promise<number> {
+    return Job.countDocuments({ status: { $in: ['queued', 'running'] } });
+  }
+
+  /**
+   * Requeue a failed job with exponential backoff, or mark it failed when out of attempts
+   */
+  private async handleFailure(job: IJob, workerId: string, error: Error, permanent: boolean): Promise<void> {
+    // Errors can opt out of retries (e.g. corrupt audio will never succeed)
+    const retryable = (error as { retryable?: boolean }).retryable !== false;
+    const exhausted = permanent || !retryable || job.attempts >= job.maxAttempts;
+
+    if (exhausted) {
+      logger.error('Job failed permanently', { jobId: job._id, error: error.message });
+      await Job.updateOne(
+        { _id: job._id, lockedBy: workerId },
+        {
+          $set: {
+            status: 'failed',
+            error: error.message,
+            errorCode: (error as { code?: string }).code,
+            finishedAt: new Date(),
+            updatedAt: new Date()
+          },
+          $unset: { lockedBy: '', lockedUntil: '' }
+        }
+      );
+      return;
+    }
+
+    const delay = calculateBackoffDelay(job.attempts, config.JOB_RETRY_BASE_DELAY_MS, config.JOB_LEASE_MS);
+    logger.warn('Job failed, retrying', { jobId: job._id, attempt: job.attempts, delayMs: delay, error: error.message });
+
+    await Job.updateOne(
+      { _id: job._id, lockedBy: workerId },
+      {
+        $set: { status: 'queued', error: error.message, runAt: new Date(Date.now() + delay), updatedAt: new Date() },
+        $unset: { lockedBy: '', lockedUntil: '' }
+      }
+    );
+  }
+
+  /**
+   * Format job response
+   */
+  private formatJobResponse(job: IJob): JobStatusResponse {
+    return {
+      id: job._id.toString(),
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      result: job.result,
+      error: job.error,
+      errorCode: job.errorCode,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt
+    };
+  }
+}
+
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,132 @@
+import { Readable } from 'stream';
+import { Types } from 'mongoose';
+import archiver from 'archiver';
+import { Transcription } from '../models/Transcription.model';
+import {
+  TRANSCRIPT_EXPORT_FORMATS,
+  TranscriptExportFormat,
+  ExportableTranscription,
+  toExportRecord
+} from '../utils/transcript-export';
+import { TranscriptionFilters, buildTranscriptionQuery } from '../utils/transcription-filters';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../errors/app-errors';
+
+export type BulkExportFormat = 'ndjson' | 'zip';
+
+export const BULK_EXPORT_FORMATS: BulkExportFormat[] = ['ndjson', 'zip'];
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export interface BulkExport {
+  filename: string;
+  contentType: string;
+  stream: Readable;
+}
+
+export class TranscriptExportService {
+  /**
+   * Render a single transcription in the requested format
+   */
+  async exportTranscription(id: string, format: TranscriptExportFormat): Promise<ExportedFile> {
+    try {
+      const transcription = Types.ObjectId.isValid(id) ? await Transcription.findById(id).lean() : null;
+
+      if (!transcription) {
+        throw new NotFoundError('Transcription not found');
+      }
+
+      const definition = TRANSCRIPT_EXPORT_FORMATS[format];
+      logger.info('Exporting transcription', { transcriptionId: id, format });
+
+      return {
+        filename: `transcription-${id}.${definition.extension}`,
+        contentType: definition.contentType,
+        body: definition.render(transcription as ExportableTranscription)
+      };
+
+    } catch (error) {
+      logger.error('Error exporting transcription', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Stream every matching transcription, newest first, as NDJSON or as a zip with
+   * one file per transcription rendered in `entryFormat`
+   */
+  createBulkExport(
+    filters: TranscriptionFilters,
+    format: BulkExportFormat,
+    entryFormat: TranscriptExportFormat = 'json'
+  ): BulkExport {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    logger.info('Starting bulk export', { format, ...(format === 'zip' && { entryFormat }) });
+
+    if (format === 'ndjson') {
+      return {
+        filename: `transcriptions-${timestamp}.ndjson`,
+        contentType: 'application/x-ndjson; charset=utf-8',
+        stream: Readable.from(this.renderNdjson(filters))
+      };
+    }
+
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    this.fillArchive(archive, filters, entryFormat).catch(error => {
+      logger.error('Error building export archive', { error });
+      archive.destroy(error);
+    });
+
+    return {
+      filename: `transcriptions-${timestamp}.zip`,
+      contentType: 'application/zip',
+      stream: archive
+    };
+  }
+
+  private async *renderNdjson(filters: TranscriptionFilters): AsyncGenerator<string> {
+    for await (const transcription of this.findMatching(filters)) {
+      yield JSON.stringify(toExportRecord(transcription)) + '\n';
+    }
+  }
+
+  private async fillArchive(
+    archive: archiver.Archiver,
+    filters: TranscriptionFilters,
+    entryFormat: TranscriptExportFormat
+  ): Promise<void> {
+    const definition = TRANSCRIPT_EXPORT_FORMATS[entryFormat];
+
+    for await (const transcription of this.findMatching(filters)) {
+      const id = transcription._id.toString();
+
+      // Wait for each entry to be written so a slow client applies backpressure to the cursor
+      const written = new Promise<void>((resolve, reject) => {
+        const onEntry = () => {
+          archive.off('close', onClose);
+          resolve();
+        };
+        const onClose = () => {
+          archive.off('entry', onEntry);
+          reject(new Error('Export archive closed before completion'));
+        };
+        archive.once('entry', onEntry);
+        archive.once('close', onClose);
+      });
+      archive.append(definition.render(transcription), { name: `transcription-${id}.${definition.extension}` });
+      await written;
+    }
+
+    await archive.finalize();
+  }
+
+  private findMatching(filters: TranscriptionFilters): AsyncIterable<ExportableTranscription> {
+    const query = buildTranscriptionQuery(filters);
+
+    return Transcription.find(query).sort({ createdAt: -1 }).lean().cursor() as AsyncIterable<ExportableTranscription>;
+  }
+}
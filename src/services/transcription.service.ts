@@ -1,15 +1,85 @@
+import { Types } from 'mongoose';
 import { Transcription, ITranscription } from '../models/Transcription.model';
+import { speechProviders } from '../providers/provider.registry';
+import { AudioIngestionService, AudioSource } from './audio-ingestion.service';
+import { WorkflowService } from './workflow.service';
+import { WorkflowTemplateService } from './workflow-template.service';
+import { WorkflowSchedulerService, workflowScheduler } from './workflow-scheduler.service';
+import {
+  TranscriptionFilters,
+  TranscriptionSortField,
+  buildTranscriptionQuery,
+  buildTranscriptionSort,
+  getTranscriptionKeysetSort
+} from '../utils/transcription-filters';
+import { findCursorPage } from '../utils/cursor-pagination';
+import { eventBus } from '../events/event-bus';
+import { toTranscriptionEventData } from '../events/payloads';
+import { observeTranscription } from '../metrics/metrics';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationFailedError } from '../errors/app-errors';
 
-export interface CreateTranscriptionRequest {
-  audioUrl: string;
+export interface CreateTranscriptionRequest extends AudioSource {
   language?: string;
+  provider?: string;
+  jobId?: string; // Set when run by the job queue
 }
 
+export type NewTranscription = Pick<ITranscription,
+  'audioUrl' | 'uploadId' | 'transcription' | 'confidence' | 'segments' | 'source' | 'language' | 'audioMetadata' | 'createdAt'>;
+
+/**
+ * Store a new transcription. The save of a queue job is idempotent: when the job
+ * runs again (e.g. after its lease expired) the document of the earlier run is
+ * returned instead, with `created: false`.
+ */
+export const saveNewTranscription = async (
+  fields: NewTranscription,
+  jobId?: string
+): Promise<{ transcription: ITranscription; created: boolean }> => {
+  const transcription = new Transcription({ ...fields, jobId });
+
+  if (!jobId) {
+    return { transcription: await transcription.save(), created: true };
+  }
+
+  await transcription.validate();
+  const saved = await Transcription.findOneAndUpdate(
+    { jobId },
+    { $setOnInsert: transcription.toObject() },
+    { upsert: true, new: true }
+  );
+
+  return { transcription: saved, created: saved._id.equals(transcription._id) };
+};
+
 export interface CreateTranscriptionResponse {
   id: string;
   message: string;
 }
 
+export interface UpdateTranscriptionRequest {
+  transcription?: string;
+  language?: string;
+  editedBy?: string;
+  comment?: string;
+}
+
+export interface ListTranscriptionsOptions extends TranscriptionFilters {
+  sortBy?: TranscriptionSortField;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface ListTranscriptionsByCursorOptions extends TranscriptionFilters {
+  sortBy?: TranscriptionSortField;
+  sortOrder?: 'asc' | 'desc';
+  cursor?: string;
+  limit?: number;
+  includeTotal?: boolean;
+}
+
 export interface GetTranscriptionsResponse {
   transcriptions: ITranscription[];
   total: number;
@@ -17,124 +87,66 @@ export interface GetTranscriptionsResponse {
   limit: number;
 }
 
+export interface GetTranscriptionsByCursorResponse {
+  transcriptions: ITranscription[];
+  limit: number;
+  next: string | null;
+  prev: string | null;
+  total?: number;
+}
+
 export class TranscriptionService {
-  /**
-   * Mock audio download - simulates downloading audio file
-   */
-  private async mockAudioDownload(audioUrl: string): Promise<void> {
-    console.log(`🎵 Mocking audio download from: ${audioUrl}`);
-    
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // Simulate potential download failure (5% chance)
-    if (Math.random() < 0.05) {
-      throw new Error('Audio download failed - network timeout');
-    }
-    
-    console.log('✅ Audio download completed successfully');
-  }
+  private audioIngestionService: AudioIngestionService;
+  private workflowService: WorkflowService;
+  private workflowTemplateService: WorkflowTemplateService;
+  private workflowScheduler: WorkflowSchedulerService;
 
-  /**
-   * Generate language-specific mock transcription text
-   */
-  private generateMockTranscription(language: string = 'en-US'): string {
-    const mockTranscriptions: Record<string, string[]> = {
-      'en-US': [
-        "This is a sample transcription text.",
-        "Hello, this is a test audio file being transcribed.",
-        "The quick brown fox jumps over the lazy dog. This is a sample transcription.",
-        "Welcome to the voice transcription service. Your audio has been processed successfully.",
-        "This audio contains sample content for testing the transcription functionality."
-      ],
-      'fr-FR': [
-        "Ceci est un exemple de texte de transcription.",
-        "Bonjour, ceci est un fichier audio de test en cours de transcription.",
-        "Le renard brun rapide saute par-dessus le chien paresseux. Ceci est un exemple de transcription.",
-        "Bienvenue dans le service de transcription vocale. Votre audio a été traité avec succès.",
-        "Cet audio contient un contenu d'exemple pour tester la fonctionnalité de transcription."
-      ],
-      'es-ES': [
-        "Este es un texto de transcripción de muestra.",
-        "Hola, este es un archivo de audio de prueba que se está transcribiendo.",
-        "El zorro marrón rápido salta sobre el perro perezoso. Esta es una transcripción de muestra.",
-        "Bienvenido al servicio de transcripción de voz. Su audio ha sido procesado exitosamente.",
-        "Este audio contiene contenido de muestra para probar la funcionalidad de transcripción."
-      ],
-      'de-DE': [
-        "Dies ist ein Beispiel-Transkriptionstext.",
-        "Hallo, dies ist eine Test-Audiodatei, die transkribiert wird.",
-        "Der schnelle braune Fuchs springt über den faulen Hund. Dies ist eine Beispieltranskription.",
-        "Willkommen beim Sprachtranskriptionsdienst. Ihr Audio wurde erfolgreich verarbeitet.",
-        "Dieses Audio enthält Beispielinhalte zum Testen der Transkriptionsfunktionalität."
-      ],
-      'it-IT': [
-        "Questo è un testo di trascrizione di esempio.",
-        "Ciao, questo è un file audio di test che viene trascritto.",
-        "La volpe marrone veloce salta sopra il cane pigro. Questa è una trascrizione di esempio.",
-        "Benvenuto nel servizio di trascrizione vocale. Il tuo audio è stato elaborato con successo.",
-        "Questo audio contiene contenuti di esempio per testare la funzionalità di trascrizione."
-      ],
-      'pt-BR': [
-        "Este é um texto de transcrição de exemplo.",
-        "Olá, este é um arquivo de áudio de teste sendo transcrito.",
-        "A raposa marrom rápida pula sobre o cão preguiçoso. Esta é uma transcrição de exemplo.",
-        "Bem-vindo ao serviço de transcrição de voz. Seu áudio foi processado com sucesso.",
-        "Este áudio contém conteúdo de exemplo para testar a funcionalidade de transcrição."
-      ],
-      'ja-JP': [
-        "これはサンプルの転写テキストです。",
-        "こんにちは、これは転写されているテストオーディオファイルです。",
-        "素早い茶色のキツネが怠惰な犬の上を跳び越えます。これはサンプルの転写です。",
-        "音声転写サービスへようこそ。あなたのオーディオは正常に処理されました。",
-        "このオーディオには転写機能をテストするためのサンプルコンテンツが含まれています。"
-      ],
-      'ko-KR': [
-        "이것은 샘플 전사 텍스트입니다.",
-        "안녕하세요, 이것은 전사되고 있는 테스트 오디오 파일입니다.",
-        "빠른 갈색 여우가 게으른 개를 뛰어넘습니다. 이것은 샘플 전사입니다.",
-        "음성 전사 서비스에 오신 것을 환영합니다. 귀하의 오디오가 성공적으로 처리되었습니다.",
-        "이 오디오에는 전사 기능을 테스트하기 위한 샘플 콘텐츠가 포함되어 있습니다."
-      ],
-      'zh-CN': [
-        "这是一个示例转录文本。",
-        "你好，这是一个正在被转录的测试音频文件。",
-        "敏捷的棕色狐狸跳过懒惰的狗。这是一个示例转录。",
-        "欢迎来到语音转录服务。您的音频已成功处理。",
-        "此音频包含用于测试转录功能的示例内容。"
-      ]
-    };
-    
-    const transcriptions = mockTranscriptions[language] || mockTranscriptions['en-US'];
-    return transcriptions[Math.floor(Math.random() * transcriptions.length)];
+  constructor() {
+    this.audioIngestionService = new AudioIngestionService();
+    this.workflowService = new WorkflowService();
+    this.workflowTemplateService = new WorkflowTemplateService();
+    this.workflowScheduler = workflowScheduler;
   }
 
   /**
-   * Create a new transcription with mock processing and language support
+   * Create a new transcription using the requested (or default) speech provider
    */
   async createTranscription(request: CreateTranscriptionRequest): Promise<CreateTranscriptionResponse> {
     try {
-      // Step 1: Mock audio download
-      await this.mockAudioDownload(request.audioUrl);
+      const provider = speechProviders.resolve(request.provider);
       
       // Get language or default to en-US
       const language = request.language || 'en-US';
       
-      // Step 2: Generate language-specific mock transcription
-      const transcriptionText = this.generateMockTranscription(language);
-      console.log(`📝 Generated mock transcription (${language}):`, transcriptionText);
-      
-      // Step 3: Save to MongoDB with language
-      const transcription = new Transcription({
-        audioUrl: request.audioUrl,
-        transcription: transcriptionText,
-        source: 'mock',
-        language: language,
-        createdAt: new Date()
+      // Step 1: Download and probe the audio, then transcribe it with the selected provider
+      const saved = await this.audioIngestionService.withIngestedAudio(request, async (audio) => {
+        const result = await observeTranscription(provider.name, language, () => provider.transcribe({
+          audioUrl: request.audioUrl,
+          uploadId: request.uploadId,
+          language,
+          audioFilePath: audio.filePath,
+          audioMetadata: audio.metadata
+        }));
+        
+        // Step 2: Save to MongoDB with provider name as source and the audio metadata
+        return saveNewTranscription({
+          audioUrl: request.audioUrl,
+          uploadId: request.uploadId,
+          transcription: result.text,
+          confidence: result.confidence,
+          segments: result.segments,
+          source: provider.name,
+          language: result.language,
+          audioMetadata: audio.metadata,
+          createdAt: new Date()
+        }, request.jobId);
       });
-      
-      const savedTranscription = await transcription.save();
-      console.log('💾 Transcription saved to MongoDB:', savedTranscription._id);
+      const savedTranscription = saved.transcription;
+
+      if (saved.created) {
+        logger.info('Transcription saved', { transcriptionId: savedTranscription._id });
+        eventBus.publish('transcription.created', toTranscriptionEventData(savedTranscription));
+      }
       
       return {
         id: savedTranscription._id.toString(),
@@ -142,40 +154,45 @@ export class TranscriptionService {
       };
       
     } catch (error) {
-      console.error('❌ Error creating transcription:', error);
+      logger.error('Error creating transcription', { error });
       throw error;
     }
   }
 
   /**
-   * Get transcriptions from the last 30 days
+   * List transcriptions matching the filters. Without a date range this is the
+   * last 30 days; text searches default to relevance order, everything else to newest first.
    */
-  async getRecentTranscriptions(page: number = 1, limit: number = 10): Promise<GetTranscriptionsResponse> {
+  async getTranscriptions(options: ListTranscriptionsOptions = {}): Promise<GetTranscriptionsResponse> {
     try {
-      // Calculate date 30 days ago
-      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-      
-      // Build query for last 30 days
-      const query = { 
-        createdAt: { 
-          $gte: thirtyDaysAgo 
-        } 
-      };
+      const { page = 1, limit = 10, sortOrder = 'desc', ...filters } = options;
+      const sortBy = options.sortBy || (filters.search ? 'relevance' : 'createdAt');
+
+      if (sortBy === 'relevance' && !filters.search) {
+        throw new ValidationFailedError('Sorting by relevance requires a search term', [{ field: 'query.sortBy', message: 'relevance requires a search term' }]);
+      }
+
+      // Keep the 30-day view as the default when no date range is given
+      if (!filters.from && !filters.to) {
+        filters.from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      }
+
+      const query = buildTranscriptionQuery(filters);
+      const projection = filters.search ? { score: { $meta: 'textScore' } } : {};
       
       // Calculate pagination
       const skip = (page - 1) * limit;
       
-      // Execute query with pagination and sorting (most recent first)
       const [transcriptions, total] = await Promise.all([
-        Transcription.find(query)
-          .sort({ createdAt: -1 }) // Sort by most recent first
+        Transcription.find(query, projection)
+          .sort(buildTranscriptionSort(sortBy, sortOrder))
           .skip(skip)
           .limit(limit)
           .lean(), // Use lean() for better performance
         Transcription.countDocuments(query)
       ]);
       
-      console.log(`📊 Found ${transcriptions.length} transcriptions from last 30 days (page ${page})`);
+      logger.debug('Found transcriptions', { count: transcriptions.length, total, page, sortBy, sortOrder });
       
       return {
         transcriptions: transcriptions as ITranscription[],
@@ -185,7 +202,43 @@ export class TranscriptionService {
       };
       
     } catch (error) {
-      console.error('❌ Error fetching recent transcriptions:', error);
+      logger.error('Error fetching transcriptions', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cursor-paginated variant of getTranscriptions: no skip, and counting only on request
+   */
+  async getTranscriptionsByCursor(options: ListTranscriptionsByCursorOptions = {}): Promise<GetTranscriptionsByCursorResponse> {
+    try {
+      const { cursor, limit = 10, includeTotal = false, sortBy = 'createdAt', sortOrder = 'desc', ...filters } = options;
+      const sort = getTranscriptionKeysetSort(sortBy, sortOrder);
+
+      // Keep the 30-day view as the default when no date range is given
+      if (!filters.from && !filters.to) {
+        filters.from = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      }
+
+      const query = buildTranscriptionQuery(filters);
+
+      const [page, total] = await Promise.all([
+        findCursorPage<ITranscription>(Transcription, query, sort, { cursor, limit }),
+        includeTotal ? Transcription.countDocuments(query) : Promise.resolve(undefined)
+      ]);
+
+      logger.debug('Found transcriptions', { count: page.items.length, cursor: true, sortBy, sortOrder });
+
+      return {
+        transcriptions: page.items,
+        limit,
+        next: page.next,
+        prev: page.prev,
+        ...(total !== undefined && { total })
+      };
+
+    } catch (error) {
+      logger.error('Error fetching transcriptions by cursor', { error });
       throw error;
     }
   }
@@ -195,10 +248,128 @@ export class TranscriptionService {
    */
   async getTranscriptionById(id: string): Promise<ITranscription | null> {
     try {
+      if (!Types.ObjectId.isValid(id)) {
+        return null;
+      }
+
       const transcription = await Transcription.findById(id);
       return transcription;
     } catch (error) {
-      console.error('❌ Error fetching transcription by ID:', error);
+      logger.error('Error fetching transcription by ID', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Correct the text and/or language, keeping the previous version as a revision.
+   * Transcriptions whose workflow has reached a terminal state are read-only.
+   */
+  async updateTranscription(id: string, update: UpdateTranscriptionRequest): Promise<ITranscription> {
+    try {
+      const transcription = await this.getTranscriptionById(id);
+
+      if (!transcription) {
+        throw new NotFoundError('Transcription not found');
+      }
+
+      if (transcription.workflowStatus) {
+        const definition = await this.workflowTemplateService.getDefinition(transcription.workflowTemplate);
+        if (this.workflowTemplateService.isTerminalState(definition, transcription.workflowStatus)) {
+          throw new ConflictError(`Cannot edit a transcription in ${transcription.workflowStatus} state`, 'TRANSCRIPTION_LOCKED');
+        }
+      }
+
+      const textChanged = update.transcription !== undefined && update.transcription !== transcription.transcription;
+
+      if (!transcription.revisions) {
+        transcription.revisions = [];
+      }
+
+      transcription.revisions.push({
+        transcription: transcription.transcription,
+        language: transcription.language,
+        confidence: transcription.confidence,
+        segments: textChanged ? transcription.segments : undefined,
+        editedAt: new Date(),
+        editedBy: update.editedBy,
+        comment: update.comment
+      });
+
+      if (textChanged) {
+        // Speaker segments and confidence describe the engine's text, not the correction
+        transcription.transcription = update.transcription as string;
+        transcription.segments = [];
+        transcription.confidence = undefined;
+      }
+      if (update.language !== undefined) {
+        transcription.language = update.language;
+      }
+      transcription.updatedAt = new Date();
+
+      await transcription.save();
+      logger.info('Transcription updated', { transcriptionId: id, revision: transcription.revisions.length });
+
+      return transcription;
+
+    } catch (error) {
+      logger.error('Error updating transcription', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Soft-delete a transcription and cancel any pending workflow progressions
+   */
+  async deleteTranscription(id: string): Promise<ITranscription> {
+    try {
+      const transcription = await this.getTranscriptionById(id);
+
+      if (!transcription) {
+        throw new NotFoundError('Transcription not found');
+      }
+
+      transcription.deletedAt = new Date();
+      transcription.updatedAt = new Date();
+      await transcription.save();
+
+      await this.workflowScheduler.cancelPendingForWorkflow(id);
+      logger.info('Transcription deleted', { transcriptionId: id });
+
+      return transcription;
+
+    } catch (error) {
+      logger.error('Error deleting transcription', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a soft-deleted transcription and resume its workflow where it stopped
+   */
+  async restoreTranscription(id: string): Promise<ITranscription> {
+    try {
+      const transcription = Types.ObjectId.isValid(id)
+        ? await Transcription.findOne({ _id: id, deletedAt: { $ne: null } })
+        : null;
+
+      if (!transcription) {
+        const existing = await this.getTranscriptionById(id);
+        throw existing
+          ? new ConflictError('Transcription is not deleted', 'NOT_DELETED')
+          : new NotFoundError('Transcription not found');
+      }
+
+      transcription.deletedAt = null;
+      transcription.updatedAt = new Date();
+      await transcription.save();
+
+      await this.workflowService.resumeAutoProgression(transcription);
+      logger.info('Transcription restored', { transcriptionId: id });
+
+      return transcription;
+
+    } catch (error) {
+      logger.error('Error restoring transcription', { error });
       throw error;
     }
   }
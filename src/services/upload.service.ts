@@ -0,0 +1,324 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { Upload, IUpload } from '../models/Upload.model';
+import { uploadStorages } from '../storage/storage.registry';
+import {
+  AudioIngestionError,
+  AudioIngestionService,
+  StoredAudioMetadata,
+  isAllowedAudioContentType
+} from './audio-ingestion.service';
+import { logger } from '../utils/logger';
+import { ConflictError, NotFoundError, ValidationFailedError } from '../errors/app-errors';
+
+export interface UploadedFile {
+  path: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+}
+
+export interface CreateResumableUploadRequest {
+  filename: string;
+  sizeBytes: number;
+  contentType?: string;
+}
+
+export interface UploadResponse {
+  id: string;
+  filename: string;
+  contentType?: string;
+  status: string;
+  sizeBytes: number;
+  receivedBytes: number;
+  storage: string;
+  audioMetadata?: StoredAudioMetadata;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Stores audio uploaded directly to the API.
+ *
+ * Small files arrive as a single multipart request. Large recordings use the
+ * resumable protocol: the client declares the total size, then sends chunks
+ * in order with the offset it believes the server has. A failed chunk can be
+ * re-sent from the last acknowledged offset.
+ */
+export class UploadService {
+  private audioIngestionService: AudioIngestionService;
+
+  constructor() {
+    this.audioIngestionService = new AudioIngestionService();
+  }
+
+  /**
+   * Store a file received as multipart form data. The temporary file is always removed.
+   */
+  async createFromFile(file: UploadedFile): Promise<UploadResponse> {
+    try {
+      const audio = await this.audioIngestionService.ingestFile({
+        filePath: file.path,
+        sizeBytes: file.size,
+        contentType: file.mimetype
+      });
+
+      try {
+        const storage = uploadStorages.resolve();
+        const storageKey = randomUUID();
+        await storage.write(storageKey, createReadStream(file.path));
+
+        const upload = await Upload.create({
+          filename: file.originalname,
+          contentType: file.mimetype,
+          status: 'completed',
+          sizeBytes: file.size,
+          receivedBytes: file.size,
+          storage: storage.name,
+          storageKey,
+          audioMetadata: audio.metadata,
+          createdAt: new Date(),
+          completedAt: new Date()
+        });
+
+        logger.info('Upload stored', { uploadId: upload._id, sizeBytes: file.size, storage: storage.name });
+        return this.formatUploadResponse(upload);
+
+      } finally {
+        await this.audioIngestionService.release(audio);
+      }
+
+    } catch (error) {
+      logger.error('Error storing uploaded file', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Start a resumable upload of a file of known size
+   */
+  async createResumableUpload(request: CreateResumableUploadRequest): Promise<UploadResponse> {
+    try {
+      if (request.sizeBytes > config.AUDIO_MAX_BYTES) {
+        throw new AudioIngestionError(`Audio exceeds the maximum size of ${config.AUDIO_MAX_BYTES} bytes`, 'AUDIO_TOO_LARGE');
+      }
+
+      const contentType = request.contentType?.toLowerCase();
+      if (contentType && !isAllowedAudioContentType(contentType)) {
+        throw new AudioIngestionError(`Unsupported content type: ${contentType}`, 'UNSUPPORTED_CONTENT_TYPE');
+      }
+
+      const storage = uploadStorages.resolve();
+
+      const upload = await Upload.create({
+        filename: request.filename,
+        contentType,
+        status: 'pending',
+        sizeBytes: request.sizeBytes,
+        receivedBytes: 0,
+        storage: storage.name,
+        storageKey: randomUUID(),
+        createdAt: new Date()
+      });
+
+      logger.info('Resumable upload started', { uploadId: upload._id, sizeBytes: request.sizeBytes });
+      return this.formatUploadResponse(upload);
+
+    } catch (error) {
+      logger.error('Error starting resumable upload', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Append a chunk at `offset`. The upload is probed and completed once every byte has arrived.
+   */
+  async appendChunk(id: string, offset: number, data: Readable, chunkLength?: number): Promise<UploadResponse> {
+    const upload = await this.findUpload(id);
+
+    if (upload.status === 'completed') {
+      data.resume();
+      throw new ConflictError('Upload is already complete', 'UPLOAD_COMPLETE');
+    }
+
+    // Reject oversized chunks before reading them when the length is declared
+    if (chunkLength !== undefined && offset + chunkLength > upload.sizeBytes) {
+      data.resume();
+      throw new ValidationFailedError(`Upload chunk exceeds the declared size: ${upload.sizeBytes - offset} bytes remaining`, [], 'CHUNK_TOO_LARGE');
+    }
+
+    // Only one chunk may be written at a time, and only at the current offset
+    const now = new Date();
+    const locked = await Upload.findOneAndUpdate(
+      {
+        _id: upload._id,
+        status: 'pending',
+        receivedBytes: offset,
+        $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lt: now } }]
+      },
+      { $set: { lockedUntil: new Date(now.getTime() + config.JOB_LEASE_MS) } },
+      { new: true }
+    );
+
+    if (!locked) {
+      data.resume();
+      throw new ConflictError(`Upload offset conflict: expected offset ${upload.receivedBytes} with no chunk in progress`, 'OFFSET_CONFLICT');
+    }
+
+    // Stage the chunk so an aborted request never leaves partial data in storage
+    const stagedPath = path.join(config.AUDIO_TEMP_DIR, randomUUID());
+
+    try {
+      const chunkBytes = await this.stageChunk(data, stagedPath, locked.sizeBytes - offset);
+
+      if (chunkBytes === 0) {
+        throw new ValidationFailedError('Upload chunk is empty', [], 'EMPTY_CHUNK');
+      }
+
+      const storage = uploadStorages.get(locked.storage);
+      await storage.append(locked.storageKey, offset, createReadStream(stagedPath));
+
+      locked.receivedBytes = offset + chunkBytes;
+      locked.lockedUntil = undefined;
+      locked.updatedAt = new Date();
+      await locked.save();
+
+      if (locked.receivedBytes === locked.sizeBytes) {
+        await this.complete(locked);
+      }
+
+      logger.debug('Upload chunk received', { uploadId: locked._id, receivedBytes: locked.receivedBytes, sizeBytes: locked.sizeBytes });
+      return this.formatUploadResponse(locked);
+
+    } catch (error) {
+      // Release the lock so the client can retry from the last acknowledged offset
+      await Upload.updateOne({ _id: locked._id, status: 'pending' }, { $unset: { lockedUntil: '' } });
+      logger.error('Error appending upload chunk', { error });
+      throw error;
+
+    } finally {
+      await fs.rm(stagedPath, { force: true });
+    }
+  }
+
+  /**
+   * Get upload by ID
+   */
+  async getUpload(id: string): Promise<UploadResponse> {
+    try {
+      return this.formatUploadResponse(await this.findUpload(id));
+    } catch (error) {
+      logger.error('Error fetching upload', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Ensure an upload can be transcribed
+   */
+  async getCompletedUpload(id: string): Promise<UploadResponse> {
+    const upload = await this.findUpload(id);
+
+    if (upload.status !== 'completed') {
+      throw new ConflictError('Upload is not complete', 'UPLOAD_INCOMPLETE');
+    }
+
+    return this.formatUploadResponse(upload);
+  }
+
+  /**
+   * Delete an upload and its stored file
+   */
+  async deleteUpload(id: string): Promise<void> {
+    try {
+      const upload = await this.findUpload(id);
+
+      await uploadStorages.get(upload.storage).remove(upload.storageKey);
+      await upload.deleteOne();
+
+      logger.info('Upload deleted', { uploadId: id });
+    } catch (error) {
+      logger.error('Error deleting upload', { error });
+      throw error;
+    }
+  }
+
+  private async findUpload(id: string): Promise<IUpload> {
+    const upload = Types.ObjectId.isValid(id) ? await Upload.findById(id) : null;
+
+    if (!upload) {
+      throw new NotFoundError('Upload not found');
+    }
+
+    return upload;
+  }
+
+  /**
+   * Probe the assembled file. Uploads that are not usable audio are discarded.
+   */
+  private async complete(upload: IUpload): Promise<void> {
+    const storage = uploadStorages.get(upload.storage);
+
+    try {
+      const audio = await this.audioIngestionService.ingestStream(await storage.read(upload.storageKey), upload.contentType);
+      await this.audioIngestionService.release(audio);
+
+      upload.status = 'completed';
+      upload.audioMetadata = audio.metadata;
+      upload.completedAt = new Date();
+      await upload.save();
+
+    } catch (error) {
+      if (error instanceof AudioIngestionError) {
+        await storage.remove(upload.storageKey);
+        await upload.deleteOne();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write a chunk to a temporary file, rejecting chunks that run past the declared size
+   */
+  private async stageChunk(data: Readable, stagedPath: string, remainingBytes: number): Promise<number> {
+    await fs.mkdir(config.AUDIO_TEMP_DIR, { recursive: true });
+
+    let chunkBytes = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        chunkBytes += chunk.length;
+        if (chunkBytes > remainingBytes) {
+          callback(new ValidationFailedError(`Upload chunk exceeds the declared size: ${remainingBytes} bytes remaining`, [], 'CHUNK_TOO_LARGE'));
+          return;
+        }
+        callback(null, chunk);
+      }
+    });
+
+    await pipeline(data, limiter, createWriteStream(stagedPath));
+    return chunkBytes;
+  }
+
+  /**
+   * Format upload response
+   */
+  private formatUploadResponse(upload: IUpload): UploadResponse {
+    return {
+      id: upload._id.toString(),
+      filename: upload.filename,
+      contentType: upload.contentType,
+      status: upload.status,
+      sizeBytes: upload.sizeBytes,
+      receivedBytes: upload.receivedBytes,
+      storage: upload.storage,
+      audioMetadata: upload.audioMetadata,
+      createdAt: upload.createdAt,
+      completedAt: upload.completedAt
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { Tenant } from '../models/Tenant.model';
+import { Usage } from '../models/Usage.model';
+import { Plan, PLANS, getPlan } from '../config/plans';
+import { logger } from '../utils/logger';
+import { ValidationFailedError } from '../errors/app-errors';
+
+const PLAN_CACHE_TTL_MS = 60 * 1000; // Plan changes reach other instances within a minute
+
+export interface RateLimitUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  windowMs: number;
+  resetsAt: Date | null;
+}
+
+export interface AudioQuotaStatus {
+  usedMinutes: number;
+  limitMinutes: number | null; // null means unlimited
+  remainingMinutes: number | null;
+  exceeded: boolean;
+  resetsAt: Date;
+}
+
+export interface UsageResponse {
+  tenantId: string;
+  plan: string;
+  period: {
+    start: Date;
+    end: Date;
+  };
+  audio: AudioQuotaStatus;
+  transcriptions: number;
+  rateLimits?: Record<string, RateLimitUsage>;
+}
+
+/**
+ * Calendar month (UTC) the usage counters are kept for
+ */
+const getPeriod = (date: Date = new Date()): { key: string; start: Date; end: Date } => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  return { key: start.toISOString().slice(0, 7), start, end };
+};
+
+const toMinutes = (seconds: number): number => Math.round((seconds / 60) * 100) / 100;
+
+/**
+ * Tenant plans and metered monthly consumption
+ */
+export class UsageService {
+  private static planCache = new Map<string, { plan: Plan; expiresAt: number }>();
+
+  /**
+   * Plan of a tenant; tenants without an assigned plan are on DEFAULT_PLAN
+   */
+  async getPlan(tenantId: string): Promise<Plan> {
+    const cached = UsageService.planCache.get(tenantId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.plan;
+    }
+
+    const tenant = await Tenant.findOne({ tenantId }).lean();
+    const plan = getPlan(tenant?.plan);
+
+    UsageService.planCache.set(tenantId, { plan, expiresAt: Date.now() + PLAN_CACHE_TTL_MS });
+    return plan;
+  }
+
+  /**
+   * Assign a plan to a tenant
+   */
+  async setPlan(tenantId: string, planName: string): Promise<Plan> {
+    try {
+      const plan = PLANS[planName];
+
+      if (!plan) {
+        throw new ValidationFailedError(`Unknown plan: ${planName}. Available plans: ${Object.keys(PLANS).join(', ')}`, [
+          { field: 'body.plan', message: `must be one of: ${Object.keys(PLANS).join(', ')}` }
+        ]);
+      }
+
+      await Tenant.updateOne(
+        { tenantId },
+        { $set: { plan: plan.name, updatedAt: new Date() }, $setOnInsert: { tenantId, createdAt: new Date() } },
+        { upsert: true }
+      );
+      UsageService.planCache.delete(tenantId);
+
+      logger.info('Tenant plan changed', { tenantId, plan: plan.name });
+      return plan;
+
+    } catch (error) {
+      logger.error('Error setting tenant plan', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Add transcribed audio to the tenant's usage for the current month
+   */
+  async recordAudio(tenantId: string, durationSeconds: number = 0): Promise<void> {
+    await Usage.updateOne(
+      { tenantId, period: getPeriod().key },
+      { $inc: { audioSeconds: durationSeconds, transcriptions: 1 }, $set: { updatedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  /**
+   * Audio minutes used this month against the tenant's plan
+   */
+  async getAudioQuota(tenantId: string): Promise<AudioQuotaStatus> {
+    const period = getPeriod();
+    const [plan, usage] = await Promise.all([
+      this.getPlan(tenantId),
+      Usage.findOne({ tenantId, period: period.key }).lean()
+    ]);
+
+    const usedMinutes = toMinutes(usage?.audioSeconds || 0);
+    const limitMinutes = plan.monthlyAudioMinutes;
+
+    return {
+      usedMinutes,
+      limitMinutes,
+      remainingMinutes: limitMinutes === null ? null : Math.max(0, Math.round((limitMinutes - usedMinutes) * 100) / 100),
+      exceeded: limitMinutes !== null && usedMinutes >= limitMinutes,
+      resetsAt: period.end
+    };
+  }
+
+  /**
+   * Consumption report for a tenant for the current month
+   */
+  async getUsage(tenantId: string): Promise<UsageResponse> {
+    try {
+      const period = getPeriod();
+      const [plan, audio, usage] = await Promise.all([
+        this.getPlan(tenantId),
+        this.getAudioQuota(tenantId),
+        Usage.findOne({ tenantId, period: period.key }).lean()
+      ]);
+
+      return {
+        tenantId,
+        plan: plan.name,
+        period: {
+          start: period.start,
+          end: period.end
+        },
+        audio,
+        transcriptions: usage?.transcriptions || 0
+      };
+
+    } catch (error) {
+      logger.error('Error getting usage', { error });
+      throw error;
+    }
+  }
+}
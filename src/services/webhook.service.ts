@@ -0,0 +1,389 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { WebhookSubscription, IWebhookSubscription } from '../models/WebhookSubscription.model';
+import { WebhookDelivery, IWebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryStatus } from '../models/WebhookDelivery.model';
+import { eventBus, DomainEvent, DomainEventType } from '../events/event-bus';
+import { toEventPayload } from '../events/payloads';
+import { jobQueue } from './job-queue.service';
+import { calculateBackoffDelay } from '../utils/retry';
+import { isPublicUrl } from '../utils/address-guard';
+import { runWithTenant } from '../utils/tenant-context';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationFailedError } from '../errors/app-errors';
+
+export const WEBHOOK_DELIVERY_JOB = 'webhook-delivery';
+
+const MAX_RESPONSE_BODY = 1024;
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: DomainEventType[];
+  description?: string;
+  secret?: string;
+}
+
+export interface WebhookResponse {
+  id: string;
+  url: string;
+  events: string[];
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+}
+
+export interface CreatedWebhookResponse extends WebhookResponse {
+  secret: string; // Only returned when the subscription is created
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  maxAttempts: number;
+  nextAttemptAt?: Date;
+  replayOf?: string;
+  payload: Record<string, any>;
+  createdAt: Date;
+}
+
+/**
+ * Raised for a failed delivery attempt. Client errors other than 408/429 are
+ * not retried since sending the same payload again will not change the answer.
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'WebhookDeliveryError';
+  }
+}
+
+/**
+ * Signature of a payload: hex HMAC-SHA256 of `<timestamp>.<body>` with the subscription secret
+ */
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Webhook subscriptions and their delivery log. Every matching event becomes a
+ * delivery that is sent by the job queue, so failed attempts are retried with
+ * the queue's exponential backoff and survive restarts.
+ */
+export class WebhookService {
+  /**
+   * Subscribe a URL to event types. The URL must resolve to a public address.
+   */
+  async createSubscription(request: CreateWebhookRequest): Promise<CreatedWebhookResponse> {
+    try {
+      if (!await isPublicUrl(new URL(request.url)).catch(() => false)) {
+        const message = `url host ${new URL(request.url).hostname} must resolve to a public address`;
+        throw new ValidationFailedError(message, [{ field: 'body.url', message }]);
+      }
+
+      const subscription = await WebhookSubscription.create({
+        url: request.url,
+        events: Array.from(new Set(request.events)),
+        description: request.description,
+        secret: request.secret || `whsec_${crypto.randomBytes(24).toString('base64url')}`,
+        createdAt: new Date()
+      });
+
+      logger.info('Webhook subscribed', { webhookId: subscription._id, events: subscription.events });
+      return { ...this.formatSubscriptionResponse(subscription), secret: subscription.secret };
+
+    } catch (error) {
+      logger.error('Error creating webhook', { error });
+      throw error;
+    }
+  }
+
+  async listSubscriptions(): Promise<WebhookResponse[]> {
+    try {
+      const subscriptions = await WebhookSubscription.find().sort({ createdAt: -1 });
+      return subscriptions.map(subscription => this.formatSubscriptionResponse(subscription));
+
+    } catch (error) {
+      logger.error('Error listing webhooks', { error });
+      throw error;
+    }
+  }
+
+  async getSubscription(id: string): Promise<WebhookResponse> {
+    try {
+      return this.formatSubscriptionResponse(await this.findSubscription(id));
+
+    } catch (error) {
+      logger.error('Error fetching webhook', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a subscription. Its delivery log is kept; pending deliveries are dropped.
+   */
+  async deleteSubscription(id: string): Promise<void> {
+    try {
+      const subscription = await this.findSubscription(id);
+      await subscription.deleteOne();
+
+      logger.info('Webhook deleted', { webhookId: id });
+
+    } catch (error) {
+      logger.error('Error deleting webhook', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  async listDeliveries(subscriptionId: string, status?: WebhookDeliveryStatus, limit: number = 20): Promise<WebhookDeliveryResponse[]> {
+    try {
+      const subscription = await this.findSubscription(subscriptionId);
+      const query: any = { subscription: subscription._id };
+
+      if (status) {
+        query.status = status;
+      }
+
+      const deliveries = await WebhookDelivery.find(query).sort({ createdAt: -1, _id: -1 }).limit(limit);
+      return deliveries.map(delivery => this.formatDeliveryResponse(delivery));
+
+    } catch (error) {
+      logger.error('Error listing webhook deliveries', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a logged event again as a new delivery (with fresh attempts)
+   */
+  async replayDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDeliveryResponse> {
+    try {
+      const subscription = await this.findSubscription(subscriptionId);
+      const original = Types.ObjectId.isValid(deliveryId)
+        ? await WebhookDelivery.findOne({ _id: deliveryId, subscription: subscription._id })
+        : null;
+
+      if (!original) {
+        throw new NotFoundError('Webhook delivery not found');
+      }
+
+      const replay = await this.createDelivery(subscription, {
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload,
+        replayOf: original._id as Types.ObjectId
+      });
+
+      logger.info('Webhook delivery replayed', { deliveryId: original._id, replayId: replay._id });
+      return this.formatDeliveryResponse(replay);
+
+    } catch (error) {
+      logger.error('Error replaying webhook delivery', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a delivery for every active subscription of the event's tenant that wants it
+   */
+  async dispatch(event: DomainEvent): Promise<void> {
+    await runWithTenant(event.tenantId, async () => {
+      const subscriptions = await WebhookSubscription.find({ active: true, events: event.type });
+
+      for (const subscription of subscriptions) {
+        await this.createDelivery(subscription, {
+          eventId: event.id,
+          eventType: event.type,
+          payload: toEventPayload(event)
+        });
+      }
+    });
+  }
+
+  /**
+   * Make one delivery attempt (job handler). Throws WebhookDeliveryError when the
+   * attempt failed so the job queue schedules the next one.
+   */
+  async deliver(deliveryId: string): Promise<{ status: WebhookDeliveryStatus }> {
+    const delivery = await WebhookDelivery.findById(deliveryId);
+
+    if (!delivery || delivery.status !== 'pending') {
+      return { status: delivery?.status || 'failed' };
+    }
+
+    const subscription = await WebhookSubscription.findById(delivery.subscription);
+
+    if (!subscription || !subscription.active) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      delivery.attempts.push({ attemptedAt: new Date(), error: 'Webhook subscription no longer exists', durationMs: 0 });
+      delivery.updatedAt = new Date();
+      await delivery.save();
+      return { status: delivery.status };
+    }
+
+    const { attempt, retryable } = await this.send(subscription, delivery);
+    delivery.attempts.push(attempt);
+    delivery.updatedAt = new Date();
+
+    const succeeded = attempt.statusCode !== undefined && attempt.statusCode >= 200 && attempt.statusCode < 300;
+    const exhausted = !retryable || delivery.attempts.length >= delivery.maxAttempts;
+
+    if (succeeded) {
+      delivery.status = 'succeeded';
+      delivery.nextAttemptAt = undefined;
+    } else if (exhausted) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+    } else {
+      // Mirrors the job queue's backoff so the log shows when the retry is due
+      const delay = calculateBackoffDelay(delivery.attempts.length, config.JOB_RETRY_BASE_DELAY_MS, config.JOB_LEASE_MS);
+      delivery.nextAttemptAt = new Date(Date.now() + delay);
+    }
+
+    await delivery.save();
+
+    if (!succeeded) {
+      throw new WebhookDeliveryError(
+        `Webhook delivery ${delivery._id} to ${subscription.url} failed: ${attempt.error || `HTTP ${attempt.statusCode}`}`,
+        retryable
+      );
+    }
+
+    logger.info('Webhook delivery succeeded', { deliveryId: delivery._id, eventType: delivery.eventType });
+    return { status: delivery.status };
+  }
+
+  /**
+   * POST the signed payload to the subscription URL
+   */
+  private async send(
+    subscription: IWebhookSubscription,
+    delivery: IWebhookDelivery
+  ): Promise<{ attempt: WebhookDeliveryAttempt; retryable: boolean }> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = new Date();
+
+    try {
+      // Checked again on every attempt since the host may have been re-pointed after
+      // registration; a failed lookup is retried like any other network error
+      if (!await isPublicUrl(new URL(subscription.url))) {
+        return {
+          attempt: { attemptedAt: startedAt, error: 'URL resolves to a private or local address', durationMs: Date.now() - startedAt.getTime() },
+          retryable: false
+        };
+      }
+
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'VoiceOwl-Webhooks/1.0',
+          'X-Webhook-Id': delivery._id.toString(),
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`
+        },
+        body,
+        redirect: 'manual', // A redirect is treated as a failed delivery, not followed
+        signal: AbortSignal.timeout(config.WEBHOOK_TIMEOUT_MS)
+      });
+
+      const responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+
+      return {
+        attempt: {
+          attemptedAt: startedAt,
+          statusCode: response.status,
+          responseBody: responseBody || undefined,
+          durationMs: Date.now() - startedAt.getTime()
+        },
+        retryable: response.status >= 500 || response.status === 408 || response.status === 429
+      };
+
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      // fetch reports network failures as "fetch failed" with the reason as the cause
+      const cause = (error as { cause?: unknown }).cause;
+      const reason = cause instanceof Error ? cause : error;
+
+      return {
+        attempt: {
+          attemptedAt: startedAt,
+          error: timedOut ? `Timed out after ${config.WEBHOOK_TIMEOUT_MS}ms` : reason instanceof Error ? reason.message : String(reason),
+          durationMs: Date.now() - startedAt.getTime()
+        },
+        retryable: true
+      };
+    }
+  }
+
+  private async createDelivery(
+    subscription: IWebhookSubscription,
+    delivery: Pick<IWebhookDelivery, 'eventId' | 'eventType' | 'payload' | 'replayOf'>
+  ): Promise<IWebhookDelivery> {
+    const created = await WebhookDelivery.create({
+      ...delivery,
+      subscription: subscription._id,
+      status: 'pending',
+      attempts: [],
+      maxAttempts: config.WEBHOOK_MAX_ATTEMPTS,
+      nextAttemptAt: new Date(),
+      createdAt: new Date()
+    });
+
+    await jobQueue.enqueue(WEBHOOK_DELIVERY_JOB, { deliveryId: created._id.toString() }, {
+      maxAttempts: config.WEBHOOK_MAX_ATTEMPTS
+    });
+
+    return created;
+  }
+
+  private async findSubscription(id: string): Promise<IWebhookSubscription> {
+    const subscription = Types.ObjectId.isValid(id) ? await WebhookSubscription.findById(id) : null;
+
+    if (!subscription) {
+      throw new NotFoundError('Webhook not found');
+    }
+
+    return subscription;
+  }
+
+  private formatSubscriptionResponse(subscription: IWebhookSubscription): WebhookResponse {
+    return {
+      id: subscription._id.toString(),
+      url: subscription.url,
+      events: subscription.events,
+      description: subscription.description,
+      active: subscription.active,
+      createdAt: subscription.createdAt
+    };
+  }
+
+  private formatDeliveryResponse(delivery: IWebhookDelivery): WebhookDeliveryResponse {
+    return {
+      id: delivery._id.toString(),
+      subscriptionId: delivery.subscription.toString(),
+      eventId: delivery.eventId,
+      eventType: delivery.eventType,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      maxAttempts: delivery.maxAttempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      replayOf: delivery.replayOf?.toString(),
+      payload: delivery.payload,
+      createdAt: delivery.createdAt
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
+
+// Fan every published event out to the subscriptions that want it
+eventBus.subscribe(event => webhookService.dispatch(event));
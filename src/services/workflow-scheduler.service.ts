@@ -0,0 +1,208 @@
+import { Types } from 'mongoose';
+import { config } from '../config/env';
+import { ScheduledTransition, IScheduledTransition } from '../models/ScheduledTransition.model';
+import { logger } from '../utils/logger';
+import { getRequestId } from '../utils/request-context';
+import { ConflictError, NotFoundError } from '../errors/app-errors';
+
+export interface ScheduleTransitionRequest {
+  transcriptionId: string;
+  fromStatus: string;
+  toStatus: string;
+  delayMs: number;
+  comment?: string;
+}
+
+export interface ScheduledTransitionResponse {
+  id: string;
+  workflowId: string;
+  fromStatus: string;
+  toStatus: string;
+  comment?: string;
+  dueAt: Date;
+  status: string;
+  attempts: number;
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Stores workflow auto-progressions in MongoDB so they survive restarts.
+ *
+ * Due transitions are claimed with a lease (like jobs in the job queue), so
+ * only one instance applies each transition even with several replicas polling.
+ */
+export class WorkflowSchedulerService {
+  private readonly maxAttempts = 3;
+
+  /**
+   * Schedule an automatic transition. Scheduling the same state twice is a no-op.
+   */
+  async schedule(request: ScheduleTransitionRequest): Promise<IScheduledTransition | null> {
+    try {
+      const scheduled = await ScheduledTransition.create({
+        transcriptionId: new Types.ObjectId(request.transcriptionId),
+        fromStatus: request.fromStatus,
+        toStatus: request.toStatus,
+        comment: request.comment,
+        dueAt: new Date(Date.now() + request.delayMs),
+        status: 'pending',
+        requestId: getRequestId(),
+        createdAt: new Date()
+      });
+
+      logger.info('Workflow transition scheduled', { workflowId: request.transcriptionId, fromStatus: request.fromStatus, toStatus: request.toStatus, delayMs: request.delayMs });
+      return scheduled;
+
+    } catch (error: any) {
+      // Duplicate key: another request already scheduled this transition
+      if (error?.code === 11000) {
+        return null;
+      }
+      logger.error('Error scheduling workflow transition', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically claim the next due transition for this worker
+   */
+  async claimNext(workerId: string): Promise<IScheduledTransition | null> {
+    const now = new Date();
+
+    return ScheduledTransition.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending', dueAt: { $lte: now } },
+          { status: 'processing', lockedUntil: { $lt: now } }
+        ]
+      },
+      {
+        $set: {
+          status: 'processing',
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + config.WORKFLOW_SCHEDULER_LEASE_MS),
+          updatedAt: now
+        },
+        $inc: { attempts: 1 }
+      },
+      { sort: { dueAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Record the outcome of a claimed transition (only if this worker still holds the lease)
+   */
+  async complete(scheduled: IScheduledTransition, workerId: string, outcome: 'completed' | 'skipped'): Promise<void> {
+    await ScheduledTransition.updateOne(
+      { _id: scheduled._id, lockedBy: workerId },
+      {
+        $set: { status: outcome, completedAt: new Date(), updatedAt: new Date() },
+        $unset: { lockedBy: '', lockedUntil: '' }
+      }
+    );
+  }
+
+  /**
+   * Put a failed transition back for another attempt, or mark it failed when out of attempts
+   */
+  async fail(scheduled: IScheduledTransition, workerId: string, error: Error): Promise<void> {
+    const exhausted = scheduled.attempts >= this.maxAttempts;
+
+    await ScheduledTransition.updateOne(
+      { _id: scheduled._id, lockedBy: workerId },
+      {
+        $set: exhausted
+          ? { status: 'failed', error: error.message, completedAt: new Date(), updatedAt: new Date() }
+          : { status: 'pending', error: error.message, dueAt: new Date(Date.now() + config.WORKFLOW_SCHEDULER_POLL_INTERVAL_MS), updatedAt: new Date() },
+        $unset: { lockedBy: '', lockedUntil: '' }
+      }
+    );
+  }
+
+  /**
+   * List scheduled transitions for a workflow (pending only unless includeAll is set)
+   */
+  async listForWorkflow(transcriptionId: string, includeAll: boolean = false): Promise<ScheduledTransitionResponse[]> {
+    try {
+      const query: any = { transcriptionId: new Types.ObjectId(transcriptionId) };
+
+      if (!includeAll) {
+        query.status = 'pending';
+      }
+
+      const scheduled = await ScheduledTransition.find(query).sort({ dueAt: 1 });
+      return scheduled.map(item => this.formatScheduledResponse(item));
+
+    } catch (error) {
+      logger.error('Error listing scheduled transitions', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a single pending transition
+   */
+  async cancel(transcriptionId: string, scheduleId: string): Promise<ScheduledTransitionResponse> {
+    try {
+      const scheduled = Types.ObjectId.isValid(scheduleId)
+        ? await ScheduledTransition.findOne({ _id: scheduleId, transcriptionId: new Types.ObjectId(transcriptionId) })
+        : null;
+
+      if (!scheduled) {
+        throw new NotFoundError('Scheduled transition not found');
+      }
+
+      const cancelled = await ScheduledTransition.findOneAndUpdate(
+        { _id: scheduled._id, status: 'pending' },
+        { $set: { status: 'cancelled', completedAt: new Date(), updatedAt: new Date() } },
+        { new: true }
+      );
+
+      if (!cancelled) {
+        throw new ConflictError(`Scheduled transition is ${scheduled.status} and cannot be cancelled`, 'SCHEDULE_NOT_PENDING');
+      }
+
+      logger.info('Scheduled transition cancelled', { workflowId: transcriptionId, scheduleId });
+      return this.formatScheduledResponse(cancelled);
+
+    } catch (error) {
+      logger.error('Error cancelling scheduled transition', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel every pending transition of a workflow (used when its state changes)
+   */
+  async cancelPendingForWorkflow(transcriptionId: string): Promise<number> {
+    const result = await ScheduledTransition.updateMany(
+      { transcriptionId: new Types.ObjectId(transcriptionId), status: 'pending' },
+      { $set: { status: 'cancelled', completedAt: new Date(), updatedAt: new Date() } }
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Format scheduled transition response
+   */
+  private formatScheduledResponse(scheduled: IScheduledTransition): ScheduledTransitionResponse {
+    return {
+      id: scheduled._id.toString(),
+      workflowId: scheduled.transcriptionId.toString(),
+      fromStatus: scheduled.fromStatus,
+      toStatus: scheduled.toStatus,
+      comment: scheduled.comment,
+      dueAt: scheduled.dueAt,
+      status: scheduled.status,
+      attempts: scheduled.attempts,
+      error: scheduled.error,
+      createdAt: scheduled.createdAt,
+      completedAt: scheduled.completedAt
+    };
+  }
+}
+
+export const workflowScheduler = new WorkflowSchedulerService();
@@ -0,0 +1,450 @@
+import { Types } from 'mongoose';
+import {
+  WorkflowTemplate,
+  IWorkflowTemplate,
+  WorkflowStateDefinition,
+  WorkflowTransitionDefinition
+} from '../models/WorkflowTemplate.model';
+import { Role, isRole } from '../utils/roles';
+import { getCurrentTenantId, DEFAULT_TENANT_ID } from '../utils/tenant-context';
+import { logger } from '../utils/logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationFailedError } from '../errors/app-errors';
+
+export interface WorkflowTemplateInput {
+  name: string;
+  description?: string;
+  initialState: string;
+  states: WorkflowStateDefinition[];
+  transitions: WorkflowTransitionDefinition[];
+  startRoles?: Role[]; // Roles that may start workflows from the template; only admins when empty
+}
+
+export interface WorkflowDefinition extends WorkflowTemplateInput {
+  templateId: string;
+  version: number;
+}
+
+export interface WorkflowTemplateResponse extends WorkflowDefinition {
+  id: string;
+  builtIn: boolean;
+  archived: boolean;
+  createdAt?: Date;
+}
+
+export interface WorkflowTemplateRef {
+  templateId: string;
+  version: number;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+// Definitions are cached per tenant, as templates are tenant-scoped
+const definitionCacheKey = (tenantId: string, ref: WorkflowTemplateRef): string =>
+  `${tenantId}/${ref.templateId}@${ref.version}`;
+
+/**
+ * Built-in transcription → review → approval → completed pipeline.
+ * Used when POST /workflow has no templateId and for workflows created before templates existed.
+ */
+export const DEFAULT_WORKFLOW_TEMPLATE: WorkflowDefinition = {
+  templateId: DEFAULT_TEMPLATE_ID,
+  version: 1,
+  name: 'Default transcription workflow',
+  description: 'Transcription followed by review, approval and completion',
+  initialState: 'transcription',
+  states: [
+    { name: 'transcription', autoProgress: { to: 'review', afterMs: 2000, comment: 'Auto-progressed to review phase' } },
+    { name: 'review', autoProgress: { to: 'approval', afterMs: 3000, comment: 'Auto-progressed to approval phase' } },
+    { name: 'approval', autoProgress: { to: 'completed', afterMs: 5000, comment: 'Auto-completed workflow' } },
+    { name: 'completed', terminal: true },
+    { name: 'rejected' }
+  ],
+  transitions: [
+    { from: 'transcription', to: 'review', roles: ['transcriber'] },
+    { from: 'transcription', to: 'rejected', roles: ['reviewer'] },
+    { from: 'review', to: 'approval', roles: ['reviewer'] },
+    { from: 'review', to: 'rejected', roles: ['reviewer'] },
+    { from: 'review', to: 'transcription', roles: ['reviewer'] }, // Allow back to transcription for revisions
+    // Four-eyes: whoever moved the workflow through review cannot also decide it
+    { from: 'approval', to: 'completed', roles: ['approver'], fourEyes: true },
+    { from: 'approval', to: 'rejected', roles: ['approver'], fourEyes: true },
+    { from: 'rejected', to: 'transcription', roles: ['transcriber'] } // Allow restart from transcription
+  ]
+};
+
+export class WorkflowTemplateService {
+  // Template versions are immutable, so resolved definitions can be cached indefinitely
+  private static definitionCache = new Map<string, WorkflowDefinition>();
+
+  /**
+   * Create a new workflow template (version 1)
+   */
+  async createTemplate(input: WorkflowTemplateInput): Promise<WorkflowTemplateResponse> {
+    try {
+      this.validateDefinition(input);
+
+      const template = await WorkflowTemplate.create({
+        ...this.pickDefinition(input),
+        templateId: new Types.ObjectId().toString(),
+        version: 1,
+        isLatest: true,
+        createdAt: new Date()
+      });
+
+      logger.info('Workflow template created', { templateId: template.templateId, name: template.name });
+      return this.formatTemplateResponse(template);
+
+    } catch (error) {
+      logger.error('Error creating workflow template', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * List the latest version of every active template, including the built-in default
+   */
+  async listTemplates(): Promise<WorkflowTemplateResponse[]> {
+    try {
+      const templates = await WorkflowTemplate.find({ isLatest: true, archived: false }).sort({ createdAt: -1 });
+
+      return [
+        this.formatBuiltInResponse(),
+        ...templates.map(template => this.formatTemplateResponse(template))
+      ];
+
+    } catch (error) {
+      logger.error('Error listing workflow templates', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a template by ID (latest version unless a version is given)
+   */
+  async getTemplate(templateId: string, version?: number): Promise<WorkflowTemplateResponse> {
+    try {
+      if (templateId === DEFAULT_TEMPLATE_ID) {
+        if (version && version !== DEFAULT_WORKFLOW_TEMPLATE.version) {
+          throw new NotFoundError('Workflow template not found');
+        }
+        return this.formatBuiltInResponse();
+      }
+
+      const template = await WorkflowTemplate.findOne(
+        version ? { templateId, version } : { templateId, isLatest: true }
+      );
+
+      if (!template) {
+        throw new NotFoundError('Workflow template not found');
+      }
+
+      return this.formatTemplateResponse(template);
+
+    } catch (error) {
+      logger.error('Error fetching workflow template', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * List every version of a template, newest first
+   */
+  async listVersions(templateId: string): Promise<WorkflowTemplateResponse[]> {
+    try {
+      if (templateId === DEFAULT_TEMPLATE_ID) {
+        return [this.formatBuiltInResponse()];
+      }
+
+      const versions = await WorkflowTemplate.find({ templateId }).sort({ version: -1 });
+
+      if (versions.length === 0) {
+        throw new NotFoundError('Workflow template not found');
+      }
+
+      return versions.map(template => this.formatTemplateResponse(template));
+
+    } catch (error) {
+      logger.error('Error listing workflow template versions', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a template by publishing a new version. Existing workflows keep their pinned version.
+   */
+  async updateTemplate(templateId: string, input: WorkflowTemplateInput): Promise<WorkflowTemplateResponse> {
+    try {
+      if (templateId === DEFAULT_TEMPLATE_ID) {
+        throw new ForbiddenError('The default workflow template is read-only', 'TEMPLATE_READ_ONLY');
+      }
+
+      this.validateDefinition(input);
+
+      // The newest version, rather than the latest one, as another update may be publishing
+      const current = await WorkflowTemplate.findOne({ templateId, archived: false }).sort({ version: -1 });
+
+      if (!current) {
+        throw new NotFoundError('Workflow template not found');
+      }
+
+      // Retire the current version first: of two concurrent updates only one can, and the
+      // other publishes nothing. The partial unique index on isLatest backs this up.
+      const retired = await WorkflowTemplate.updateOne(
+        { _id: current._id, isLatest: true },
+        { $set: { isLatest: false, updatedAt: new Date() } }
+      );
+
+      if (retired.modifiedCount === 0) {
+        throw new ConflictError(`Workflow template ${templateId} was updated concurrently; retry the update`, 'TEMPLATE_CONFLICT');
+      }
+
+      let next;
+      try {
+        next = await WorkflowTemplate.create({
+          ...this.pickDefinition(input),
+          templateId,
+          version: current.version + 1,
+          isLatest: true,
+          createdAt: new Date()
+        });
+      } catch (error) {
+        // Put the current version back so the template is not left without one
+        await WorkflowTemplate.updateOne({ _id: current._id }, { $set: { isLatest: true, updatedAt: new Date() } });
+        throw error;
+      }
+
+      logger.info('Workflow template updated', { templateId, version: next.version });
+      return this.formatTemplateResponse(next);
+
+    } catch (error) {
+      logger.error('Error updating workflow template', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a template so it can no longer start workflows.
+   * Versions are kept because existing workflows are pinned to them.
+   */
+  async deleteTemplate(templateId: string): Promise<void> {
+    try {
+      if (templateId === DEFAULT_TEMPLATE_ID) {
+        throw new ForbiddenError('The default workflow template is read-only', 'TEMPLATE_READ_ONLY');
+      }
+
+      const result = await WorkflowTemplate.updateMany(
+        { templateId, archived: false },
+        { $set: { archived: true, updatedAt: new Date() } }
+      );
+
+      if (result.matchedCount === 0) {
+        throw new NotFoundError('Workflow template not found');
+      }
+
+      logger.info('Workflow template archived', { templateId });
+
+    } catch (error) {
+      logger.error('Error deleting workflow template', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the definition a new workflow should start with
+   */
+  async getLatestDefinition(templateId?: string): Promise<WorkflowDefinition> {
+    if (!templateId || templateId === DEFAULT_TEMPLATE_ID) {
+      return DEFAULT_WORKFLOW_TEMPLATE;
+    }
+
+    const template = await WorkflowTemplate.findOne({ templateId, isLatest: true, archived: false });
+
+    if (!template) {
+      throw new NotFoundError('Workflow template not found');
+    }
+
+    return this.cacheDefinition(template);
+  }
+
+  /**
+   * Resolve the pinned definition of an existing workflow
+   */
+  async getDefinition(ref?: WorkflowTemplateRef): Promise<WorkflowDefinition> {
+    if (!ref || ref.templateId === DEFAULT_TEMPLATE_ID) {
+      return DEFAULT_WORKFLOW_TEMPLATE;
+    }
+
+    // Background code without a tenant reads through to MongoDB, which sees every tenant
+    const tenantId = getCurrentTenantId();
+    const cached = tenantId && WorkflowTemplateService.definitionCache.get(definitionCacheKey(tenantId, ref));
+    if (cached) {
+      return cached;
+    }
+
+    const template = await WorkflowTemplate.findOne({ templateId: ref.templateId, version: ref.version });
+
+    if (!template) {
+      throw new NotFoundError(`Workflow template ${ref.templateId} version ${ref.version} not found`);
+    }
+
+    return this.cacheDefinition(template);
+  }
+
+  /**
+   * Every state name used by any template (for validating status filters)
+   */
+  async getKnownStates(): Promise<string[]> {
+    const states: string[] = await WorkflowTemplate.distinct('states.name');
+    return Array.from(new Set([...DEFAULT_WORKFLOW_TEMPLATE.states.map(state => state.name), ...states]));
+  }
+
+  getTransition(definition: WorkflowDefinition, from: string, to: string): WorkflowTransitionDefinition | undefined {
+    return definition.transitions.find(transition => transition.from === from && transition.to === to);
+  }
+
+  getAllowedTransitions(definition: WorkflowDefinition, state: string): string[] {
+    return definition.transitions
+      .filter(transition => transition.from === state)
+      .map(transition => transition.to);
+  }
+
+  getAutoProgression(definition: WorkflowDefinition, state: string): WorkflowStateDefinition['autoProgress'] {
+    const autoProgress = definition.states.find(candidate => candidate.name === state)?.autoProgress;
+    return autoProgress?.to ? autoProgress : undefined;
+  }
+
+  isTerminalState(definition: WorkflowDefinition, state: string): boolean {
+    return !!definition.states.find(candidate => candidate.name === state)?.terminal;
+  }
+
+  /**
+   * Validate that a template definition is internally consistent
+   */
+  private validateDefinition(input: WorkflowTemplateInput): void {
+    const errors: string[] = [];
+
+    if (!input.name || typeof input.name !== 'string') {
+      errors.push('name is required');
+    }
+
+    if (!Array.isArray(input.states) || input.states.length === 0) {
+      errors.push('states must be a non-empty array');
+    }
+
+    if (!Array.isArray(input.transitions)) {
+      errors.push('transitions must be an array');
+    }
+
+    if (errors.length === 0) {
+      const stateNames = input.states.map(state => state.name);
+      const known = new Set(stateNames);
+
+      if (stateNames.some(name => !name || typeof name !== 'string')) {
+        errors.push('every state needs a name');
+      }
+
+      if (known.size !== stateNames.length) {
+        errors.push('state names must be unique');
+      }
+
+      if (!known.has(input.initialState)) {
+        errors.push(`initialState "${input.initialState}" is not a defined state`);
+      }
+
+      input.transitions.forEach(({ from, to, roles }) => {
+        if (!known.has(from) || !known.has(to)) {
+          errors.push(`transition ${from} → ${to} references an undefined state`);
+        }
+        if (roles !== undefined && (!Array.isArray(roles) || !roles.every(isRole))) {
+          errors.push(`transition ${from} → ${to} has unknown roles`);
+        }
+      });
+
+      if (input.startRoles !== undefined && (!Array.isArray(input.startRoles) || !input.startRoles.every(isRole))) {
+        errors.push('startRoles has unknown roles');
+      }
+
+      input.states.forEach(state => {
+        const outgoing = input.transitions.filter(transition => transition.from === state.name);
+
+        if (state.terminal && outgoing.length > 0) {
+          errors.push(`terminal state "${state.name}" cannot have outgoing transitions`);
+        }
+
+        if (state.autoProgress?.to) {
+          if (state.terminal) {
+            errors.push(`terminal state "${state.name}" cannot auto-progress`);
+          }
+          if (!outgoing.some(transition => transition.to === state.autoProgress!.to)) {
+            errors.push(`auto-progression ${state.name} → ${state.autoProgress.to} is not an allowed transition`);
+          }
+          if (typeof state.autoProgress.afterMs !== 'number' || state.autoProgress.afterMs < 0) {
+            errors.push(`auto-progression delay for "${state.name}" must be a non-negative number`);
+          }
+        }
+      });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationFailedError(
+        `Invalid workflow template: ${errors.join('; ')}`,
+        errors.map(message => ({ field: 'body', message })),
+        'INVALID_TEMPLATE'
+      );
+    }
+  }
+
+  private pickDefinition(input: WorkflowTemplateInput): WorkflowTemplateInput {
+    return {
+      name: input.name,
+      description: input.description,
+      initialState: input.initialState,
+      states: input.states,
+      transitions: input.transitions,
+      startRoles: input.startRoles
+    };
+  }
+
+  private cacheDefinition(template: IWorkflowTemplate): WorkflowDefinition {
+    const definition = this.toDefinition(template);
+    WorkflowTemplateService.definitionCache.set(definitionCacheKey(template.tenantId || DEFAULT_TENANT_ID, definition), definition);
+    return definition;
+  }
+
+  private toDefinition(template: IWorkflowTemplate): WorkflowDefinition {
+    const plain = template.toObject();
+
+    return {
+      templateId: plain.templateId,
+      version: plain.version,
+      name: plain.name,
+      description: plain.description,
+      initialState: plain.initialState,
+      states: plain.states,
+      transitions: plain.transitions,
+      startRoles: plain.startRoles
+    };
+  }
+
+  /**
+   * Format workflow template response
+   */
+  private formatTemplateResponse(template: IWorkflowTemplate): WorkflowTemplateResponse {
+    return {
+      id: template._id.toString(),
+      ...this.toDefinition(template),
+      builtIn: false,
+      archived: template.archived,
+      createdAt: template.createdAt
+    };
+  }
+
+  private formatBuiltInResponse(): WorkflowTemplateResponse {
+    return {
+      id: DEFAULT_TEMPLATE_ID,
+      ...DEFAULT_WORKFLOW_TEMPLATE,
+      builtIn: true,
+      archived: false
+    };
+  }
+}
@@ -1,21 +1,53 @@
 import { Transcription, ITranscription } from '../models/Transcription.model';
 import { Types } from 'mongoose';
+import { speechProviders } from '../providers/provider.registry';
+import { AudioIngestionService, AudioSource } from './audio-ingestion.service';
+import { WorkflowSchedulerService, ScheduledTransitionResponse, workflowScheduler } from './workflow-scheduler.service';
+import { IScheduledTransition } from '../models/ScheduledTransition.model';
+import { WorkflowTemplateService, WorkflowDefinition, DEFAULT_WORKFLOW_TEMPLATE, DEFAULT_TEMPLATE_ID } from './workflow-template.service';
+import { TranscriptSegment } from '../providers/speech.provider';
+import { findCursorPage, KeysetSort } from '../utils/cursor-pagination';
+import { runWithTenant } from '../utils/tenant-context';
+import { Role } from '../utils/roles';
+import { eventBus } from '../events/event-bus';
+import { toTranscriptionEventData } from '../events/payloads';
+import { observeTranscription, workflowTimeInState } from '../metrics/metrics';
+import { logger } from '../utils/logger';
+import { ConflictError, ForbiddenError, InvalidTransitionError, NotFoundError, PreconditionFailedError } from '../errors/app-errors';
+
+// Authenticated principal performing a transition
+export interface WorkflowActor {
+  id: string;
+  roles: Role[];
+}
 
 export interface WorkflowTransitionRequest {
   transcriptionId: string;
-  newStatus: 'review' | 'approval' | 'completed' | 'rejected';
+  newStatus: string;
   comment?: string;
-  reviewedBy?: string;
+  actor?: WorkflowActor; // Role and four-eyes checks apply, and the actor is recorded as reviewedBy
+  reviewedBy?: string; // Recorded as-is when there is no actor (system and unauthenticated transitions)
+  ifMatch?: number[]; // Versions the caller last saw (If-Match); any other version is a 412
 }
 
-export interface WorkflowCreateRequest {
-  audioUrl: string;
+export interface WorkflowCreateRequest extends AudioSource {
   language?: string;
+  provider?: string;
+  templateId?: string;
+  actor?: WorkflowActor; // Must be allowed to start workflows from the template
 }
 
 export interface WorkflowStatusResponse {
   id: string;
+  template: {
+    templateId: string;
+    version: number;
+  };
+  transcription: string;
+  confidence?: number;
+  segments: TranscriptSegment[];
   currentStatus: string;
+  version: number; // Served as the ETag
   workflowHistory: Array<{
     status: string;
     timestamp: Date;
@@ -32,115 +64,201 @@ export interface WorkflowListResponse {
   limit: number;
 }
 
+export interface WorkflowCursorListResponse {
+  workflows: ITranscription[];
+  limit: number;
+  next: string | null;
+  prev: string | null;
+  total?: number;
+}
+
+// Most recently active workflows first, matching listWorkflows
+const WORKFLOW_KEYSET_SORT: KeysetSort = { field: 'updatedAt', type: 'date', order: 'desc' };
+
+// Workflows created before versioning have no workflowVersion until their first transition
+const versionFilter = (version: number) =>
+  version === 0 ? { workflowVersion: { $in: [0, null] } } : { workflowVersion: version };
+
 export class WorkflowService {
-  private readonly validTransitions: Record<string, string[]> = {
-    'transcription': ['review', 'rejected'],
-    'review': ['approval', 'rejected', 'transcription'], // Allow back to transcription for revisions
-    'approval': ['completed', 'rejected'],
-    'completed': [], // Final state
-    'rejected': ['transcription'] // Allow restart from transcription
-  };
+  private workflowScheduler: WorkflowSchedulerService;
+  private workflowTemplateService: WorkflowTemplateService;
+  private audioIngestionService: AudioIngestionService;
+
+  constructor() {
+    this.workflowScheduler = workflowScheduler;
+    this.workflowTemplateService = new WorkflowTemplateService();
+    this.audioIngestionService = new AudioIngestionService();
+  }
 
   /**
-   * Create a new workflow starting with transcription phase
+   * Create a new workflow starting in the initial state of its template
    */
   async createWorkflow(request: WorkflowCreateRequest): Promise<WorkflowStatusResponse> {
     try {
-      // Mock audio download and transcription (similar to existing service)
-      console.log(`🎵 Starting workflow for audio: ${request.audioUrl}`);
+      logger.info('Starting workflow', { audioUrl: request.audioUrl, uploadId: request.uploadId });
       
-      await this.mockAudioDownload(request.audioUrl);
-      const transcriptionText = this.generateMockTranscription(request.language || 'en-US');
+      // Pin the workflow to the current version of its template
+      const definition = await this.workflowTemplateService.getLatestDefinition(request.templateId);
+      if (request.actor) {
+        this.authorizeStart(definition, request.actor);
+      }
+      
+      // Download the audio and transcribe it with the requested (or default) speech provider
+      const provider = speechProviders.resolve(request.provider);
+      const language = request.language || 'en-US';
+      const { result, metadata } = await this.audioIngestionService.withIngestedAudio(request, async (audio) => ({
+        result: await observeTranscription(provider.name, language, () => provider.transcribe({
+          audioUrl: request.audioUrl,
+          uploadId: request.uploadId,
+          language,
+          audioFilePath: audio.filePath,
+          audioMetadata: audio.metadata
+        })),
+        metadata: audio.metadata
+      }));
       
       // Create transcription with initial workflow state
+      const now = new Date();
       const transcription = new Transcription({
         audioUrl: request.audioUrl,
-        transcription: transcriptionText,
-        source: 'mock',
-        language: request.language || 'en-US',
-        workflowStatus: 'transcription',
+        uploadId: request.uploadId,
+        transcription: result.text,
+        confidence: result.confidence,
+        segments: result.segments,
+        source: provider.name,
+        language: result.language,
+        audioMetadata: metadata,
+        workflowStatus: definition.initialState,
+        workflowTemplate: {
+          templateId: definition.templateId,
+          version: definition.version
+        },
         workflowHistory: [{
-          status: 'transcription',
+          status: definition.initialState,
           timestamp: new Date(),
           comment: 'Workflow initiated - transcription completed'
         }],
-        createdAt: new Date()
+        createdAt: now,
+        updatedAt: now
       });
       
       const savedTranscription = await transcription.save();
-      console.log('🔄 Workflow created with ID:', savedTranscription._id);
+      logger.info('Workflow created', { workflowId: savedTranscription._id });
+      eventBus.publish('workflow.created', {
+        ...toTranscriptionEventData(savedTranscription),
+        template: { templateId: definition.templateId, version: definition.version }
+      });
       
-      // Simulate asynchronous progression to review after 2 seconds
-      setTimeout(() => {
-        this.autoProgressWorkflow(savedTranscription._id.toString());
-      }, 2000);
+      // Schedule asynchronous progression out of the initial state
+      await this.scheduleAutoProgression(savedTranscription._id.toString(), definition.initialState, definition);
       
-      return this.formatWorkflowResponse(savedTranscription);
+      return this.formatWorkflowResponse(savedTranscription, definition);
       
     } catch (error) {
-      console.error('❌ Error creating workflow:', error);
+      logger.error('Error creating workflow', { error });
       throw error;
     }
   }
 
   /**
-   * Manually transition workflow to next state
+   * Manually transition workflow to next state. The transition is written with a
+   * conditional update on the status and version it was validated against, so of two
+   * concurrent transitions only one applies; the other gets a 409 (412 with If-Match).
    */
   async transitionWorkflow(request: WorkflowTransitionRequest): Promise<WorkflowStatusResponse> {
     try {
-      const transcription = await Transcription.findById(request.transcriptionId);
+      const transcription = Types.ObjectId.isValid(request.transcriptionId) ? await Transcription.findById(request.transcriptionId) : null;
       
       if (!transcription) {
-        throw new Error('Transcription not found');
+        throw new NotFoundError('Transcription not found');
       }
       
       if (!transcription.workflowStatus) {
-        throw new Error('No workflow status found for this transcription');
+        throw new ConflictError('No workflow status found for this transcription', 'NOT_A_WORKFLOW');
       }
       
-      // Validate transition
-      const validNextStates = this.validTransitions[transcription.workflowStatus];
-      if (!validNextStates.includes(request.newStatus)) {
-        throw new Error(
-          `Invalid transition from ${transcription.workflowStatus} to ${request.newStatus}. ` +
-          `Valid transitions: ${validNextStates.join(', ')}`
+      const version = transcription.workflowVersion ?? 0;
+      if (request.ifMatch && !request.ifMatch.includes(version)) {
+        throw new PreconditionFailedError(
+          `Workflow is at version ${version}, which does not match If-Match`,
+          'WORKFLOW_VERSION_MISMATCH',
+          { currentVersion: version, currentStatus: transcription.workflowStatus }
         );
       }
       
-      // Update workflow status and history
-      transcription.workflowStatus = request.newStatus;
-      transcription.updatedAt = new Date();
+      // Validate transition against the template version the workflow is pinned to
+      const definition = await this.workflowTemplateService.getDefinition(transcription.workflowTemplate);
+      const validNextStates = this.workflowTemplateService.getAllowedTransitions(definition, transcription.workflowStatus);
+      if (!validNextStates.includes(request.newStatus)) {
+        throw new InvalidTransitionError(transcription.workflowStatus, request.newStatus, validNextStates);
+      }
       
-      if (!transcription.workflowHistory) {
-        transcription.workflowHistory = [];
+      if (request.actor) {
+        this.authorizeTransition(transcription, definition, request.newStatus, request.actor);
       }
       
-      transcription.workflowHistory.push({
-        status: request.newStatus,
-        timestamp: new Date(),
-        comment: request.comment,
-        reviewedBy: request.reviewedBy
-      });
+      // When the workflow entered the state it is leaving, for the time-in-state metric
+      const previousStatus = transcription.workflowStatus;
+      const history = transcription.workflowHistory || [];
+      const enteredAt = history[history.length - 1]?.timestamp;
+      const reviewedBy = request.actor ? request.actor.id : request.reviewedBy;
+      
+      // Apply the transition only if nobody else has moved the workflow since it was read
+      // and checked above, e.g. a manual transition racing a scheduled auto-progression
+      const now = new Date();
+      const transitioned = await Transcription.findOneAndUpdate(
+        { _id: transcription._id, workflowStatus: previousStatus, ...versionFilter(version) },
+        {
+          $set: { workflowStatus: request.newStatus, updatedAt: now },
+          $inc: { workflowVersion: 1 },
+          $push: {
+            workflowHistory: {
+              status: request.newStatus,
+              timestamp: now,
+              comment: request.comment,
+              reviewedBy
+            }
+          }
+        },
+        { new: true }
+      );
+      
+      if (!transitioned) {
+        const message = `Workflow was modified by another request while transitioning from ${previousStatus} to ${request.newStatus}`;
+        throw request.ifMatch
+          ? new PreconditionFailedError(message, 'WORKFLOW_VERSION_MISMATCH')
+          : new ConflictError(message, 'WORKFLOW_CONFLICT');
+      }
+      
+      logger.info('Workflow transitioned', { workflowId: request.transcriptionId, status: request.newStatus });
+      if (enteredAt) {
+        workflowTimeInState.observe({ status: previousStatus }, (Date.now() - new Date(enteredAt).getTime()) / 1000);
+      }
       
-      await transcription.save();
+      const transitionData = {
+        id: request.transcriptionId,
+        from: previousStatus,
+        to: request.newStatus,
+        comment: request.comment,
+        reviewedBy,
+        template: { templateId: definition.templateId, version: definition.version },
+        transitionedAt: now
+      };
+      eventBus.publish('workflow.transitioned', transitionData);
+      if (this.workflowTemplateService.isTerminalState(definition, request.newStatus)) {
+        eventBus.publish('workflow.completed', transitionData);
+      }
       
-      console.log(`🔄 Workflow ${request.transcriptionId} transitioned to ${request.newStatus}`);
+      // Pending progressions from the previous state no longer apply
+      await this.workflowScheduler.cancelPendingForWorkflow(request.transcriptionId);
       
       // Auto-progress certain states asynchronously
-      if (request.newStatus === 'review') {
-        setTimeout(() => {
-          this.autoProgressWorkflow(request.transcriptionId);
-        }, 3000); // Auto-progress to approval after 3 seconds
-      } else if (request.newStatus === 'approval') {
-        setTimeout(() => {
-          this.autoProgressWorkflow(request.transcriptionId);
-        }, 5000); // Auto-complete after 5 seconds
-      }
+      await this.scheduleAutoProgression(request.transcriptionId, request.newStatus, definition);
       
-      return this.formatWorkflowResponse(transcription);
+      return this.formatWorkflowResponse(transitioned, definition);
       
     } catch (error) {
-      console.error('❌ Error transitioning workflow:', error);
+      logger.error('Error transitioning workflow', { error });
       throw error;
     }
   }
@@ -150,16 +268,17 @@ export class WorkflowService {
    */
   async getWorkflowStatus(transcriptionId: string): Promise<WorkflowStatusResponse> {
     try {
-      const transcription = await Transcription.findById(transcriptionId);
+      const transcription = Types.ObjectId.isValid(transcriptionId) ? await Transcription.findById(transcriptionId) : null;
       
       if (!transcription) {
-        throw new Error('Transcription not found');
+        throw new NotFoundError('Transcription not found');
       }
       
-      return this.formatWorkflowResponse(transcription);
+      const definition = await this.workflowTemplateService.getDefinition(transcription.workflowTemplate);
+      return this.formatWorkflowResponse(transcription, definition);
       
     } catch (error) {
-      console.error('❌ Error getting workflow status:', error);
+      logger.error('Error getting workflow status', { error });
       throw error;
     }
   }
@@ -190,7 +309,7 @@ export class WorkflowService {
         Transcription.countDocuments(query)
       ]);
       
-      console.log(`📊 Found ${workflows.length} workflows (status: ${status || 'all'})`);
+      logger.debug('Found workflows', { count: workflows.length, status: status || 'all' });
       
       return {
         workflows: workflows as ITranscription[],
@@ -200,7 +319,40 @@ export class WorkflowService {
       };
       
     } catch (error) {
-      console.error('❌ Error listing workflows:', error);
+      logger.error('Error listing workflows', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cursor-paginated variant of listWorkflows, keyed on updatedAt + _id
+   */
+  async listWorkflowsByCursor(
+    status?: string,
+    cursor?: string,
+    limit: number = 10,
+    includeTotal: boolean = false
+  ): Promise<WorkflowCursorListResponse> {
+    try {
+      const query: any = { workflowStatus: status || { $exists: true } };
+
+      const [page, total] = await Promise.all([
+        findCursorPage<ITranscription>(Transcription, query, WORKFLOW_KEYSET_SORT, { cursor, limit }),
+        includeTotal ? Transcription.countDocuments(query) : Promise.resolve(undefined)
+      ]);
+
+      logger.debug('Found workflows', { count: page.items.length, status: status || 'all', cursor: true });
+
+      return {
+        workflows: page.items,
+        limit,
+        next: page.next,
+        prev: page.prev,
+        ...(total !== undefined && { total })
+      };
+
+    } catch (error) {
+      logger.error('Error listing workflows by cursor', { error });
       throw error;
     }
   }
@@ -215,13 +367,11 @@ export class WorkflowService {
         { $group: { _id: '$workflowStatus', count: { $sum: 1 } } }
       ]);
       
-      const result: Record<string, number> = {
-        transcription: 0,
-        review: 0,
-        approval: 0,
-        completed: 0,
-        rejected: 0
-      };
+      // Always report the default template's states, plus any state a custom template uses
+      const result: Record<string, number> = {};
+      DEFAULT_WORKFLOW_TEMPLATE.states.forEach(state => {
+        result[state.name] = 0;
+      });
       
       stats.forEach(stat => {
         result[stat._id] = stat.count;
@@ -230,108 +380,179 @@ export class WorkflowService {
       return result;
       
     } catch (error) {
-      console.error('❌ Error getting workflow stats:', error);
+      logger.error('Error getting workflow stats', { error });
       throw error;
     }
   }
 
   /**
-   * Private method for auto-progressing workflows
+   * List scheduled transitions for a workflow
    */
-  private async autoProgressWorkflow(transcriptionId: string): Promise<void> {
+  async getScheduledTransitions(transcriptionId: string, includeAll: boolean = false): Promise<ScheduledTransitionResponse[]> {
     try {
-      const transcription = await Transcription.findById(transcriptionId);
+      const transcription = Types.ObjectId.isValid(transcriptionId) ? await Transcription.findById(transcriptionId) : null;
       
-      if (!transcription || !transcription.workflowStatus) {
-        return;
+      if (!transcription) {
+        throw new NotFoundError('Transcription not found');
       }
       
-      let nextStatus: string | null = null;
-      let comment = '';
-      
-      switch (transcription.workflowStatus) {
-        case 'transcription':
-          nextStatus = 'review';
-          comment = 'Auto-progressed to review phase';
-          break;
-        case 'review':
-          nextStatus = 'approval';
-          comment = 'Auto-progressed to approval phase';
-          break;
-        case 'approval':
-          nextStatus = 'completed';
-          comment = 'Auto-completed workflow';
-          break;
-        default:
-          return; // No auto-progression needed
-      }
+      return this.workflowScheduler.listForWorkflow(transcriptionId, includeAll);
       
-      if (nextStatus) {
-        await this.transitionWorkflow({
-          transcriptionId: transcriptionId,
-          newStatus: nextStatus as any,
-          comment: comment,
-          reviewedBy: 'system'
-        });
+    } catch (error) {
+      logger.error('Error getting scheduled transitions', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a pending scheduled transition for a workflow
+   */
+  async cancelScheduledTransition(transcriptionId: string, scheduleId: string): Promise<ScheduledTransitionResponse> {
+    try {
+      const transcription = Types.ObjectId.isValid(transcriptionId) ? await Transcription.findById(transcriptionId) : null;
+      
+      if (!transcription) {
+        throw new NotFoundError('Transcription not found');
       }
       
+      return this.workflowScheduler.cancel(transcriptionId, scheduleId);
+      
     } catch (error) {
-      console.error('❌ Error in auto-progression:', error);
-      // Don't throw error to avoid breaking the main workflow
+      logger.error('Error cancelling scheduled transition', { error });
+      throw error;
     }
   }
 
   /**
-   * Format workflow response
+   * Apply a due scheduled transition. Returns false (skipped) when the workflow
+   * has already left the state the transition was scheduled from.
    */
-  private formatWorkflowResponse(transcription: ITranscription): WorkflowStatusResponse {
-    const currentStatus = transcription.workflowStatus || 'transcription';
-    const canTransition = this.validTransitions[currentStatus] || [];
+  async applyScheduledTransition(scheduled: IScheduledTransition): Promise<boolean> {
+    const transcriptionId = scheduled.transcriptionId.toString();
+    const transcription = await Transcription.findById(transcriptionId);
     
-    return {
-      id: transcription._id.toString(),
-      currentStatus,
-      workflowHistory: transcription.workflowHistory || [],
-      canTransition
-    };
+    if (!transcription || transcription.workflowStatus !== scheduled.fromStatus) {
+      logger.info('Skipping scheduled transition: workflow left its source state', { scheduleId: scheduled._id, workflowId: transcriptionId, fromStatus: scheduled.fromStatus });
+      return false;
+    }
+    
+    try {
+      // Pinned to the version just read, so a manual transition in between wins
+      await runWithTenant(transcription.tenantId, () => this.transitionWorkflow({
+        transcriptionId,
+        newStatus: scheduled.toStatus,
+        comment: scheduled.comment,
+        reviewedBy: 'system',
+        ifMatch: [transcription.workflowVersion ?? 0]
+      }));
+    } catch (error) {
+      if (error instanceof PreconditionFailedError) {
+        logger.info('Skipping scheduled transition: workflow changed concurrently', { scheduleId: scheduled._id, workflowId: transcriptionId, fromStatus: scheduled.fromStatus });
+        return false;
+      }
+      throw error;
+    }
+    
+    return true;
+  }
+
+  /**
+   * Re-schedule the auto-progression of a workflow's current state, e.g. after a restore
+   */
+  async resumeAutoProgression(transcription: ITranscription): Promise<void> {
+    if (!transcription.workflowStatus) {
+      return;
+    }
+
+    const definition = await this.workflowTemplateService.getDefinition(transcription.workflowTemplate);
+    await this.scheduleAutoProgression(transcription._id.toString(), transcription.workflowStatus, definition);
+  }
+
+  /**
+   * Anyone may start the built-in default template. Custom templates set their own
+   * transition roles, possibly looser ones, so only their startRoles (and admins) may use them.
+   */
+  private authorizeStart(definition: WorkflowDefinition, actor: WorkflowActor): void {
+    if (definition.templateId === DEFAULT_TEMPLATE_ID || actor.roles.includes('admin')) {
+      return;
+    }
+
+    const roles = definition.startRoles || [];
+    if (!roles.some(role => actor.roles.includes(role))) {
+      throw new ForbiddenError(`Not permitted: workflows from template ${definition.templateId} can only be started by role ${['admin', ...roles].join(' or ')}`, 'ROLE_REQUIRED');
+    }
+  }
+
+  /**
+   * Check the actor's roles against the transition, and enforce four-eyes by
+   * comparing the actor with everyone who moved the workflow since it last left its
+   * initial state (e.g. whoever sent it to review), as automatic progressions in
+   * between would otherwise hide them
+   */
+  private authorizeTransition(
+    transcription: ITranscription,
+    definition: WorkflowDefinition,
+    newStatus: string,
+    actor: WorkflowActor
+  ): void {
+    const from = transcription.workflowStatus as string;
+    const transition = this.workflowTemplateService.getTransition(definition, from, newStatus);
+    const roles = transition?.roles || [];
+
+    if (!actor.roles.includes('admin') && roles.length > 0 && !roles.some(role => actor.roles.includes(role))) {
+      throw new ForbiddenError(`Not permitted: ${from} → ${newStatus} requires role ${roles.join(' or ')}`, 'ROLE_REQUIRED');
+    }
+
+    if (transition?.fourEyes) {
+      const history = transcription.workflowHistory || [];
+      const passStart = history.map(entry => entry.status).lastIndexOf(definition.initialState) + 1;
+      const actors = history.slice(passStart).map(entry => entry.reviewedBy);
+
+      if (actors.includes(actor.id)) {
+        throw new ForbiddenError(`Not permitted: ${from} → ${newStatus} must be performed by someone other than ${actor.id}, who already moved the workflow since ${definition.initialState}`, 'FOUR_EYES_REQUIRED');
+      }
+    }
   }
 
   /**
-   * Mock audio download (reused from TranscriptionService)
+   * Schedule the automatic progression out of the given state, if it has one
    */
-  private async mockAudioDownload(audioUrl: string): Promise<void> {
-    console.log(`🎵 Mocking audio download from: ${audioUrl}`);
-    await new Promise(resolve => setTimeout(resolve, 300));
+  private async scheduleAutoProgression(transcriptionId: string, status: string, definition: WorkflowDefinition): Promise<void> {
+    const autoProgression = this.workflowTemplateService.getAutoProgression(definition, status);
     
-    if (Math.random() < 0.02) { // Lower failure rate for workflows
-      throw new Error('Audio download failed - network timeout');
+    if (!autoProgression) {
+      return; // No auto-progression needed
     }
     
-    console.log('✅ Audio download completed successfully');
+    await this.workflowScheduler.schedule({
+      transcriptionId,
+      fromStatus: status,
+      toStatus: autoProgression.to,
+      delayMs: autoProgression.afterMs,
+      comment: autoProgression.comment
+    });
   }
 
   /**
-   * Generate mock transcription text (reused from TranscriptionService)
+   * Format workflow response
    */
-  private generateMockTranscription(language: string = 'en-US'): string {
-    const mockTranscriptions: Record<string, string[]> = {
-      'en-US': [
-        "This workflow demonstrates transcription processing with review and approval stages.",
-        "Audio content processed through automated workflow system for quality assurance.",
-        "Transcription workflow includes multiple validation steps for accuracy.",
-        "Sample audio processed through comprehensive review pipeline."
-      ],
-      'fr-FR': [
-        "Ce flux de travail démontre le traitement de transcription avec des étapes de révision et d'approbation.",
-        "Contenu audio traité via un système de flux de travail automatisé pour l'assurance qualité."
-      ],
-      'es-ES': [
-        "Este flujo de trabajo demuestra el procesamiento de transcripción con etapas de revisión y aprobación.",
-        "Contenido de audio procesado a través de un sistema de flujo de trabajo automatizado para control de calidad."
-      ]
-    };
+  private formatWorkflowResponse(transcription: ITranscription, definition: WorkflowDefinition): WorkflowStatusResponse {
+    const currentStatus = transcription.workflowStatus || definition.initialState;
+    const canTransition = this.workflowTemplateService.getAllowedTransitions(definition, currentStatus);
     
-    const transcriptions = mockTranscriptions[language] || mockTranscriptions['en-US'];
-    return transcriptions[Math.floor(Math.random() * transcriptions.length)];
+    return {
+      id: transcription._id.toString(),
+      template: {
+        templateId: definition.templateId,
+        version: definition.version
+      },
+      transcription: transcription.transcription,
+      confidence: transcription.confidence,
+      segments: transcription.segments || [],
+      currentStatus,
+      version: transcription.workflowVersion ?? 0,
+      workflowHistory: transcription.workflowHistory || [],
+      canTransition
+    };
   }
 }
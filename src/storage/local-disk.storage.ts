@@ -0,0 +1,75 @@
+import path from 'path';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { UploadStorage } from './upload.storage';
+
+/**
+ * Keeps uploads as plain files under a root directory
+ */
+export class LocalDiskStorage implements UploadStorage {
+  public readonly name = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  async write(key: string, data: Readable): Promise<number> {
+    return this.writeFile(key, data, 'w');
+  }
+
+  async append(key: string, offset: number, data: Readable): Promise<number> {
+    const filePath = this.resolvePath(key);
+    const size = await fs.stat(filePath).then(stats => stats.size, () => 0);
+
+    if (size < offset) {
+      throw new Error(`Stored file ${key} has ${size} bytes, expected at least ${offset}`);
+    }
+
+    // Drop what an interrupted chunk left behind
+    if (size > offset) {
+      await fs.truncate(filePath, offset);
+    }
+
+    return this.writeFile(key, data, 'a');
+  }
+
+  async read(key: string): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+
+    // Fail here rather than on the first read of the stream
+    await fs.access(filePath);
+    return createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch {
+      // Already removed
+    }
+  }
+
+  private async writeFile(key: string, data: Readable, flags: 'w' | 'a'): Promise<number> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+
+    let bytesWritten = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesWritten += chunk.length;
+        callback(null, chunk);
+      }
+    });
+
+    await pipeline(data, counter, createWriteStream(this.resolvePath(key), { flags }));
+    return bytesWritten;
+  }
+
+  /**
+   * Keys are generated by the upload service; never let one escape the root directory
+   */
+  private resolvePath(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.rootDir, key);
+  }
+}
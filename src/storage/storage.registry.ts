@@ -0,0 +1,56 @@
+import { config } from '../config/env';
+import { UploadStorage } from './upload.storage';
+import { LocalDiskStorage } from './local-disk.storage';
+import { logger } from '../utils/logger';
+
+export class UploadStorageRegistry {
+  private static instance: UploadStorageRegistry;
+  private backends = new Map<string, UploadStorage>();
+
+  private constructor() {}
+
+  public static getInstance(): UploadStorageRegistry {
+    if (!UploadStorageRegistry.instance) {
+      UploadStorageRegistry.instance = new UploadStorageRegistry();
+    }
+    return UploadStorageRegistry.instance;
+  }
+
+  /**
+   * Register a backend under its name (replaces any backend with the same name)
+   */
+  public register(backend: UploadStorage): void {
+    this.backends.set(backend.name, backend);
+    logger.debug('Upload storage registered', { storage: backend.name });
+  }
+
+  public has(name: string): boolean {
+    return this.backends.has(name);
+  }
+
+  public get(name: string): UploadStorage {
+    const backend = this.backends.get(name);
+
+    if (!backend) {
+      throw new Error(`Unknown upload storage: ${name}. Available backends: ${this.getNames().join(', ')}`);
+    }
+
+    return backend;
+  }
+
+  /**
+   * Resolve a backend by name, falling back to the configured default
+   */
+  public resolve(name?: string): UploadStorage {
+    return this.get(name || config.UPLOAD_STORAGE_BACKEND);
+  }
+
+  public getNames(): string[] {
+    return Array.from(this.backends.keys());
+  }
+}
+
+export const uploadStorages = UploadStorageRegistry.getInstance();
+
+// Built-in backends
+uploadStorages.register(new LocalDiskStorage(config.UPLOAD_DIR));
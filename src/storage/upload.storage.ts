@@ -0,0 +1,29 @@
+import { Readable } from 'stream';
+
+/**
+ * Common contract for places uploaded audio is kept.
+ *
+ * Backends are registered by name in the storage registry and selected
+ * through UPLOAD_STORAGE_BACKEND. The name is persisted on every upload so
+ * files stay readable after the default backend changes. Resumable uploads
+ * arrive in order and name their offset, so object stores can map `append`
+ * onto multipart parts and replace a part that was never acknowledged.
+ */
+export interface UploadStorage {
+  readonly name: string;
+
+  /**
+   * Create (or replace) the object and return the number of bytes written
+   */
+  write(key: string, data: Readable): Promise<number>;
+
+  /**
+   * Write data at `offset`, creating the object when missing. Bytes already stored
+   * past `offset` (a chunk stored before a crash, but never recorded) are replaced.
+   */
+  append(key: string, offset: number, data: Readable): Promise<number>;
+
+  read(key: string): Promise<Readable>;
+
+  remove(key: string): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import dns from 'dns';
+import net from 'net';
+import { config } from '../config/env';
+
+// Loopback, private (RFC 1918), carrier-grade NAT, link-local (incl. cloud metadata),
+// multicast and reserved ranges
+const BLOCKED_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+];
+const BLOCKED_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+];
+
+const blockedAddresses = new net.BlockList();
+BLOCKED_IPV4_SUBNETS.forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv4'));
+BLOCKED_IPV6_SUBNETS.forEach(([address, prefix]) => blockedAddresses.addSubnet(address, prefix, 'ipv6'));
+
+const IPV4_MAPPED_PATTERN = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export const isPublicAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is the IPv4 address in disguise
+  const mapped = IPV4_MAPPED_PATTERN.exec(address)?.[1];
+  if (mapped) {
+    return isPublicAddress(mapped);
+  }
+
+  const type = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+  return type !== null && !blockedAddresses.check(address, type);
+};
+
+/**
+ * Whether the server may send a request to `url` on behalf of a tenant: every address its
+ * host resolves to must be public, unless the host is listed in OUTBOUND_ALLOWED_HOSTS.
+ * Resolution errors are thrown.
+ */
+export const isPublicUrl = async (url: URL): Promise<boolean> => {
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1'); // IPv6 literals are bracketed
+
+  if (config.OUTBOUND_ALLOWED_HOSTS.includes(hostname.toLowerCase())) {
+    return true;
+  }
+
+  const addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+};
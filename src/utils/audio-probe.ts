@@ -0,0 +1,291 @@
+import { promises as fs } from 'fs';
+
+export type AudioFormat = 'wav' | 'mp3' | 'flac' | 'ogg';
+
+export interface AudioMetadata {
+  format: AudioFormat;
+  codec?: string;
+  durationSeconds: number;
+  sampleRate: number;
+  channels: number;
+  bitrate?: number; // kbps
+}
+
+export class AudioProbeError extends Error {
+  constructor(message: string, public readonly code: 'UNSUPPORTED_AUDIO_FORMAT' | 'CORRUPT_AUDIO') {
+    super(message);
+    this.name = 'AudioProbeError';
+  }
+}
+
+const HEAD_BYTES = 64 * 1024;
+const TAIL_BYTES = 64 * 1024;
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000]   // MPEG-2.5
+};
+
+// Bitrates in kbps indexed by [MPEG-1 ? 'v1' : 'v2'][layer][index]
+const MP3_BITRATES: Record<'v1' | 'v2', Record<number, number[]>> = {
+  v1: {
+    1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+  },
+  v2: {
+    1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+  }
+};
+
+const round = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Read up to `length` bytes at `offset` from an open file
+ */
+const readAt = async (file: fs.FileHandle, offset: number, length: number): Promise<Buffer> => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, offset);
+  return buffer.subarray(0, bytesRead);
+};
+
+/**
+ * WAV: walk the RIFF chunks for `fmt ` and `data`
+ */
+const probeWav = async (file: fs.FileHandle, size: number): Promise<AudioMetadata> => {
+  let offset = 12;
+  let format: { channels: number; sampleRate: number; byteRate: number; audioFormat: number } | null = null;
+
+  while (offset + 8 <= size) {
+    const header = await readAt(file, offset, 8);
+    const chunkId = header.toString('ascii', 0, 4);
+    const chunkSize = header.readUInt32LE(4);
+
+    if (chunkId === 'fmt ') {
+      if (chunkSize < 16) {
+        throw new AudioProbeError('Corrupt WAV file: fmt chunk is too short', 'CORRUPT_AUDIO');
+      }
+      const body = await readAt(file, offset + 8, 16);
+      format = {
+        audioFormat: body.readUInt16LE(0),
+        channels: body.readUInt16LE(2),
+        sampleRate: body.readUInt32LE(4),
+        byteRate: body.readUInt32LE(8)
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new AudioProbeError('Corrupt WAV file: data chunk before fmt chunk', 'CORRUPT_AUDIO');
+      }
+      if (!format.channels || !format.sampleRate || !format.byteRate) {
+        throw new AudioProbeError('Corrupt WAV file: invalid fmt chunk', 'CORRUPT_AUDIO');
+      }
+
+      // Streamed WAVs may leave the size unset; never trust it beyond the end of the file
+      const dataSize = Math.min(chunkSize, size - offset - 8);
+
+      return {
+        format: 'wav',
+        codec: format.audioFormat === 1 ? 'pcm' : `wav-format-${format.audioFormat}`,
+        durationSeconds: round(dataSize / format.byteRate),
+        sampleRate: format.sampleRate,
+        channels: format.channels,
+        bitrate: Math.round((format.byteRate * 8) / 1000)
+      };
+    }
+
+    // Chunks are word-aligned
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new AudioProbeError('Corrupt WAV file: no data chunk found', 'CORRUPT_AUDIO');
+};
+
+/**
+ * FLAC: STREAMINFO is always the first metadata block
+ */
+const probeFlac = (head: Buffer): AudioMetadata => {
+  if (head.length < 42 || (head[4] & 0x7f) !== 0) {
+    throw new AudioProbeError('Corrupt FLAC file: missing STREAMINFO block', 'CORRUPT_AUDIO');
+  }
+
+  const info = head.subarray(8, 42);
+  const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+  const channels = ((info[12] >> 1) & 0x07) + 1;
+  const totalSamples = (info[13] & 0x0f) * 2 ** 32 + info.readUInt32BE(14);
+
+  if (!sampleRate) {
+    throw new AudioProbeError('Corrupt FLAC file: invalid sample rate', 'CORRUPT_AUDIO');
+  }
+
+  return {
+    format: 'flac',
+    codec: 'flac',
+    durationSeconds: round(totalSamples / sampleRate),
+    sampleRate,
+    channels
+  };
+};
+
+/**
+ * Ogg: identify the codec from the first packet, duration from the last page's granule position
+ */
+const probeOgg = (head: Buffer, tail: Buffer): AudioMetadata => {
+  if (head.length < 28) {
+    throw new AudioProbeError('Corrupt Ogg file: truncated page header', 'CORRUPT_AUDIO');
+  }
+
+  const segmentCount = head[26];
+  const packet = head.subarray(27 + segmentCount);
+
+  let codec: string;
+  let channels: number;
+  let sampleRate: number;
+  let granuleRate: number;
+  let preSkip = 0;
+
+  if (packet.length >= 16 && packet[0] === 0x01 && packet.toString('ascii', 1, 7) === 'vorbis') {
+    codec = 'vorbis';
+    channels = packet[11];
+    sampleRate = packet.readUInt32LE(12);
+    granuleRate = sampleRate;
+  } else if (packet.length >= 16 && packet.toString('ascii', 0, 8) === 'OpusHead') {
+    codec = 'opus';
+    channels = packet[9];
+    preSkip = packet.readUInt16LE(10);
+    sampleRate = packet.readUInt32LE(12) || 48000;
+    granuleRate = 48000; // Opus granule positions are always at 48 kHz
+  } else {
+    throw new AudioProbeError('Unsupported Ogg codec (expected Vorbis or Opus)', 'UNSUPPORTED_AUDIO_FORMAT');
+  }
+
+  if (!channels || !sampleRate) {
+    throw new AudioProbeError(`Corrupt Ogg file: invalid ${codec} header`, 'CORRUPT_AUDIO');
+  }
+
+  const lastPage = tail.lastIndexOf('OggS');
+  if (lastPage === -1 || lastPage + 14 > tail.length) {
+    throw new AudioProbeError('Corrupt Ogg file: no final page found', 'CORRUPT_AUDIO');
+  }
+
+  const granule = Number(tail.readBigUInt64LE(lastPage + 6));
+
+  return {
+    format: 'ogg',
+    codec,
+    durationSeconds: round(Math.max(granule - preSkip, 0) / granuleRate),
+    sampleRate,
+    channels
+  };
+};
+
+/**
+ * MP3: parse the first frame header (after any ID3v2 tag), using a Xing/Info header when present
+ */
+const probeMp3 = (frame: Buffer, audioBytes: number): AudioMetadata => {
+  const syncOffset = frame.findIndex((byte, index) => byte === 0xff && index + 1 < frame.length && (frame[index + 1] & 0xe0) === 0xe0);
+
+  if (syncOffset === -1 || syncOffset + 4 > frame.length) {
+    throw new AudioProbeError('Corrupt MP3 file: no frame sync found', 'CORRUPT_AUDIO');
+  }
+
+  const header = frame.readUInt32BE(syncOffset);
+  const versionBits = (header >> 19) & 0x03;
+  const layerBits = (header >> 17) & 0x03;
+  const bitrateIndex = (header >> 12) & 0x0f;
+  const sampleRateIndex = (header >> 10) & 0x03;
+  const padding = (header >> 9) & 0x01;
+  const channelMode = (header >> 6) & 0x03;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    throw new AudioProbeError('Corrupt MP3 file: invalid frame header', 'CORRUPT_AUDIO');
+  }
+
+  const layer = 4 - layerBits;
+  const isMpeg1 = versionBits === 3;
+  const sampleRate = MP3_SAMPLE_RATES[versionBits][sampleRateIndex];
+  const bitrate = MP3_BITRATES[isMpeg1 ? 'v1' : 'v2'][layer][bitrateIndex];
+  const channels = channelMode === 3 ? 1 : 2;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152;
+
+  const frameLength = layer === 1
+    ? Math.floor((12 * bitrate * 1000) / sampleRate + padding) * 4
+    : Math.floor(((samplesPerFrame / 8) * bitrate * 1000) / sampleRate) + padding;
+
+  // A real stream has another frame right after this one
+  const nextFrame = syncOffset + frameLength;
+  if (nextFrame + 1 < frame.length && !(frame[nextFrame] === 0xff && (frame[nextFrame + 1] & 0xe0) === 0xe0)) {
+    throw new AudioProbeError('Corrupt MP3 file: frame sequence is broken', 'CORRUPT_AUDIO');
+  }
+
+  // VBR files carry the total frame count in a Xing/Info header after the side information
+  const sideInfoLength = isMpeg1 ? (channels === 1 ? 17 : 32) : (channels === 1 ? 9 : 17);
+  const xingOffset = syncOffset + 4 + sideInfoLength;
+  const xingTag = frame.length >= xingOffset + 12 ? frame.toString('ascii', xingOffset, xingOffset + 4) : '';
+
+  let durationSeconds: number;
+  if ((xingTag === 'Xing' || xingTag === 'Info') && (frame.readUInt32BE(xingOffset + 4) & 0x01)) {
+    const frames = frame.readUInt32BE(xingOffset + 8);
+    durationSeconds = (frames * samplesPerFrame) / sampleRate;
+  } else {
+    durationSeconds = ((audioBytes - syncOffset) * 8) / (bitrate * 1000);
+  }
+
+  return {
+    format: 'mp3',
+    codec: `mpeg-layer-${layer}`,
+    durationSeconds: round(durationSeconds),
+    sampleRate,
+    channels,
+    bitrate
+  };
+};
+
+/**
+ * Identify an audio file by its header and extract duration, sample rate and channels.
+ * Throws AudioProbeError for unsupported or corrupt files.
+ */
+export const probeAudioFile = async (filePath: string): Promise<AudioMetadata> => {
+  const file = await fs.open(filePath, 'r');
+
+  try {
+    const { size } = await file.stat();
+    const head = await readAt(file, 0, HEAD_BYTES);
+
+    if (head.length < 12) {
+      throw new AudioProbeError('File is too small to be audio', 'CORRUPT_AUDIO');
+    }
+
+    if (head.toString('ascii', 0, 4) === 'RIFF' && head.toString('ascii', 8, 12) === 'WAVE') {
+      return await probeWav(file, size);
+    }
+
+    if (head.toString('ascii', 0, 4) === 'fLaC') {
+      return probeFlac(head);
+    }
+
+    if (head.toString('ascii', 0, 4) === 'OggS') {
+      const tail = await readAt(file, Math.max(size - TAIL_BYTES, 0), TAIL_BYTES);
+      return probeOgg(head, tail);
+    }
+
+    if (head.toString('ascii', 0, 3) === 'ID3') {
+      // ID3v2 size is a 28-bit synchsafe integer; a footer adds another 10 bytes
+      const tagSize = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+      const audioStart = 10 + tagSize + (head[5] & 0x10 ? 10 : 0);
+      const frame = await readAt(file, audioStart, HEAD_BYTES);
+      return probeMp3(frame, size - audioStart);
+    }
+
+    if (head[0] === 0xff && (head[1] & 0xe0) === 0xe0) {
+      return probeMp3(head, size);
+    }
+
+    throw new AudioProbeError('Unsupported audio format (expected WAV, MP3, FLAC or Ogg)', 'UNSUPPORTED_AUDIO_FORMAT');
+
+  } finally {
+    await file.close();
+  }
+};
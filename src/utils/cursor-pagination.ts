@@ -0,0 +1,143 @@
+import { Model, Types } from 'mongoose';
+import { ValidationFailedError } from '../errors/app-errors';
+
+export type CursorDirection = 'next' | 'prev';
+
+/**
+ * Sort key for keyset pagination; `_id` is always added as the tie-breaker
+ */
+export interface KeysetSort {
+  field: string; // Dotted paths are allowed
+  type: 'date' | 'number';
+  order: 'asc' | 'desc';
+}
+
+export interface CursorPageOptions {
+  cursor?: string;
+  limit: number;
+  projection?: Record<string, unknown>;
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  next: string | null;
+  prev: string | null;
+}
+
+interface DecodedCursor {
+  value: Date | number | null;
+  id: Types.ObjectId;
+  direction: CursorDirection;
+}
+
+const sortKey = (sort: KeysetSort): string => `${sort.field}:${sort.order}`;
+
+const getPath = (doc: any, path: string): unknown =>
+  path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc);
+
+const encodeCursor = (doc: any, sort: KeysetSort, direction: CursorDirection): string => {
+  const value = getPath(doc, sort.field);
+  const payload = {
+    k: sortKey(sort),
+    v: value instanceof Date ? value.toISOString() : value ?? null,
+    id: doc._id.toString(),
+    d: direction
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+/**
+ * Decode an opaque cursor, rejecting cursors issued for a different sort
+ */
+const decodeCursor = (cursor: string, sort: KeysetSort): DecodedCursor => {
+  let payload: any;
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationFailedError('Invalid cursor', [{ field: 'query.cursor', message: 'is not a cursor returned by this listing' }], 'INVALID_CURSOR');
+  }
+
+  if (!payload || payload.k !== sortKey(sort) || !Types.ObjectId.isValid(payload.id) || !['next', 'prev'].includes(payload.d)) {
+    throw new ValidationFailedError('Invalid cursor for this sort order', [{ field: 'query.cursor', message: 'was issued for a different sort order' }], 'INVALID_CURSOR');
+  }
+
+  let value: Date | number | null = null;
+  if (payload.v !== null) {
+    value = sort.type === 'date' ? new Date(payload.v) : Number(payload.v);
+    if (typeof value === 'number' ? isNaN(value) : isNaN(value.getTime())) {
+      throw new ValidationFailedError('Invalid cursor', [{ field: 'query.cursor', message: 'is not a cursor returned by this listing' }], 'INVALID_CURSOR');
+    }
+  }
+
+  return { value, id: new Types.ObjectId(payload.id), direction: payload.d };
+};
+
+/**
+ * Filter for documents strictly after (value, id) when walking in `order`.
+ * Missing values sort before everything else in MongoDB, so they come last in descending order.
+ */
+const buildKeysetFilter = (field: string, value: Date | number | null, id: Types.ObjectId, order: 'asc' | 'desc'): any => {
+  const op = order === 'asc' ? '$gt' : '$lt';
+
+  if (value === null) {
+    return order === 'asc'
+      ? { $or: [{ [field]: null, _id: { $gt: id } }, { [field]: { $ne: null } }] }
+      : { [field]: null, _id: { $lt: id } };
+  }
+
+  const clauses: any[] = [
+    { [field]: { [op]: value } },
+    { [field]: value, _id: { [op]: id } }
+  ];
+  if (order === 'desc') {
+    clauses.push({ [field]: null });
+  }
+  return { $or: clauses };
+};
+
+/**
+ * Fetch one page of a keyset-paginated query. No counting and no skipping:
+ * each page is a range scan starting from the cursor position.
+ */
+export const findCursorPage = async <T>(
+  model: Model<any>,
+  query: any,
+  sort: KeysetSort,
+  options: CursorPageOptions
+): Promise<CursorPage<T>> => {
+  const decoded = options.cursor ? decodeCursor(options.cursor, sort) : undefined;
+  const backwards = decoded?.direction === 'prev';
+
+  // Walking backwards reads in the opposite order, then flips the page
+  const readOrder = backwards ? (sort.order === 'asc' ? 'desc' : 'asc') : sort.order;
+  const direction = readOrder === 'asc' ? 1 : -1;
+
+  const filter = decoded
+    ? { ...query, $and: [...(query.$and || []), buildKeysetFilter(sort.field, decoded.value, decoded.id, readOrder)] }
+    : query;
+
+  const docs = await model.find(filter, options.projection)
+    .sort({ [sort.field]: direction, _id: direction })
+    .limit(options.limit + 1)
+    .lean();
+
+  const hasMore = docs.length > options.limit;
+  const items = docs.slice(0, options.limit);
+  if (backwards) {
+    items.reverse();
+  }
+
+  if (items.length === 0) {
+    return { items: [], next: null, prev: null };
+  }
+
+  const hasNext = backwards ? true : hasMore;
+  const hasPrev = backwards ? hasMore : !!decoded;
+
+  return {
+    items: items as T[],
+    next: hasNext ? encodeCursor(items[items.length - 1], sort, 'next') : null,
+    prev: hasPrev ? encodeCursor(items[0], sort, 'prev') : null
+  };
+};
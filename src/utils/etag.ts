@@ -0,0 +1,22 @@
+/**
+ * Strong ETag for a version counter, e.g. `"3"`
+ */
+export const versionETag = (version: number): string => `"${version}"`;
+
+const VERSION_ETAG_PATTERN = /^"(\d+)"$/;
+
+/**
+ * Versions an `If-Match` header accepts. `*` accepts any version and gives undefined.
+ * If-Match uses strong comparison, so weak (`W/`) and unknown tags match no version.
+ */
+export const parseIfMatch = (header: string): number[] | undefined => {
+  if (header.trim() === '*') {
+    return undefined;
+  }
+
+  return header
+    .split(',')
+    .map(tag => VERSION_ETAG_PATTERN.exec(tag.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => Number(match[1]));
+};
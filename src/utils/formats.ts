@@ -0,0 +1,16 @@
+// Locale codes such as en-US, fr-FR or pt-BR
+export const LANGUAGE_CODE_PATTERN = /^[a-z]{2}-[A-Z]{2}$/;
+
+export const isLanguageCode = (value: string): boolean => LANGUAGE_CODE_PATTERN.test(value);
+
+/**
+ * Absolute http or https URL. Audio is only downloaded and webhooks are only delivered over HTTP(S).
+ */
+export const isHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
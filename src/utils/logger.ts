@@ -0,0 +1,145 @@
+import { config } from '../config/env';
+import { getRequestId } from './request-context';
+import { getCurrentTenantId } from './tenant-context';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100
+};
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged
+const SENSITIVE_KEY = /(token|secret|password|authorization|api[-_]?key|cookie|signature)/i;
+
+// Query strings of URLs often carry signed-URL credentials (SAS tokens, X-Amz-Signature, ...)
+const URL_QUERY = /(https?:\/\/[^\s?#"']+)\?[^\s#"']*/gi;
+
+const MAX_DEPTH = 5;
+
+/**
+ * Remove URL query strings from a string
+ */
+export const redactUrls = (value: string): string => value.replace(URL_QUERY, `$1?${REDACTED}`);
+
+const serializeError = (error: Error): LogFields => ({
+  name: error.name,
+  message: redactUrls(error.message),
+  ...((error as { code?: unknown }).code !== undefined && { code: (error as { code?: unknown }).code }),
+  stack: error.stack && redactUrls(error.stack)
+});
+
+/**
+ * Copy of a value that is safe to log: sensitive fields masked, URL query strings
+ * removed, errors serialized and nesting bounded
+ */
+export const redact = (value: unknown, depth: number = 0): unknown => {
+  if (typeof value === 'string') {
+    return redactUrls(value);
+  }
+
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  // ObjectIds and similar values log as their string form
+  if (typeof (value as { toHexString?: unknown }).toHexString === 'function') {
+    return String(value);
+  }
+
+  const result: LogFields = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redact(fieldValue, depth + 1);
+  }
+  return result;
+};
+
+/**
+ * Structured logger writing one JSON object per line (or a readable line with
+ * LOG_FORMAT=pretty). Every entry carries the correlation id and tenant of the
+ * request or job it was written for.
+ */
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  /**
+   * Logger that adds `bindings` to every entry
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    const threshold = LEVELS[config.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+    if (LEVELS[level] < threshold) {
+      return;
+    }
+
+    const entry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message: redactUrls(message),
+      requestId: getRequestId(),
+      tenantId: getCurrentTenantId(),
+      ...(redact({ ...this.bindings, ...fields }) as LogFields)
+    };
+
+    const line = config.LOG_FORMAT === 'pretty' ? this.formatPretty(entry) : JSON.stringify(entry);
+
+    // Written through the console so test setup can silence it
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+
+  private formatPretty(entry: LogFields & { timestamp: string; level: LogLevel; message: string }): string {
+    const { timestamp, level, message, ...fields } = entry;
+    const context = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+      .join(' ');
+
+    return `${timestamp} ${level.toUpperCase().padEnd(5)} ${message}${context ? ` ${context}` : ''}`;
+  }
+}
+
+export const logger = new Logger();
@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const requestIdStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Run `fn` (and everything it awaits) under a correlation id. Without an id,
+ * `fn` runs in the caller's context.
+ */
+export const runWithRequestId = <T>(requestId: string | undefined, fn: () => T): T =>
+  requestId ? requestIdStorage.run(requestId, fn) : fn();
+
+/**
+ * Correlation id of the current request, or of the request that queued the
+ * current job or scheduled transition
+ */
+export const getRequestId = (): string | undefined => requestIdStorage.getStore();
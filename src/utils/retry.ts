@@ -0,0 +1,6 @@
+/**
+ * Exponential backoff: `baseDelay` before the second attempt, doubling after
+ * every further failure, capped at `maxDelay`
+ */
+export const calculateBackoffDelay = (attempt: number, baseDelay: number, maxDelay: number): number =>
+  Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
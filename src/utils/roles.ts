@@ -0,0 +1,12 @@
+// Roles an authenticated principal can hold; admin may perform every transition
+export type Role = 'transcriber' | 'reviewer' | 'approver' | 'admin';
+
+export const ROLES: Role[] = ['transcriber', 'reviewer', 'approver', 'admin'];
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+/**
+ * Keep the known roles from an untrusted list (JWT claim, request body), dropping duplicates
+ */
+export const parseRoles = (value: unknown): Role[] =>
+  Array.isArray(value) ? Array.from(new Set(value.filter(isRole))) : [];
@@ -0,0 +1,412 @@
+import { FieldError } from '../errors/app-errors';
+import { isHttpUrl, isLanguageCode, LANGUAGE_CODE_PATTERN } from './formats';
+
+export interface ParseContext {
+  errors: FieldError[];
+  // Query strings and path parameters arrive as strings, so numbers, booleans and lists are parsed from them
+  coerce: boolean;
+}
+
+type Message = string | (() => string);
+
+export interface FieldOptions {
+  // Replaces the generated message when a value is present but invalid
+  message?: Message;
+}
+
+export interface StringOptions extends FieldOptions {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+}
+
+export interface NumberOptions extends FieldOptions {
+  min?: number;
+  max?: number;
+}
+
+export interface ArrayOptions extends FieldOptions {
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * JSON Schema (OpenAPI 3.0 subset) describing a field, used for the API documentation
+ */
+export interface JsonSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  format?: string;
+  pattern?: string;
+  enum?: readonly string[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+interface StringFormat {
+  test: (value: string) => boolean;
+  requirement: string;
+  schema: JsonSchema;
+}
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Last segment of a field path, used in messages: `body.audioUrl` → `audioUrl`
+ */
+const labelOf = (path: string): string => path.slice(path.lastIndexOf('.') + 1);
+
+/**
+ * Declarative schema for one value. `parse` returns the typed value, or records
+ * field errors and returns undefined.
+ */
+export abstract class Field<T> {
+  protected isOptional = false;
+  protected defaultValue: T | undefined = undefined;
+
+  constructor(protected readonly options: FieldOptions = {}) {}
+
+  /**
+   * Allow the value to be missing
+   */
+  optional(): Field<T | undefined> {
+    return this.copy({ isOptional: true });
+  }
+
+  /**
+   * Use `value` when the value is missing
+   */
+  default(value: T): Field<T> {
+    return this.copy({ isOptional: true, defaultValue: value });
+  }
+
+  isRequired(): boolean {
+    return !this.isOptional;
+  }
+
+  toJSONSchema(): JsonSchema {
+    const schema = this.describe();
+    return this.defaultValue === undefined ? schema : { ...schema, default: this.defaultValue };
+  }
+
+  parse(value: unknown, path: string, context: ParseContext): T | undefined {
+    // null and (in query strings) empty values count as missing, like an omitted field
+    if (value === undefined || value === null || (context.coerce && value === '')) {
+      if (!this.isOptional) {
+        context.errors.push({ field: path, message: `${labelOf(path)} is required` });
+      }
+      return this.defaultValue;
+    }
+
+    return this.check(value, path, context);
+  }
+
+  protected abstract check(value: unknown, path: string, context: ParseContext): T | undefined;
+
+  protected abstract describe(): JsonSchema;
+
+  /**
+   * Record that the value is not `requirement` (e.g. "an integer between 1 and 100")
+   */
+  protected fail(path: string, context: ParseContext, requirement: string): undefined {
+    return this.reject(path, context, `${labelOf(path)} must be ${requirement}`);
+  }
+
+  protected reject(path: string, context: ParseContext, generated: string): undefined {
+    const { message } = this.options;
+    context.errors.push({
+      field: path,
+      message: message === undefined ? generated : typeof message === 'function' ? message() : message
+    });
+    return undefined;
+  }
+
+  protected copy<R>(changes: { isOptional?: boolean; defaultValue?: T }): R {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, changes);
+  }
+}
+
+export class StringField extends Field<string> {
+  constructor(private readonly constraints: StringOptions = {}, private readonly format?: StringFormat) {
+    super(constraints);
+  }
+
+  protected check(value: unknown, path: string, context: ParseContext): string | undefined {
+    if (typeof value !== 'string') {
+      return this.fail(path, context, 'a string');
+    }
+
+    const { minLength, maxLength, pattern } = this.constraints;
+
+    if (minLength !== undefined && value.trim().length < minLength) {
+      return this.fail(path, context, minLength === 1 ? 'a non-empty string' : `at least ${minLength} characters`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      return this.fail(path, context, `at most ${maxLength} characters`);
+    }
+    if (pattern && !pattern.test(value)) {
+      return this.fail(path, context, `a string matching ${pattern}`);
+    }
+    if (this.format && !this.format.test(value)) {
+      return this.fail(path, context, this.format.requirement);
+    }
+
+    return value;
+  }
+
+  protected describe(): JsonSchema {
+    const { minLength, maxLength, pattern } = this.constraints;
+    return {
+      type: 'string',
+      ...(minLength !== undefined && { minLength }),
+      ...(maxLength !== undefined && { maxLength }),
+      ...(pattern && { pattern: pattern.source }),
+      ...this.format?.schema
+    };
+  }
+}
+
+export class NumberField extends Field<number> {
+  constructor(private readonly constraints: NumberOptions = {}, private readonly integer: boolean = false) {
+    super(constraints);
+  }
+
+  protected check(value: unknown, path: string, context: ParseContext): number | undefined {
+    const number = typeof value === 'number'
+      ? value
+      : context.coerce && typeof value === 'string' && NUMERIC.test(value) ? Number(value) : NaN;
+    const { min, max } = this.constraints;
+
+    if (
+      !Number.isFinite(number) ||
+      (this.integer && !Number.isInteger(number)) ||
+      (min !== undefined && number < min) ||
+      (max !== undefined && number > max)
+    ) {
+      const kind = this.integer ? 'an integer' : 'a number';
+      const range = min !== undefined && max !== undefined
+        ? ` between ${min} and ${max}`
+        : min !== undefined ? ` of at least ${min}` : max !== undefined ? ` of at most ${max}` : '';
+      return this.fail(path, context, kind + range);
+    }
+
+    return number;
+  }
+
+  protected describe(): JsonSchema {
+    const { min, max } = this.constraints;
+    return {
+      type: this.integer ? 'integer' : 'number',
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max })
+    };
+  }
+}
+
+export class BooleanField extends Field<boolean> {
+  protected check(value: unknown, path: string, context: ParseContext): boolean | undefined {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (context.coerce && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    return this.fail(path, context, 'true or false');
+  }
+
+  protected describe(): JsonSchema {
+    return { type: 'boolean' };
+  }
+}
+
+export class DateField extends Field<Date> {
+  protected check(value: unknown, path: string, context: ParseContext): Date | undefined {
+    const date = typeof value === 'string' ? new Date(value) : undefined;
+
+    if (!date || isNaN(date.getTime())) {
+      return this.fail(path, context, 'a valid ISO 8601 date');
+    }
+    return date;
+  }
+
+  protected describe(): JsonSchema {
+    return { type: 'string', format: 'date-time' };
+  }
+}
+
+export class EnumField<T extends string> extends Field<T> {
+  constructor(private readonly values: readonly T[] | (() => readonly T[]), options: FieldOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Allowed values; a function is evaluated on every request (e.g. registered speech providers)
+   */
+  getValues(): readonly T[] {
+    return typeof this.values === 'function' ? this.values() : this.values;
+  }
+
+  protected check(value: unknown, path: string, context: ParseContext): T | undefined {
+    const values = this.getValues();
+
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      return this.reject(path, context, `Invalid ${labelOf(path)}. Must be one of: ${values.join(', ')}`);
+    }
+    return value as T;
+  }
+
+  protected describe(): JsonSchema {
+    return { type: 'string', enum: this.getValues() };
+  }
+}
+
+export class ArrayField<T> extends Field<T[]> {
+  constructor(private readonly item: Field<T>, private readonly constraints: ArrayOptions = {}) {
+    super(constraints);
+  }
+
+  protected check(value: unknown, path: string, context: ParseContext): T[] | undefined {
+    // Lists in query strings are comma-separated (?types=a,b)
+    const items = context.coerce && typeof value === 'string'
+      ? value.split(',').map(item => item.trim())
+      : value;
+
+    if (!Array.isArray(items)) {
+      return this.fail(path, context, 'an array');
+    }
+
+    const { minItems, maxItems } = this.constraints;
+    if (minItems !== undefined && items.length < minItems) {
+      return this.fail(path, context, minItems === 1 ? 'a non-empty array' : `an array of at least ${minItems} items`);
+    }
+    if (maxItems !== undefined && items.length > maxItems) {
+      return this.fail(path, context, `an array of at most ${maxItems} items`);
+    }
+
+    const errorCount = context.errors.length;
+    const result = items.map((item, index) => this.item.parse(item, `${path}[${index}]`, context));
+
+    return context.errors.length > errorCount ? undefined : result as T[];
+  }
+
+  protected describe(): JsonSchema {
+    const { minItems, maxItems } = this.constraints;
+    return {
+      type: 'array',
+      items: this.item.toJSONSchema(),
+      ...(minItems !== undefined && { minItems }),
+      ...(maxItems !== undefined && { maxItems })
+    };
+  }
+}
+
+export type Shape = Record<string, Field<unknown>>;
+
+/**
+ * Value type produced by a field
+ */
+export type Infer<F> = F extends Field<infer T> ? T : never;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * Object type produced by a shape; fields that may be missing become optional properties
+ */
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+interface Refinement<T> {
+  check(value: T): string | undefined;
+  field?: string;
+}
+
+export class ObjectField<S extends Shape> extends Field<InferShape<S>> {
+  private refinements: Refinement<InferShape<S>>[] = [];
+
+  constructor(readonly shape: S, options: FieldOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Add a rule spanning several fields. `check` runs once every field is valid and
+   * returns an error message, reported against `field` (or the whole object).
+   */
+  refine(check: (value: InferShape<S>) => string | undefined, field?: keyof S & string): ObjectField<S> {
+    const refined = this.copy<ObjectField<S>>({});
+    refined.refinements = [...this.refinements, { check, field }];
+    return refined;
+  }
+
+  protected check(value: unknown, path: string, context: ParseContext): InferShape<S> | undefined {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      return this.fail(path, context, 'an object');
+    }
+
+    // Properties that are not in the shape are dropped
+    const errorCount = context.errors.length;
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(this.shape)) {
+      const parsed = field.parse((value as Record<string, unknown>)[key], `${path}.${key}`, context);
+      if (parsed !== undefined) {
+        result[key] = parsed;
+      }
+    }
+
+    if (context.errors.length > errorCount) {
+      return undefined;
+    }
+
+    for (const { check, field } of this.refinements) {
+      const message = check(result as InferShape<S>);
+      if (message) {
+        context.errors.push({ field: field ? `${path}.${field}` : path, message });
+      }
+    }
+
+    return context.errors.length > errorCount ? undefined : result as InferShape<S>;
+  }
+
+  // Rules added with refine() cannot be expressed in JSON Schema and are left out
+  protected describe(): JsonSchema {
+    const entries = Object.entries(this.shape);
+    const required = entries.filter(([, field]) => field.isRequired()).map(([key]) => key);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(entries.map(([key, field]) => [key, field.toJSONSchema()])),
+      ...(required.length > 0 && { required })
+    };
+  }
+}
+
+/**
+ * Field builders for request schemas
+ */
+export const field = {
+  string: (options?: StringOptions) => new StringField(options),
+  httpUrl: (options?: FieldOptions) =>
+    new StringField(options, { test: isHttpUrl, requirement: 'an http or https URL', schema: { format: 'uri' } }),
+  language: (options?: FieldOptions) => new StringField(options, {
+    test: isLanguageCode,
+    requirement: 'in format xx-XX (e.g., en-US, fr-FR)',
+    schema: { pattern: LANGUAGE_CODE_PATTERN.source }
+  }),
+  integer: (options?: NumberOptions) => new NumberField(options, true),
+  number: (options?: NumberOptions) => new NumberField(options),
+  boolean: (options?: FieldOptions) => new BooleanField(options),
+  date: (options?: FieldOptions) => new DateField(options),
+  enum: <T extends string>(values: readonly T[] | (() => readonly T[]), options?: FieldOptions) => new EnumField<T>(values, options),
+  array: <T>(item: Field<T>, options?: ArrayOptions) => new ArrayField<T>(item, options),
+  object: <S extends Shape>(shape: S, options?: FieldOptions) => new ObjectField<S>(shape, options)
+};
@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Tenant used for unauthenticated requests when authentication is not required
+export const DEFAULT_TENANT_ID = 'default';
+
+const tenantStorage = new AsyncLocalStorage<string>();
+
+/**
+ * Run `fn` (and everything it awaits) on behalf of a tenant
+ */
+export const runWithTenant = <T>(tenantId: string, fn: () => T): T => tenantStorage.run(tenantId, fn);
+
+/**
+ * Tenant of the current request or job; undefined in background code such as pollers
+ */
+export const getCurrentTenantId = (): string | undefined => tenantStorage.getStore();
@@ -0,0 +1,151 @@
+import { ITranscription } from '../models/Transcription.model';
+import { TranscriptSegment } from '../providers/speech.provider';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'txt' | 'json' | 'md';
+
+export type ExportableTranscription = Pick<
+  ITranscription,
+  'audioUrl' | 'uploadId' | 'transcription' | 'confidence' | 'segments' | 'source' | 'language' | 'audioMetadata' | 'createdAt'
+> & { _id: { toString(): string } };
+
+interface ExportFormatDefinition {
+  contentType: string;
+  extension: string;
+  render: (transcription: ExportableTranscription) => string;
+}
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Format seconds as HH:MM:SS followed by `separator` and milliseconds
+ */
+const formatTimestamp = (seconds: number, separator: string): string => {
+  const totalMs = Math.max(Math.round(seconds * 1000), 0);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+/**
+ * Segments to render; transcriptions stored before timing was available become a single cue
+ */
+const getSegments = (transcription: ExportableTranscription): TranscriptSegment[] => {
+  if (transcription.segments && transcription.segments.length > 0) {
+    return transcription.segments;
+  }
+
+  return [{
+    speaker: '',
+    start: 0,
+    end: transcription.audioMetadata?.durationSeconds || 0,
+    text: transcription.transcription,
+    confidence: transcription.confidence ?? 0,
+    words: []
+  }];
+};
+
+/**
+ * Speaker labels are only worth showing when there is more than one speaker
+ */
+const hasMultipleSpeakers = (segments: TranscriptSegment[]): boolean =>
+  new Set(segments.map(segment => segment.speaker)).size > 1;
+
+const renderSrt = (transcription: ExportableTranscription): string => {
+  const segments = getSegments(transcription);
+  const withSpeakers = hasMultipleSpeakers(segments);
+
+  return segments.map((segment, index) => [
+    String(index + 1),
+    `${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}`,
+    withSpeakers ? `${segment.speaker}: ${segment.text}` : segment.text
+  ].join('\n')).join('\n\n') + '\n';
+};
+
+const renderVtt = (transcription: ExportableTranscription): string => {
+  const segments = getSegments(transcription);
+  const withSpeakers = hasMultipleSpeakers(segments);
+
+  const cues = segments.map(segment => [
+    `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}`,
+    withSpeakers ? `<v ${segment.speaker}>${segment.text}` : segment.text
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+const renderTxt = (transcription: ExportableTranscription): string => {
+  const segments = getSegments(transcription);
+
+  if (!hasMultipleSpeakers(segments)) {
+    return transcription.transcription + '\n';
+  }
+
+  return segments.map(segment => `${segment.speaker}: ${segment.text}`).join('\n\n') + '\n';
+};
+
+/**
+ * Plain object representation shared by the JSON and NDJSON exports
+ */
+export const toExportRecord = (transcription: ExportableTranscription): Record<string, unknown> => ({
+  id: transcription._id.toString(),
+  audioUrl: transcription.audioUrl,
+  uploadId: transcription.uploadId,
+  source: transcription.source,
+  language: transcription.language,
+  confidence: transcription.confidence,
+  audioMetadata: transcription.audioMetadata,
+  createdAt: transcription.createdAt,
+  transcription: transcription.transcription,
+  segments: transcription.segments || []
+});
+
+const renderJson = (transcription: ExportableTranscription): string =>
+  JSON.stringify(toExportRecord(transcription), null, 2) + '\n';
+
+/**
+ * Document-style export: a metadata table followed by one paragraph per speaker turn
+ */
+const renderMarkdown = (transcription: ExportableTranscription): string => {
+  const segments = getSegments(transcription);
+  const details: Array<[string, string | undefined]> = [
+    ['Audio', transcription.audioUrl || (transcription.uploadId && `Upload ${transcription.uploadId}`)],
+    ['Language', transcription.language],
+    ['Source', transcription.source],
+    ['Duration', transcription.audioMetadata && formatTimestamp(transcription.audioMetadata.durationSeconds, '.')],
+    ['Confidence', transcription.confidence !== undefined ? `${Math.round(transcription.confidence * 100)}%` : undefined],
+    ['Created', transcription.createdAt && new Date(transcription.createdAt).toISOString()]
+  ];
+
+  const lines = [
+    `# Transcript ${transcription._id.toString()}`,
+    '',
+    '| Field | Value |',
+    '| --- | --- |',
+    ...details.filter(([, value]) => value).map(([field, value]) => `| ${field} | ${value} |`),
+    '',
+    '## Transcript',
+    ''
+  ];
+
+  for (const segment of segments) {
+    const heading = [segment.speaker && `**${segment.speaker}**`, `_${formatTimestamp(segment.start, '.')}_`]
+      .filter(Boolean)
+      .join(' ');
+    lines.push(heading, '', segment.text, '');
+  }
+
+  return lines.join('\n');
+};
+
+export const TRANSCRIPT_EXPORT_FORMATS: Record<TranscriptExportFormat, ExportFormatDefinition> = {
+  srt: { contentType: 'application/x-subrip; charset=utf-8', extension: 'srt', render: renderSrt },
+  vtt: { contentType: 'text/vtt; charset=utf-8', extension: 'vtt', render: renderVtt },
+  txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt', render: renderTxt },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json', render: renderJson },
+  md: { contentType: 'text/markdown; charset=utf-8', extension: 'md', render: renderMarkdown }
+};
+
+export const isTranscriptExportFormat = (format: string): format is TranscriptExportFormat =>
+  Object.prototype.hasOwnProperty.call(TRANSCRIPT_EXPORT_FORMATS, format);
@@ -0,0 +1,89 @@
+import { TranscriptSegment, TranscriptWord } from '../providers/speech.provider';
+
+const SECONDS_PER_WORD = 0.4; // Used when the audio duration is unknown
+
+export interface TimedTranscriptOptions {
+  durationSeconds: number;
+  speakers?: number; // Sentences alternate between this many speakers
+  minConfidence?: number;
+  maxConfidence?: number;
+}
+
+export interface TimedTranscript {
+  confidence: number;
+  segments: TranscriptSegment[];
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?。！？])\s*/).map(sentence => sentence.trim()).filter(Boolean);
+
+/**
+ * Space-separated languages split on whitespace; others (e.g. Japanese, Chinese) per character
+ */
+const splitWords = (sentence: string): string[] => {
+  if (/\s/.test(sentence)) {
+    return sentence
+      .split(/\s+/)
+      .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+      .filter(Boolean);
+  }
+  return Array.from(sentence).filter(char => /[\p{L}\p{N}]/u.test(char));
+};
+
+/**
+ * Overall confidence of a transcript, weighted by the number of words in each segment
+ */
+export const summarizeConfidence = (segments: TranscriptSegment[]): number => {
+  const words = segments.flatMap(segment => segment.words);
+
+  if (words.length === 0) {
+    return segments.length ? round(segments.reduce((sum, segment) => sum + segment.confidence, 0) / segments.length) : 0;
+  }
+
+  return round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length);
+};
+
+/**
+ * Lay out plain text over the audio duration as speaker segments with word timings.
+ * Used by mock engines, which have no real alignment to report.
+ */
+export const buildTimedTranscript = (text: string, options: TimedTranscriptOptions): TimedTranscript => {
+  const { speakers = 1, minConfidence = 0.8, maxConfidence = 0.99 } = options;
+
+  const sentences = splitSentences(text)
+    .map(sentence => ({ text: sentence, words: splitWords(sentence) }))
+    .filter(sentence => sentence.words.length > 0);
+
+  const wordCount = sentences.reduce((sum, sentence) => sum + sentence.words.length, 0);
+  const duration = options.durationSeconds > 0 ? options.durationSeconds : wordCount * SECONDS_PER_WORD;
+  const secondsPerWord = wordCount ? duration / wordCount : 0;
+
+  let cursor = 0;
+  const segments = sentences.map((sentence, index): TranscriptSegment => {
+    const start = cursor;
+
+    const words = sentence.words.map((word): TranscriptWord => {
+      const timed = {
+        text: word,
+        start: round(cursor),
+        end: round(cursor + secondsPerWord),
+        confidence: round(minConfidence + Math.random() * (maxConfidence - minConfidence))
+      };
+      cursor += secondsPerWord;
+      return timed;
+    });
+
+    return {
+      speaker: `Speaker ${(index % speakers) + 1}`,
+      start: round(start),
+      end: round(cursor),
+      text: sentence.text,
+      confidence: round(words.reduce((sum, word) => sum + word.confidence, 0) / words.length),
+      words
+    };
+  });
+
+  return { confidence: summarizeConfidence(segments), segments };
+};
@@ -0,0 +1,82 @@
+import { KeysetSort } from './cursor-pagination';
+import { ValidationFailedError } from '../errors/app-errors';
+
+export interface TranscriptionFilters {
+  from?: Date;
+  to?: Date;
+  source?: string;
+  language?: string;
+  workflowStatus?: string;
+  audioHost?: string; // Matches audioUrl hosts, with or without a port
+  search?: string; // Full-text search over the transcription text
+}
+
+export type TranscriptionSortField = 'createdAt' | 'updatedAt' | 'confidence' | 'duration' | 'relevance';
+
+export const TRANSCRIPTION_SORT_FIELDS: TranscriptionSortField[] = ['createdAt', 'updatedAt', 'confidence', 'duration', 'relevance'];
+
+const SORT_KEYS: Record<Exclude<TranscriptionSortField, 'relevance'>, Pick<KeysetSort, 'field' | 'type'>> = {
+  createdAt: { field: 'createdAt', type: 'date' },
+  updatedAt: { field: 'updatedAt', type: 'date' },
+  confidence: { field: 'confidence', type: 'number' },
+  duration: { field: 'audioMetadata.durationSeconds', type: 'number' }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the MongoDB filter for a set of transcription filters
+ */
+export const buildTranscriptionQuery = (filters: TranscriptionFilters): any => {
+  const query: any = {};
+
+  if (filters.source) {
+    query.source = filters.source;
+  }
+  if (filters.language) {
+    query.language = filters.language;
+  }
+  if (filters.workflowStatus) {
+    query.workflowStatus = filters.workflowStatus;
+  }
+  if (filters.audioHost) {
+    // Anchored so the host cannot match inside a path or query string
+    query.audioUrl = new RegExp(`^[a-z]+://${escapeRegExp(filters.audioHost)}(:\\d+)?(/|$)`, 'i');
+  }
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to })
+    };
+  }
+  if (filters.search) {
+    query.$text = { $search: filters.search };
+  }
+
+  return query;
+};
+
+/**
+ * Sort specification for a field and direction; `_id` breaks ties so pages are stable.
+ * Relevance is always highest score first and needs a text search.
+ */
+export const buildTranscriptionSort = (sortBy: TranscriptionSortField, sortOrder: 'asc' | 'desc'): any => {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  if (sortBy === 'relevance') {
+    return { score: { $meta: 'textScore' }, _id: -1 };
+  }
+
+  return { [SORT_KEYS[sortBy].field]: direction, _id: direction };
+};
+
+/**
+ * Keyset for cursor pagination. Relevance scores are not stable positions, so they cannot be used.
+ */
+export const getTranscriptionKeysetSort = (sortBy: TranscriptionSortField, sortOrder: 'asc' | 'desc'): KeysetSort => {
+  if (sortBy === 'relevance') {
+    throw new ValidationFailedError('Cursor pagination does not support sorting by relevance', [{ field: 'query.sortBy', message: 'relevance cannot be combined with cursor pagination' }]);
+  }
+
+  return { ...SORT_KEYS[sortBy], order: sortOrder };
+};
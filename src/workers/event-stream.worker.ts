@@ -0,0 +1,16 @@
+import { config } from '../config/env';
+import { EventStreamService } from '../services/event-stream.service';
+import { PollingWorker } from './polling.worker';
+
+/**
+ * Polls recorded events for the open event streams of this instance
+ */
+export class EventStreamWorker extends PollingWorker {
+  constructor(private streams: EventStreamService) {
+    super('Event stream worker', config.EVENT_STREAM_POLL_INTERVAL_MS);
+  }
+
+  public async drain(): Promise<number> {
+    return this.streams.poll();
+  }
+}
@@ -0,0 +1,33 @@
+import { JobQueueService } from '../services/job-queue.service';
+import { TranscriptionService, CreateTranscriptionRequest } from '../services/transcription.service';
+import { AzureService, AzureTranscriptionRequest } from '../services/azure.service';
+import { webhookService, WEBHOOK_DELIVERY_JOB } from '../services/webhook.service';
+
+export const JOB_TYPES = {
+  TRANSCRIPTION: 'transcription',
+  AZURE_TRANSCRIPTION: 'azure-transcription',
+  WEBHOOK_DELIVERY: WEBHOOK_DELIVERY_JOB
+} as const;
+
+/**
+ * Register the handlers for every job type the API enqueues
+ */
+export const registerJobHandlers = (queue: JobQueueService): void => {
+  const transcriptionService = new TranscriptionService();
+  const azureService = new AzureService();
+
+  // The job id makes the save idempotent should a job run twice
+  queue.registerHandler(JOB_TYPES.TRANSCRIPTION, async (payload, jobId) => {
+    const result = await transcriptionService.createTranscription({ ...payload as CreateTranscriptionRequest, jobId });
+    return { ...result };
+  });
+
+  queue.registerHandler(JOB_TYPES.AZURE_TRANSCRIPTION, async (payload, jobId) => {
+    const result = await azureService.createAzureTranscription({ ...payload as AzureTranscriptionRequest, jobId });
+    return { ...result };
+  });
+
+  queue.registerHandler(JOB_TYPES.WEBHOOK_DELIVERY, async (payload) => {
+    return webhookService.deliver(payload.deliveryId);
+  });
+};
@@ -0,0 +1,22 @@
+import { config } from '../config/env';
+import { JobQueueService } from '../services/job-queue.service';
+import { PollingWorker } from './polling.worker';
+
+/**
+ * Polls the job queue and processes runnable jobs one at a time
+ */
+export class JobWorker extends PollingWorker {
+  constructor(private queue: JobQueueService) {
+    super('Job worker', config.JOB_POLL_INTERVAL_MS);
+  }
+
+  public async drain(): Promise<number> {
+    let processed = 0;
+
+    while (await this.queue.processNext(this.workerId)) {
+      processed++;
+    }
+
+    return processed;
+  }
+}
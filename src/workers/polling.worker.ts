@@ -0,0 +1,58 @@
+import os from 'os';
+import { logger } from '../utils/logger';
+
+/**
+ * Base class for background workers that poll MongoDB on an interval.
+ *
+ * Each tick drains everything that is currently runnable; a tick is skipped
+ * while the previous one is still running.
+ */
+export abstract class PollingWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  protected readonly workerId: string;
+
+  constructor(protected readonly name: string, private readonly intervalMs: number) {
+    this.workerId = `${os.hostname()}:${process.pid}`;
+  }
+
+  /**
+   * Process runnable work until nothing is left to claim
+   */
+  public abstract drain(): Promise<number>;
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.poll();
+    }, this.intervalMs);
+
+    logger.info(`${this.name} started`, { workerId: this.workerId, pollIntervalMs: this.intervalMs });
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info(`${this.name} stopped`, { workerId: this.workerId });
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.drain();
+    } catch (error) {
+      logger.error(`Error polling in ${this.name}`, { workerId: this.workerId, error });
+    } finally {
+      this.polling = false;
+    }
+  }
+}
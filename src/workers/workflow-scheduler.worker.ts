@@ -0,0 +1,48 @@
+import { config } from '../config/env';
+import { WorkflowSchedulerService } from '../services/workflow-scheduler.service';
+import { WorkflowService } from '../services/workflow.service';
+import { PollingWorker } from './polling.worker';
+import { IScheduledTransition } from '../models/ScheduledTransition.model';
+import { logger } from '../utils/logger';
+import { runWithRequestId } from '../utils/request-context';
+
+/**
+ * Applies due scheduled workflow transitions
+ */
+export class WorkflowSchedulerWorker extends PollingWorker {
+  constructor(
+    private scheduler: WorkflowSchedulerService,
+    private workflowService: WorkflowService
+  ) {
+    super('Workflow scheduler', config.WORKFLOW_SCHEDULER_POLL_INTERVAL_MS);
+  }
+
+  public async drain(): Promise<number> {
+    let processed = 0;
+    let scheduled = await this.scheduler.claimNext(this.workerId);
+
+    while (scheduled) {
+      const current = scheduled;
+      // Background progression logs under the correlation id of the request that started the workflow
+      await runWithRequestId(current.requestId, () => this.apply(current));
+
+      processed++;
+      scheduled = await this.scheduler.claimNext(this.workerId);
+    }
+
+    return processed;
+  }
+
+  /**
+   * Apply one claimed transition, recording it as completed, skipped or failed
+   */
+  private async apply(scheduled: IScheduledTransition): Promise<void> {
+    try {
+      const applied = await this.workflowService.applyScheduledTransition(scheduled);
+      await this.scheduler.complete(scheduled, this.workerId, applied ? 'completed' : 'skipped');
+    } catch (error) {
+      logger.error('Scheduled transition failed', { scheduleId: scheduled._id, error });
+      await this.scheduler.fail(scheduled, this.workerId, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
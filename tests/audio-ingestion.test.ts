@@ -0,0 +1,178 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { config } from '../src/config/env';
+import { AudioIngestionError, AudioIngestionService } from '../src/services/audio-ingestion.service';
+import { probeAudioFile } from '../src/utils/audio-probe';
+import { startAudioServer, createWavBuffer, AudioStandInServer } from './helpers/audio-server';
+
+/**
+ * FLAC with only a STREAMINFO block (16-bit samples)
+ */
+const createFlacBuffer = (totalSamples: number, sampleRate: number, channels: number): Buffer => {
+  const info = Buffer.alloc(34);
+  info[10] = sampleRate >> 12;
+  info[11] = (sampleRate >> 4) & 0xff;
+  info[12] = ((sampleRate & 0x0f) << 4) | ((channels - 1) << 1);
+  info[13] = 0xf0;
+  info.writeUInt32BE(totalSamples, 14);
+
+  return Buffer.concat([Buffer.from('fLaC', 'ascii'), Buffer.from([0x80, 0, 0, 34]), info]);
+};
+
+/**
+ * Constant bitrate MPEG-1 Layer III: 128 kbps, 44.1 kHz, mono
+ */
+const createMp3Buffer = (frames: number): Buffer => {
+  const frame = Buffer.alloc(417);
+  frame.writeUInt32BE(0xfffb90c0, 0);
+  return Buffer.concat(Array.from({ length: frames }, () => frame));
+};
+
+describe('Audio ingestion', () => {
+  let audioServer: AudioStandInServer;
+  const service = new AudioIngestionService();
+
+  beforeAll(async () => {
+    audioServer = await startAudioServer();
+  });
+
+  afterAll(async () => {
+    await audioServer.close();
+  });
+
+  describe('AudioIngestionService', () => {
+    it('should download and probe the audio, then remove the temporary file', async () => {
+      let filePath = '';
+
+      const metadata = await service.withIngestedAudio({ audioUrl: audioServer.url('/sample.wav') }, async (audio) => {
+        filePath = audio.filePath;
+        await expect(fs.access(filePath)).resolves.toBeUndefined();
+        return audio.metadata;
+      });
+
+      expect(metadata).toMatchObject({
+        format: 'wav',
+        codec: 'pcm',
+        durationSeconds: 2,
+        sampleRate: 16000,
+        channels: 1,
+        contentType: 'audio/wav'
+      });
+      await expect(fs.access(filePath)).rejects.toThrow();
+    });
+
+    it('should reject non-http URLs', async () => {
+      await expect(service.ingest({ audioUrl: 'ftp://example.com/sample.wav' })).rejects.toMatchObject({ code: 'UNSUPPORTED_URL' });
+    });
+
+    it('should refuse hosts that resolve to loopback, private or link-local addresses', async () => {
+      const urls = [
+        audioServer.url('/sample.wav').replace('127.0.0.1', 'localhost'),
+        'http://10.0.0.8/sample.wav',
+        'http://169.254.169.254/latest/meta-data/',
+        'http://[::1]/sample.wav'
+      ];
+
+      for (const audioUrl of urls) {
+        await expect(service.ingest({ audioUrl })).rejects.toMatchObject({ code: 'UNSUPPORTED_URL' });
+      }
+    });
+
+    it('should refuse redirects to internal addresses', async () => {
+      audioServer.setRoute('/to-metadata.wav', { body: Buffer.alloc(0), status: 302, location: 'http://169.254.169.254/latest/meta-data/' });
+      audioServer.setRoute('/to-loopback.wav', { body: Buffer.alloc(0), status: 302, location: audioServer.url('/sample.wav').replace('127.0.0.1', 'localhost') });
+
+      await expect(service.ingest({ audioUrl: audioServer.url('/to-metadata.wav') })).rejects.toMatchObject({ code: 'UNSUPPORTED_URL' });
+      await expect(service.ingest({ audioUrl: audioServer.url('/to-loopback.wav') })).rejects.toMatchObject({ code: 'UNSUPPORTED_URL' });
+    });
+
+    it('should reject content types that are not audio', async () => {
+      audioServer.setRoute('/page.html', { body: Buffer.from('<html></html>'), contentType: 'text/html' });
+
+      await expect(service.ingest({ audioUrl: audioServer.url('/page.html') })).rejects.toMatchObject({ code: 'UNSUPPORTED_CONTENT_TYPE' });
+    });
+
+    it('should reject files above the size limit', async () => {
+      const maxBytes = config.AUDIO_MAX_BYTES;
+      config.AUDIO_MAX_BYTES = 1024;
+
+      try {
+        await expect(service.ingest({ audioUrl: audioServer.url('/sample.wav') })).rejects.toMatchObject({ code: 'AUDIO_TOO_LARGE' });
+      } finally {
+        config.AUDIO_MAX_BYTES = maxBytes;
+      }
+    });
+
+    it('should time out slow downloads as a retryable error', async () => {
+      const timeoutMs = config.AUDIO_DOWNLOAD_TIMEOUT_MS;
+      config.AUDIO_DOWNLOAD_TIMEOUT_MS = 100;
+      audioServer.setRoute('/slow.wav', { body: createWavBuffer(1), contentType: 'audio/wav', delayMs: 500 });
+
+      try {
+        const error = await service.ingest({ audioUrl: audioServer.url('/slow.wav') }).catch(e => e);
+        expect(error).toBeInstanceOf(AudioIngestionError);
+        expect(error.code).toBe('DOWNLOAD_TIMEOUT');
+        expect(error.retryable).toBe(true);
+      } finally {
+        config.AUDIO_DOWNLOAD_TIMEOUT_MS = timeoutMs;
+      }
+    });
+
+    it('should reject corrupt audio as a non-retryable error', async () => {
+      const truncated = createWavBuffer(1).subarray(0, 36);
+      audioServer.setRoute('/truncated.wav', { body: truncated, contentType: 'audio/wav' });
+
+      const error = await service.ingest({ audioUrl: audioServer.url('/truncated.wav') }).catch(e => e);
+      expect(error.code).toBe('CORRUPT_AUDIO');
+      expect(error.retryable).toBe(false);
+    });
+  });
+
+  describe('probeAudioFile', () => {
+    let dir: string;
+
+    const probe = async (name: string, data: Buffer) => {
+      const filePath = path.join(dir, name);
+      await fs.writeFile(filePath, data);
+      return probeAudioFile(filePath);
+    };
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-probe-'));
+    });
+
+    afterAll(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read FLAC STREAMINFO', async () => {
+      const metadata = await probe('sample.flac', createFlacBuffer(88200, 44100, 2));
+
+      expect(metadata).toEqual({
+        format: 'flac',
+        codec: 'flac',
+        durationSeconds: 2,
+        sampleRate: 44100,
+        channels: 2
+      });
+    });
+
+    it('should estimate the duration of constant bitrate MP3', async () => {
+      const metadata = await probe('sample.mp3', createMp3Buffer(10));
+
+      expect(metadata.format).toBe('mp3');
+      expect(metadata.codec).toBe('mpeg-layer-3');
+      expect(metadata.sampleRate).toBe(44100);
+      expect(metadata.channels).toBe(1);
+      expect(metadata.bitrate).toBe(128);
+      expect(metadata.durationSeconds).toBeCloseTo(0.261, 3);
+    });
+
+    it('should reject files that are not audio', async () => {
+      await expect(probe('notes.txt', Buffer.from('just some text, not audio'))).rejects.toMatchObject({
+        code: 'UNSUPPORTED_AUDIO_FORMAT'
+      });
+    });
+  });
+});
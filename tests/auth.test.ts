@@ -0,0 +1,441 @@
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { Transcription } from '../src/models/Transcription.model';
+import { WorkflowService } from '../src/services/workflow.service';
+import { runWithTenant } from '../src/utils/tenant-context';
+
+const ADMIN_TOKEN = 'test-admin-token';
+const JWT_SECRET = 'test-jwt-secret';
+
+describe('Authentication and tenant isolation', () => {
+  let app: App;
+  const originalConfig = {
+    AUTH_REQUIRED: config.AUTH_REQUIRED,
+    ADMIN_API_TOKEN: config.ADMIN_API_TOKEN,
+    JWT_SECRET: config.JWT_SECRET
+  };
+
+  const createKey = async (
+    tenantId: string,
+    name: string = `${tenantId} key`,
+    roles: string[] = [],
+    principal: string = name
+  ): Promise<{ id: string; key: string; prefix: string; principal: string }> => {
+    const response = await request(app.app)
+      .post('/admin/api-keys')
+      .set('X-Admin-Token', ADMIN_TOKEN)
+      .send({ tenantId, name, roles, principal })
+      .expect(201);
+
+    return response.body.data;
+  };
+
+  const createTranscription = (tenantId: string, text: string) =>
+    Transcription.create({
+      audioUrl: `https://example.com/${tenantId}.wav`,
+      transcription: text,
+      workflowStatus: 'review',
+      tenantId
+    });
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+    config.AUTH_REQUIRED = true;
+    config.ADMIN_API_TOKEN = ADMIN_TOKEN;
+    config.JWT_SECRET = JWT_SECRET;
+
+    app = new App();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    Object.assign(config, originalConfig);
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('Admin API keys', () => {
+    it('should reject requests without the admin token', async () => {
+      await request(app.app).get('/admin/api-keys').expect(401);
+      await request(app.app).get('/admin/api-keys').set('X-Admin-Token', 'wrong').expect(401);
+    });
+
+    it('should be disabled when no admin token is configured', async () => {
+      config.ADMIN_API_TOKEN = '';
+
+      try {
+        await request(app.app).get('/admin/api-keys').set('X-Admin-Token', ADMIN_TOKEN).expect(403);
+      } finally {
+        config.ADMIN_API_TOKEN = ADMIN_TOKEN;
+      }
+    });
+
+    it('should create keys and never return them again', async () => {
+      const created = await createKey('acme');
+
+      expect(created.key).toMatch(/^vo_[a-f0-9]{12}_[\w-]{32}$/);
+
+      const response = await request(app.app)
+        .get('/admin/api-keys?tenantId=acme')
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({ id: created.id, tenantId: 'acme', status: 'active' });
+      expect(response.body.data[0]).not.toHaveProperty('key');
+      expect(response.body.data[0]).not.toHaveProperty('keyHash');
+    });
+
+    it('should validate roles', async () => {
+      await request(app.app)
+        .post('/admin/api-keys')
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .send({ tenantId: 'acme', name: 'bad', roles: ['superuser'], principal: 'alice' })
+        .expect(400);
+    });
+
+    it('should validate the tenant id', async () => {
+      await request(app.app)
+        .post('/admin/api-keys')
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .send({ tenantId: 'no spaces', name: 'bad', principal: 'alice' })
+        .expect(400);
+    });
+
+    it('should require the principal the key acts for', async () => {
+      const response = await request(app.app)
+        .post('/admin/api-keys')
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .send({ tenantId: 'acme', name: 'no owner' })
+        .expect(400);
+
+      expect(response.body.errors[0].field).toBe('body.principal');
+    });
+
+    it('should stop accepting revoked keys', async () => {
+      const { id, key } = await createKey('acme');
+      await request(app.app).get('/transcriptions').set('X-API-Key', key).expect(200);
+
+      await request(app.app)
+        .delete(`/admin/api-keys/${id}`)
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .expect(200);
+
+      await request(app.app).get('/transcriptions').set('X-API-Key', key).expect(401);
+    });
+
+    it('should rotate keys with an optional grace period', async () => {
+      const original = await createKey('acme');
+
+      const rotated = await request(app.app)
+        .post(`/admin/api-keys/${original.id}/rotate`)
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .send({ graceSeconds: 60 })
+        .expect(201);
+
+      // Both keys work during the grace period
+      await request(app.app).get('/transcriptions').set('X-API-Key', original.key).expect(200);
+      await request(app.app).get('/transcriptions').set('X-API-Key', rotated.body.data.key).expect(200);
+
+      const immediate = await request(app.app)
+        .post(`/admin/api-keys/${rotated.body.data.id}/rotate`)
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .expect(201);
+
+      await request(app.app).get('/transcriptions').set('X-API-Key', rotated.body.data.key).expect(401);
+      await request(app.app).get('/transcriptions').set('Authorization', `Bearer ${immediate.body.data.key}`).expect(200);
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should require credentials when AUTH_REQUIRED is set', async () => {
+      const response = await request(app.app).get('/transcriptions').expect(401);
+
+      expect(response.headers['www-authenticate']).toBe('Bearer');
+    });
+
+    it('should answer 404 for unknown paths without asking for credentials', async () => {
+      for (const path of ['/nope', '/v1/nope']) {
+        const response = await request(app.app).get(path).expect(404);
+
+        expect(response.body.code).toBe('ROUTE_NOT_FOUND');
+        expect(response.headers['www-authenticate']).toBeUndefined();
+        expect(response.headers['ratelimit-remaining']).toBeUndefined();
+      }
+    });
+
+    it('should reject unknown API keys', async () => {
+      await request(app.app)
+        .get('/transcriptions')
+        .set('X-API-Key', 'vo_000000000000_AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA')
+        .expect(401);
+    });
+
+    it('should accept JWTs carrying a tenantId claim', async () => {
+      await createTranscription('globex', 'Globex transcript');
+      const token = jwt.sign({ sub: 'user-1', tenantId: 'globex' }, JWT_SECRET, { expiresIn: '5m' });
+
+      const response = await request(app.app)
+        .get('/transcriptions')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data.map((t: any) => t.transcription)).toEqual(['Globex transcript']);
+    });
+
+    it('should reject expired, unsigned and tenantless JWTs', async () => {
+      const expired = jwt.sign({ tenantId: 'globex', exp: Math.floor(Date.now() / 1000) - 60 }, JWT_SECRET);
+      const forged = jwt.sign({ tenantId: 'globex' }, 'another-secret');
+      const tenantless = jwt.sign({ sub: 'user-1' }, JWT_SECRET);
+
+      const response = await request(app.app).get('/transcriptions').set('Authorization', `Bearer ${expired}`).expect(401);
+      expect(response.body.detail).toBe('Token expired');
+
+      await request(app.app).get('/transcriptions').set('Authorization', `Bearer ${forged}`).expect(401);
+      await request(app.app).get('/transcriptions').set('Authorization', `Bearer ${tenantless}`).expect(401);
+    });
+  });
+
+  describe('Tenant isolation', () => {
+    let acmeKey: string;
+    let globexKey: string;
+    let globexTranscriptionId: string;
+
+    beforeEach(async () => {
+      acmeKey = (await createKey('acme')).key;
+      globexKey = (await createKey('globex')).key;
+
+      await createTranscription('acme', 'Acme transcript');
+      globexTranscriptionId = (await createTranscription('globex', 'Globex transcript'))._id.toString();
+    });
+
+    it('should only list the caller\'s transcriptions', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions')
+        .set('X-API-Key', acmeKey)
+        .expect(200);
+
+      expect(response.body.data.map((t: any) => t.transcription)).toEqual(['Acme transcript']);
+      expect(response.body.pagination.total).toBe(1);
+    });
+
+    it('should hide other tenants\' transcriptions by ID', async () => {
+      await request(app.app).get(`/transcriptions/${globexTranscriptionId}`).set('X-API-Key', acmeKey).expect(404);
+      await request(app.app).get(`/transcriptions/${globexTranscriptionId}`).set('X-API-Key', globexKey).expect(200);
+    });
+
+    it('should not let a tenant transition another tenant\'s workflow', async () => {
+      await request(app.app)
+        .put(`/workflow/${globexTranscriptionId}/transition`)
+        .set('X-API-Key', acmeKey)
+        .send({ newStatus: 'approval' })
+        .expect(404);
+
+      const transcription = await Transcription.findById(globexTranscriptionId);
+      expect(transcription?.workflowStatus).toBe('review');
+    });
+
+    it('should compute workflow stats per tenant', async () => {
+      await createTranscription('globex', 'Another Globex transcript');
+
+      const acme = await request(app.app).get('/workflow/stats').set('X-API-Key', acmeKey).expect(200);
+      const globex = await request(app.app).get('/workflow/stats').set('X-API-Key', globexKey).expect(200);
+
+      expect(acme.body.data.statistics.review).toBe(1);
+      expect(globex.body.data.statistics.review).toBe(2);
+    });
+
+    it('should keep workflow templates private to their tenant', async () => {
+      const acmeAdminKey = (await createKey('acme', 'acme admin', ['admin'])).key;
+      const globexAdminKey = (await createKey('globex', 'globex admin', ['admin'])).key;
+      const template = {
+        name: 'Acme review',
+        initialState: 'draft',
+        states: [{ name: 'draft' }, { name: 'done', terminal: true }],
+        transitions: [{ from: 'draft', to: 'done' }]
+      };
+      const created = await request(app.app)
+        .post('/workflow-templates')
+        .set('X-API-Key', acmeAdminKey)
+        .send(template)
+        .expect(201);
+      const templateId = created.body.data.templateId;
+
+      const listed = await request(app.app).get('/workflow-templates').set('X-API-Key', globexKey).expect(200);
+      expect(listed.body.data.map((t: any) => t.templateId)).toEqual(['default']);
+
+      await request(app.app).get(`/workflow-templates/${templateId}`).set('X-API-Key', globexKey).expect(404);
+      await request(app.app).put(`/workflow-templates/${templateId}`).set('X-API-Key', globexAdminKey).send(template).expect(404);
+      await request(app.app).delete(`/workflow-templates/${templateId}`).set('X-API-Key', globexAdminKey).expect(404);
+      await request(app.app).post('/workflow').set('X-API-Key', globexAdminKey).send({ audioUrl: 'https://example.com/globex.wav', templateId }).expect(404);
+
+      const versions = await request(app.app).get(`/workflow-templates/${templateId}/versions`).set('X-API-Key', acmeKey).expect(200);
+      expect(versions.body.data).toHaveLength(1);
+    });
+
+    it('should stamp new jobs with the caller\'s tenant', async () => {
+      const response = await request(app.app)
+        .post('/transcription')
+        .set('X-API-Key', acmeKey)
+        .send({ audioUrl: 'https://example.com/acme.wav' })
+        .expect(202);
+
+      await request(app.app).get(response.body.data.statusUrl).set('X-API-Key', acmeKey).expect(200);
+      await request(app.app).get(response.body.data.statusUrl).set('X-API-Key', globexKey).expect(404);
+    });
+  });
+
+  describe('Workflow roles', () => {
+    let workflowId: string;
+
+    const transition = (credential: string, newStatus: string, body: Record<string, unknown> = {}) =>
+      request(app.app)
+        .put(`/workflow/${workflowId}/transition`)
+        .set('Authorization', `Bearer ${credential}`)
+        .send({ newStatus, ...body });
+
+    beforeEach(async () => {
+      workflowId = (await createTranscription('acme', 'Workflow transcript'))._id.toString();
+    });
+
+    it('should reject transitions the caller\'s roles do not allow', async () => {
+      const transcriber = await createKey('acme', 'transcriber', ['transcriber']);
+
+      const response = await transition(transcriber.key, 'approval').expect(403);
+
+      expect(response.body.detail).toContain('requires role reviewer');
+    });
+
+    it('should record the authenticated identity instead of the body reviewedBy', async () => {
+      const reviewer = await createKey('acme', 'reviewer', ['reviewer']);
+
+      const response = await transition(reviewer.key, 'approval', { reviewedBy: 'someone-else' }).expect(200);
+
+      const history = response.body.data.workflowHistory;
+      expect(history[history.length - 1].reviewedBy).toBe(reviewer.principal);
+    });
+
+    it('should not let the reviewer also approve', async () => {
+      const reviewerApprover = await createKey('acme', 'reviewer and approver', ['reviewer', 'approver']);
+      const approver = await createKey('acme', 'approver', ['approver']);
+
+      await transition(reviewerApprover.key, 'approval').expect(200);
+
+      const response = await transition(reviewerApprover.key, 'completed').expect(403);
+      expect(response.body.detail).toContain('someone other than');
+
+      await transition(approver.key, 'completed').expect(200);
+    });
+
+    it('should not let the reviewer approve after an automatic progression', async () => {
+      const reviewer = await createKey('acme', 'transcriber and approver', ['transcriber', 'approver']);
+      await Transcription.updateOne({ _id: workflowId }, { workflowStatus: 'transcription' });
+
+      await transition(reviewer.key, 'review').expect(200);
+      // What the scheduler does once the review period is over
+      await runWithTenant('acme', () => new WorkflowService().transitionWorkflow({
+        transcriptionId: workflowId,
+        newStatus: 'approval',
+        reviewedBy: 'system'
+      }));
+
+      const response = await transition(reviewer.key, 'completed').expect(403);
+      expect(response.body.code).toBe('FOUR_EYES_REQUIRED');
+    });
+
+    it('should count every key of one principal as the same person', async () => {
+      const reviewerKey = await createKey('acme', 'alice reviewing', ['reviewer'], 'alice');
+      const approverKey = await createKey('acme', 'alice approving', ['approver'], 'alice');
+
+      await transition(reviewerKey.key, 'approval').expect(200);
+      await transition(approverKey.key, 'completed').expect(403);
+
+      // A rotated key still acts for alice
+      const rotated = await request(app.app)
+        .post(`/admin/api-keys/${approverKey.id}/rotate`)
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .expect(201);
+      expect(rotated.body.data.principal).toBe('alice');
+
+      const response = await transition(rotated.body.data.key, 'completed').expect(403);
+      expect(response.body.code).toBe('FOUR_EYES_REQUIRED');
+    });
+
+    it('should record the authenticated identity as the author of edits', async () => {
+      const editor = await createKey('acme', 'editor', ['transcriber']);
+
+      const response = await request(app.app)
+        .patch(`/transcriptions/${workflowId}`)
+        .set('X-API-Key', editor.key)
+        .send({ transcription: 'Corrected transcript', editedBy: 'someone-else' })
+        .expect(200);
+
+      expect(response.body.data.revisions[0].editedBy).toBe(editor.principal);
+    });
+
+    it('should read roles from the JWT and let admins perform any transition', async () => {
+      const reviewer = jwt.sign({ sub: 'alice', tenantId: 'acme', roles: ['reviewer'] }, JWT_SECRET);
+      const admin = jwt.sign({ sub: 'bob', tenantId: 'acme', roles: ['admin'] }, JWT_SECRET);
+
+      await transition(reviewer, 'approval').expect(200);
+      await transition(reviewer, 'completed').expect(403);
+
+      const response = await transition(admin, 'completed').expect(200);
+      expect(response.body.data.currentStatus).toBe('completed');
+    });
+
+    it('should only let admins change workflow templates', async () => {
+      const approver = await createKey('acme', 'approver', ['approver']);
+      const looseTemplate = {
+        name: 'No review',
+        initialState: 'draft',
+        states: [{ name: 'draft' }, { name: 'done', terminal: true }],
+        transitions: [{ from: 'draft', to: 'done' }]
+      };
+
+      const response = await request(app.app)
+        .post('/workflow-templates')
+        .set('X-API-Key', approver.key)
+        .send(looseTemplate)
+        .expect(403);
+
+      expect(response.body.code).toBe('ROLE_REQUIRED');
+    });
+
+    it('should only let the template\'s startRoles start workflows from it', async () => {
+      const admin = await createKey('acme', 'admin', ['admin']);
+      const reviewer = await createKey('acme', 'reviewer', ['reviewer']);
+      const created = await request(app.app)
+        .post('/workflow-templates')
+        .set('X-API-Key', admin.key)
+        .send({
+          name: 'No review',
+          initialState: 'draft',
+          states: [{ name: 'draft' }, { name: 'done', terminal: true }],
+          transitions: [{ from: 'draft', to: 'done' }],
+          startRoles: ['transcriber']
+        })
+        .expect(201);
+
+      const response = await request(app.app)
+        .post('/workflow')
+        .set('X-API-Key', reviewer.key)
+        .send({ audioUrl: 'https://example.com/acme.wav', templateId: created.body.data.templateId })
+        .expect(403);
+
+      expect(response.body.code).toBe('ROLE_REQUIRED');
+      expect(response.body.detail).toContain('admin or transcriber');
+    });
+
+    it('should apply four-eyes to admins too', async () => {
+      const admin = jwt.sign({ sub: 'bob', tenantId: 'acme', roles: ['admin'] }, JWT_SECRET);
+
+      await transition(admin, 'approval').expect(200);
+      await transition(admin, 'rejected').expect(403);
+    });
+  });
+});
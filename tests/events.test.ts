@@ -0,0 +1,211 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { Transcription } from '../src/models/Transcription.model';
+import { eventStream } from '../src/services/event-stream.service';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+interface StreamedEvent {
+  id: string;
+  event: string;
+  data: any;
+}
+
+interface EventStream {
+  statusCode: number;
+  headers: http.IncomingHttpHeaders;
+  events: StreamedEvent[];
+  close(): void;
+}
+
+describe('Event stream', () => {
+  let app: App;
+  let server: http.Server;
+  let baseUrl: string;
+  const originalAdminToken = config.ADMIN_API_TOKEN;
+  const originalPollInterval = config.EVENT_STREAM_POLL_INTERVAL_MS;
+
+  /**
+   * Open GET /events over a real connection and collect the events it sends
+   */
+  const openStream = (query: string = '', headers: Record<string, string> = {}): Promise<EventStream> =>
+    new Promise((resolve, reject) => {
+      const req = http.get(`${baseUrl}/events${query}`, { headers }, res => {
+        const events: StreamedEvent[] = [];
+        let buffer = '';
+
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          buffer += chunk;
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop() || '';
+
+          for (const message of messages) {
+            const fields: Record<string, string> = {};
+            for (const line of message.split('\n')) {
+              const separator = line.indexOf(': ');
+              if (separator > 0) {
+                fields[line.slice(0, separator)] = line.slice(separator + 2);
+              }
+            }
+
+            if (fields.event) {
+              events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+            }
+          }
+        });
+
+        resolve({ statusCode: res.statusCode || 0, headers: res.headers, events, close: () => req.destroy() });
+      });
+
+      req.on('error', reject);
+    });
+
+  // Events are delivered asynchronously; give the stream a moment to receive them
+  const settle = () => new Promise(resolve => setTimeout(resolve, 200));
+
+  const createWorkflow = async (tenantId?: string): Promise<string> => {
+    const transcription = await Transcription.create({
+      audioUrl: 'https://example.com/stream.wav',
+      transcription: 'Streamed transcript',
+      workflowStatus: 'review',
+      tenantId
+    });
+
+    return transcription._id.toString();
+  };
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+    config.ADMIN_API_TOKEN = ADMIN_TOKEN;
+    config.EVENT_STREAM_POLL_INTERVAL_MS = 50;
+
+    app = new App();
+    app.eventStreamWorker.start();
+    server = app.app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    config.ADMIN_API_TOKEN = originalAdminToken;
+    config.EVENT_STREAM_POLL_INTERVAL_MS = originalPollInterval;
+    app.eventStreamWorker.stop();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  it('should push workflow transitions as Server-Sent Events', async () => {
+    const workflowId = await createWorkflow();
+    const stream = await openStream();
+
+    try {
+      expect(stream.statusCode).toBe(200);
+      expect(stream.headers['content-type']).toContain('text/event-stream');
+
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+      await settle();
+
+      expect(stream.events).toHaveLength(1);
+      expect(stream.events[0]).toMatchObject({
+        event: 'workflow.transitioned',
+        data: { type: 'workflow.transitioned', data: { id: workflowId, from: 'review', to: 'approval' } }
+      });
+      expect(stream.events[0].id).toBe(stream.events[0].data.id);
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('should filter by workflow id, status and event type', async () => {
+    const workflowId = await createWorkflow();
+    const otherWorkflowId = await createWorkflow();
+
+    const byWorkflow = await openStream(`?workflowId=${workflowId}`);
+    const byStatus = await openStream('?status=completed');
+    const byType = await openStream('?types=workflow.completed');
+
+    try {
+      await request(app.app).put(`/workflow/${otherWorkflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'completed' }).expect(200);
+      await settle();
+
+      expect(byWorkflow.events.every(e => e.data.data.id === workflowId)).toBe(true);
+      expect(byWorkflow.events.map(e => e.event))
+        .toEqual(['workflow.transitioned', 'workflow.transitioned', 'workflow.completed']);
+
+      expect(byStatus.events.map(e => e.event)).toEqual(['workflow.transitioned', 'workflow.completed']);
+      expect(byType.events.map(e => e.event)).toEqual(['workflow.completed']);
+    } finally {
+      byWorkflow.close();
+      byStatus.close();
+      byType.close();
+    }
+  });
+
+  it('should push events recorded by other instances', async () => {
+    const stream = await openStream();
+
+    try {
+      // Recorded without publishing on this process's event bus
+      await eventStream.record({
+        id: 'other-instance-event',
+        type: 'workflow.created',
+        tenantId: 'default',
+        occurredAt: new Date(),
+        data: { id: 'other-workflow', workflowStatus: 'draft' }
+      });
+      await settle();
+
+      expect(stream.events.map(e => e.id)).toEqual(['other-instance-event']);
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('should reject unknown event types', async () => {
+    await request(app.app).get('/events?types=workflow.deleted').expect(400);
+  });
+
+  it('should only stream the caller\'s tenant events', async () => {
+    const createKey = async (tenantId: string): Promise<string> => {
+      const response = await request(app.app)
+        .post('/admin/api-keys')
+        .set('X-Admin-Token', ADMIN_TOKEN)
+        .send({ tenantId, name: `${tenantId} key`, roles: ['reviewer'], principal: `${tenantId}-service` })
+        .expect(201);
+
+      return response.body.data.key;
+    };
+
+    const acmeKey = await createKey('acme');
+    const globexKey = await createKey('globex');
+    const workflowId = await createWorkflow('globex');
+
+    const acme = await openStream('', { 'X-API-Key': acmeKey });
+    const globex = await openStream('', { 'X-API-Key': globexKey });
+
+    try {
+      await request(app.app)
+        .put(`/workflow/${workflowId}/transition`)
+        .set('X-API-Key', globexKey)
+        .send({ newStatus: 'approval' })
+        .expect(200);
+      await settle();
+
+      expect(acme.events).toHaveLength(0);
+      expect(globex.events.map(e => e.data.data.id)).toEqual([workflowId]);
+    } finally {
+      acme.close();
+      globex.close();
+    }
+  });
+});
@@ -0,0 +1,210 @@
+import request from 'supertest';
+import { App } from '../src/app';
+import { Transcription } from '../src/models/Transcription.model';
+
+const createTranscription = (overrides: Record<string, unknown> = {}) =>
+  Transcription.create({
+    audioUrl: 'https://example.com/interview.wav',
+    transcription: 'Hello there. General Kenobi.',
+    confidence: 0.9,
+    audioMetadata: { format: 'wav', codec: 'pcm', durationSeconds: 4, sampleRate: 16000, channels: 1 },
+    segments: [
+      {
+        speaker: 'Speaker 1',
+        start: 0,
+        end: 1.5,
+        text: 'Hello there.',
+        confidence: 0.92,
+        words: [{ text: 'Hello', start: 0, end: 0.75, confidence: 0.9 }, { text: 'there', start: 0.75, end: 1.5, confidence: 0.94 }]
+      },
+      {
+        speaker: 'Speaker 2',
+        start: 1.5,
+        end: 3.25,
+        text: 'General Kenobi.',
+        confidence: 0.88,
+        words: [{ text: 'General', start: 1.5, end: 2.4, confidence: 0.86 }, { text: 'Kenobi', start: 2.4, end: 3.25, confidence: 0.9 }]
+      }
+    ],
+    ...overrides
+  });
+
+/**
+ * Collect a binary response body so zip archives can be inspected
+ */
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Transcript export API', () => {
+  let app: App;
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+    app = new App();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('GET /transcriptions/:id/export', () => {
+    it('should export SRT subtitles with speaker labels', async () => {
+      const transcription = await createTranscription();
+
+      const response = await request(app.app)
+        .get(`/transcriptions/${transcription._id}/export?format=srt`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-subrip');
+      expect(response.headers['content-disposition']).toBe(`attachment; filename="transcription-${transcription._id}.srt"`);
+      expect(response.text).toBe(
+        '1\n00:00:00,000 --> 00:00:01,500\nSpeaker 1: Hello there.\n\n' +
+        '2\n00:00:01,500 --> 00:00:03,250\nSpeaker 2: General Kenobi.\n'
+      );
+    });
+
+    it('should export WebVTT with voice tags', async () => {
+      const transcription = await createTranscription();
+
+      const response = await request(app.app)
+        .get(`/transcriptions/${transcription._id}/export?format=vtt`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/vtt');
+      expect(response.text).toBe(
+        'WEBVTT\n\n' +
+        '00:00:00.000 --> 00:00:01.500\n<v Speaker 1>Hello there.\n\n' +
+        '00:00:01.500 --> 00:00:03.250\n<v Speaker 2>General Kenobi.\n'
+      );
+    });
+
+    it('should export a Markdown document with metadata', async () => {
+      const transcription = await createTranscription();
+
+      const response = await request(app.app)
+        .get(`/transcriptions/${transcription._id}/export?format=md`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/markdown');
+      expect(response.text).toContain(`# Transcript ${transcription._id}`);
+      expect(response.text).toContain('| Confidence | 90% |');
+      expect(response.text).toContain('**Speaker 2** _00:00:01.500_');
+    });
+
+    it('should default to JSON and include segments', async () => {
+      const transcription = await createTranscription();
+
+      const response = await request(app.app)
+        .get(`/transcriptions/${transcription._id}/export`)
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/json');
+      expect(response.body.id).toBe(transcription._id.toString());
+      expect(response.body.segments).toHaveLength(2);
+      expect(response.body.segments[0].words[0]).toEqual({ text: 'Hello', start: 0, end: 0.75, confidence: 0.9 });
+    });
+
+    it('should render transcriptions without segments as a single cue', async () => {
+      const transcription = await createTranscription({ segments: [] });
+
+      const response = await request(app.app)
+        .get(`/transcriptions/${transcription._id}/export?format=srt`)
+        .expect(200);
+
+      expect(response.text).toBe('1\n00:00:00,000 --> 00:00:04,000\nHello there. General Kenobi.\n');
+    });
+
+    it('should return 400 for an unknown format', async () => {
+      const transcription = await createTranscription();
+
+      const response = await request(app.app)
+        .get(`/transcriptions/${transcription._id}/export?format=docx`)
+        .expect(400);
+
+      expect(response.body.detail).toBe('Invalid format. Must be one of: srt, vtt, txt, json, md');
+    });
+
+    it('should return 404 for a missing transcription', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions/507f1f77bcf86cd799439011/export?format=txt')
+        .expect(404);
+
+      expect(response.body.detail).toBe('Transcription not found');
+    });
+  });
+
+  describe('GET /transcriptions/export', () => {
+    it('should stream matching transcriptions as NDJSON', async () => {
+      await createTranscription({ language: 'fr-FR' });
+      await createTranscription({ language: 'fr-FR' });
+      await createTranscription({ language: 'en-US' });
+
+      const response = await request(app.app)
+        .get('/transcriptions/export?format=ndjson&language=fr-FR')
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/x-ndjson');
+      const lines = response.text.trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toHaveLength(2);
+      expect(lines.every(line => line.language === 'fr-FR')).toBe(true);
+    });
+
+    it('should apply the same filters as the transcription list', async () => {
+      // The text index must exist before $text queries
+      await Transcription.init();
+
+      const create = (audioUrl: string, workflowStatus: string, transcription: string) =>
+        createTranscription({ audioUrl, workflowStatus, transcription });
+
+      const match = await create('https://media.example.com/a.wav', 'review', 'Quarterly earnings call');
+      await create('https://media.example.com/b.wav', 'completed', 'Quarterly earnings call');
+      await create('https://other.example.com/c.wav', 'review', 'Quarterly earnings call');
+      await create('https://media.example.com/d.wav', 'review', 'Team standup');
+
+      const response = await request(app.app)
+        .get('/transcriptions/export')
+        .query({ workflowStatus: 'review', audioHost: 'media.example.com', search: 'earnings' })
+        .expect(200);
+
+      const lines = response.text.trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => line.id)).toEqual([match._id.toString()]);
+    });
+
+    it('should stream a zip archive with one file per transcription', async () => {
+      const first = await createTranscription();
+      const second = await createTranscription();
+
+      const response = await request(app.app)
+        .get('/transcriptions/export?format=zip&entryFormat=vtt')
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/zip');
+      const archive = (response.body as Buffer).toString('latin1');
+      expect(archive.startsWith('PK')).toBe(true);
+      expect(archive).toContain(`transcription-${first._id}.vtt`);
+      expect(archive).toContain(`transcription-${second._id}.vtt`);
+    });
+
+    it('should return 400 for an unknown bulk format', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions/export?format=tar')
+        .expect(400);
+
+      expect(response.body.detail).toBe('Invalid format. Must be one of: ndjson, zip');
+    });
+
+    it('should return 400 for invalid dates', async () => {
+      await request(app.app)
+        .get('/transcriptions/export?from=yesterday')
+        .expect(400);
+    });
+  });
+});
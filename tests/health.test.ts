@@ -0,0 +1,109 @@
+import request from 'supertest';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { speechProviders } from '../src/providers/provider.registry';
+import { jobQueue } from '../src/services/job-queue.service';
+
+describe('Health, readiness and status', () => {
+  let app: App;
+  const originalAuthRequired = config.AUTH_REQUIRED;
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+    // Probes must work without credentials
+    config.AUTH_REQUIRED = true;
+
+    app = new App();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    config.AUTH_REQUIRED = originalAuthRequired;
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('GET /health', () => {
+    it('should report liveness without authentication', async () => {
+      const response = await request(app.app).get('/health').expect(200);
+
+      expect(response.body).toMatchObject({ status: 'healthy', environment: 'test', version: '1.0.0' });
+    });
+  });
+
+  describe('GET /ready', () => {
+    it('should be ready when MongoDB and the speech provider are up', async () => {
+      await jobQueue.enqueue('transcription', { audioUrl: 'https://example.com/ready.wav' });
+
+      const response = await request(app.app).get('/ready').expect(200);
+
+      expect(response.body.status).toBe('ready');
+      expect(response.body.checks.database).toMatchObject({ status: 'up', details: { state: 'connected' } });
+      expect(response.body.checks.speechProvider).toMatchObject({ status: 'up', details: { name: 'mock' } });
+      expect(response.body.checks.jobQueue).toMatchObject({ status: 'up', details: { backlog: 1 } });
+      expect(response.headers['cache-control']).toBe('no-store');
+    });
+
+    it('should return 503 when the default speech provider is unhealthy', async () => {
+      jest.spyOn(speechProviders.get('mock'), 'getHealth').mockResolvedValue({ status: 'unhealthy', timestamp: new Date() });
+
+      const response = await request(app.app).get('/ready').expect(503);
+
+      expect(response.body.status).toBe('not_ready');
+      expect(response.body.checks.speechProvider.status).toBe('down');
+    });
+
+    it('should report a hanging dependency as down', async () => {
+      const originalTimeout = config.HEALTH_CHECK_TIMEOUT_MS;
+      config.HEALTH_CHECK_TIMEOUT_MS = 50;
+      jest.spyOn(speechProviders.get('mock'), 'getHealth').mockReturnValue(new Promise(() => undefined));
+
+      try {
+        const response = await request(app.app).get('/ready').expect(503);
+
+        expect(response.body.checks.speechProvider).toMatchObject({ status: 'down', error: 'Timed out after 50ms' });
+      } finally {
+        config.HEALTH_CHECK_TIMEOUT_MS = originalTimeout;
+      }
+    });
+  });
+
+  describe('GET /status', () => {
+    it('should report version, uptime and every dependency with its latency', async () => {
+      const response = await request(app.app).get('/status').expect(200);
+
+      expect(response.body).toMatchObject({ status: 'ready', version: '1.0.0', nodeVersion: process.version });
+      expect(response.body.uptimeSeconds).toBeGreaterThanOrEqual(0);
+      expect(Object.keys(response.body.dependencies.speechProviders)).toEqual(expect.arrayContaining(['mock', 'azure']));
+      expect(typeof response.body.dependencies.database.latencyMs).toBe('number');
+      expect(response.body.dependencies.jobQueue.details.backlog).toBe(0);
+    });
+
+    it('should stay 200 when only a non-default provider is down', async () => {
+      jest.spyOn(speechProviders.get('azure'), 'getHealth').mockResolvedValue({ status: 'unhealthy', timestamp: new Date() });
+
+      const response = await request(app.app).get('/status').expect(200);
+
+      expect(response.body.dependencies.speechProviders.azure.status).toBe('down');
+    });
+
+    it('should require the bearer token when METRICS_TOKEN is set', async () => {
+      config.METRICS_TOKEN = 'status-token';
+
+      try {
+        await request(app.app).get('/status').expect(401);
+        await request(app.app).get('/status').set('Authorization', 'Bearer status-token').expect(200);
+        // Probes stay open
+        await request(app.app).get('/ready').expect(200);
+      } finally {
+        config.METRICS_TOKEN = '';
+      }
+    });
+  });
+});
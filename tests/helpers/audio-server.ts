@@ -0,0 +1,79 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StandInRoute {
+  body: Buffer;
+  contentType?: string;
+  status?: number;
+  location?: string; // Redirect target
+  delayMs?: number;
+}
+
+export interface AudioStandInServer {
+  url(path: string): string;
+  setRoute(path: string, route: StandInRoute): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Build a PCM WAV file of silence
+ */
+export const createWavBuffer = (durationSeconds: number = 1, sampleRate: number = 16000, channels: number = 1): Buffer => {
+  const bytesPerSample = 2;
+  const dataSize = Math.round(durationSeconds * sampleRate) * channels * bytesPerSample;
+  const header = Buffer.alloc(44);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * bytesPerSample, 28);
+  header.writeUInt16LE(channels * bytesPerSample, 32);
+  header.writeUInt16LE(bytesPerSample * 8, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataSize, 40);
+
+  return Buffer.concat([header, Buffer.alloc(dataSize)]);
+};
+
+/**
+ * Local HTTP stand-in for remote audio hosts. Serves /sample.wav by default.
+ */
+export const startAudioServer = async (): Promise<AudioStandInServer> => {
+  const routes = new Map<string, StandInRoute>([
+    ['/sample.wav', { body: createWavBuffer(2), contentType: 'audio/wav' }]
+  ]);
+
+  const server = http.createServer((req, res) => {
+    const route = routes.get((req.url || '').split('?')[0]);
+
+    if (!route) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    setTimeout(() => {
+      res.writeHead(route.status || 200, {
+        ...(route.contentType && { 'Content-Type': route.contentType }),
+        ...(route.location && { 'Location': route.location }),
+        'Content-Length': route.body.length
+      });
+      res.end(route.body);
+    }, route.delayMs || 0);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: (path: string) => `http://127.0.0.1:${port}${path}`,
+    setRoute: (path: string, route: StandInRoute) => {
+      routes.set(path, route);
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
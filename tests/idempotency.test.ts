@@ -0,0 +1,232 @@
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import mongoose from 'mongoose';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { Transcription } from '../src/models/Transcription.model';
+import { Job } from '../src/models/Job.model';
+import { IdempotencyKey } from '../src/models/IdempotencyKey.model';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
+
+describe('Idempotency keys', () => {
+  let mongoServer: MongoMemoryServer;
+  let app: App;
+  let audioServer: AudioStandInServer;
+  let audioUrl: string;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+
+    if (mongoose.connection.readyState !== 0) {
+      await mongoose.disconnect();
+    }
+    await mongoose.connect(mongoServer.getUri());
+
+    app = new App();
+
+    audioServer = await startAudioServer();
+    audioUrl = audioServer.url('/sample.wav');
+  });
+
+  afterAll(async () => {
+    await audioServer.close();
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    await mongoServer.stop();
+  });
+
+  afterEach(async () => {
+    const collections = mongoose.connection.collections;
+    for (const key in collections) {
+      await collections[key].deleteMany({});
+    }
+  });
+
+  // Keys are stored once the response has been sent
+  const waitForKey = async (key: string): Promise<void> => {
+    for (let i = 0; i < 50; i++) {
+      if (await IdempotencyKey.exists({ key, status: 'completed' })) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  describe('Retries with the same key and body', () => {
+    it('should replay the workflow created by the first request', async () => {
+      const first = await request(app.app)
+        .post('/workflow')
+        .set('Idempotency-Key', 'create-workflow-1')
+        .send({ audioUrl, language: 'en-US' })
+        .expect(201);
+      await waitForKey('create-workflow-1');
+
+      const retry = await request(app.app)
+        .post('/workflow')
+        .set('Idempotency-Key', 'create-workflow-1')
+        .send({ language: 'en-US', audioUrl })
+        .expect(201);
+
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(first.headers['idempotent-replayed']).toBeUndefined();
+      expect(retry.body).toEqual(first.body);
+      expect(await Transcription.countDocuments()).toBe(1);
+    });
+
+    it('should replay the queued transcription job and its Location', async () => {
+      const send = () => request(app.app)
+        .post('/transcription')
+        .set('Idempotency-Key', 'create-transcription-1')
+        .send({ audioUrl })
+        .expect(202);
+
+      const first = await send();
+      await waitForKey('create-transcription-1');
+      const retry = await send();
+
+      expect(retry.body.data.jobId).toBe(first.body.data.jobId);
+      expect(retry.headers['location']).toBe(first.headers['location']);
+      expect(await Job.countDocuments()).toBe(1);
+    });
+
+    it('should not count replays against the rate limits', async () => {
+      const send = (key?: string) => {
+        const req = request(app.app).post('/transcription');
+        return (key ? req.set('Idempotency-Key', key) : req).send({ audioUrl }).expect(202);
+      };
+
+      const first = await send('rate-limited');
+      await waitForKey('rate-limited');
+      const retry = await send('rate-limited');
+      const next = await send();
+
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.headers['ratelimit-remaining']).toBeUndefined();
+      expect(Number(next.headers['ratelimit-remaining'])).toBe(Number(first.headers['ratelimit-remaining']) - 1);
+    });
+
+    it('should replay a transition instead of applying it twice', async () => {
+      const created = await request(app.app).post('/workflow').send({ audioUrl }).expect(201);
+      const transition = () => request(app.app)
+        .put(`/workflow/${created.body.data.id}/transition`)
+        .set('Idempotency-Key', 'to-review')
+        .send({ newStatus: 'review' });
+
+      await transition().expect(200);
+      await waitForKey('to-review');
+      const retry = await transition().expect(200);
+
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.data.currentStatus).toBe('review');
+    });
+
+    it('should create one document per request without a key', async () => {
+      await request(app.app).post('/workflow').send({ audioUrl }).expect(201);
+      await request(app.app).post('/workflow').send({ audioUrl }).expect(201);
+
+      expect(await Transcription.countDocuments()).toBe(2);
+      expect(await IdempotencyKey.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('Conflicts', () => {
+    it('should reject a key reused with a different body', async () => {
+      await request(app.app).post('/workflow').set('Idempotency-Key', 'reused').send({ audioUrl }).expect(201);
+      await waitForKey('reused');
+
+      const response = await request(app.app)
+        .post('/workflow')
+        .set('Idempotency-Key', 'reused')
+        .send({ audioUrl, language: 'fr-FR' })
+        .expect(409);
+
+      expect(response.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+      expect(await Transcription.countDocuments()).toBe(1);
+    });
+
+    it('should reject a key reused with a different If-Match', async () => {
+      const created = await request(app.app).post('/workflow').send({ audioUrl }).expect(201);
+      const transition = () => request(app.app)
+        .put(`/workflow/${created.body.data.id}/transition`)
+        .set('Idempotency-Key', 'conditional')
+        .send({ newStatus: 'review' });
+
+      await transition().expect(200);
+      await waitForKey('conditional');
+      const response = await transition().set('If-Match', '"0"').expect(409);
+
+      expect(response.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    });
+
+    it('should reject a key reused with a different API-Version', async () => {
+      const create = (version: string) => request(app.app)
+        .post('/workflow')
+        .set('Idempotency-Key', 'versioned')
+        .set('API-Version', version)
+        .send({ audioUrl });
+
+      await create('1').expect(201);
+      await waitForKey('versioned');
+      const response = await create('2').expect(409);
+
+      expect(response.body.code).toBe('IDEMPOTENCY_KEY_REUSED');
+      expect(await Transcription.countDocuments()).toBe(1);
+    });
+
+    it('should reject a retry while the first request is still running', async () => {
+      await request(app.app).post('/workflow').set('Idempotency-Key', 'running').send({ audioUrl }).expect(201);
+      await waitForKey('running');
+      // Pretend the first request has not finished
+      await IdempotencyKey.updateOne({ key: 'running' }, { status: 'in_progress', $unset: { response: 1 } });
+
+      const response = await request(app.app).post('/workflow').set('Idempotency-Key', 'running').send({ audioUrl }).expect(409);
+
+      expect(response.body.code).toBe('IDEMPOTENCY_REQUEST_IN_PROGRESS');
+    });
+  });
+
+  describe('Stored keys', () => {
+    it('should keep successful responses for IDEMPOTENCY_KEY_TTL_MS', async () => {
+      await request(app.app).post('/workflow').set('Idempotency-Key', 'ttl').send({ audioUrl }).expect(201);
+      await waitForKey('ttl');
+
+      const stored = await IdempotencyKey.findOne({ key: 'ttl' });
+
+      expect(stored!.response!.statusCode).toBe(201);
+      expect(stored!.expiresAt.getTime()).toBeGreaterThan(Date.now() + config.IDEMPOTENCY_KEY_TTL_MS - 60 * 1000);
+    });
+
+    it('should free the key when the request fails', async () => {
+      const transition = () => request(app.app)
+        .put(`/workflow/${new mongoose.Types.ObjectId()}/transition`)
+        .set('Idempotency-Key', 'failed')
+        .send({ newStatus: 'review' });
+
+      await transition().expect(404);
+      const retry = await transition().expect(404);
+
+      expect(retry.headers['idempotent-replayed']).toBeUndefined();
+    });
+
+    it('should run the request again once the key has expired', async () => {
+      await request(app.app).post('/workflow').set('Idempotency-Key', 'expired').send({ audioUrl }).expect(201);
+      await waitForKey('expired');
+      await IdempotencyKey.updateOne({ key: 'expired' }, { expiresAt: new Date(Date.now() - 1000) });
+
+      const response = await request(app.app).post('/workflow').set('Idempotency-Key', 'expired').send({ audioUrl }).expect(201);
+
+      expect(response.headers['idempotent-replayed']).toBeUndefined();
+      expect(await Transcription.countDocuments()).toBe(2);
+    });
+
+    it('should reject keys longer than 255 characters', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .set('Idempotency-Key', 'k'.repeat(256))
+        .send({ audioUrl })
+        .expect(400);
+
+      expect(response.body.errors[0].field).toBe('headers.Idempotency-Key');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import request from 'supertest';
+import mongoose from 'mongoose';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
+import { Job } from '../src/models/Job.model';
+import { Transcription } from '../src/models/Transcription.model';
+import { jobQueue } from '../src/services/job-queue.service';
+
+describe('Job Queue API', () => {
+  let app: App;
+  let audioServer: AudioStandInServer;
+  let audioUrl: string;
+
+  beforeAll(async () => {
+    app = new App();
+
+    // Serve audio from a local stand-in instead of a remote host
+    audioServer = await startAudioServer();
+    audioUrl = audioServer.url('/sample.wav');
+  });
+
+  afterAll(async () => {
+    await audioServer.close();
+  });
+
+  describe('POST /transcription', () => {
+    it('should accept the request and queue a job', async () => {
+      const response = await request(app.app)
+        .post('/transcription')
+        .send({ audioUrl })
+        .expect(202);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.status).toBe('queued');
+      expect(response.body.data.statusUrl).toBe(`/jobs/${response.body.data.jobId}`);
+      expect(response.headers.location).toBe(response.body.data.statusUrl);
+
+      // Nothing is transcribed until a worker picks the job up
+      expect(await Transcription.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('GET /jobs/:id', () => {
+    it('should report a queued job', async () => {
+      const accepted = await request(app.app)
+        .post('/transcription')
+        .send({ audioUrl, language: 'fr-FR' });
+
+      const response = await request(app.app)
+        .get(`/jobs/${accepted.body.data.jobId}`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.type).toBe('transcription');
+      expect(response.body.data.status).toBe('queued');
+      expect(response.body.data.attempts).toBe(0);
+    });
+
+    it('should report the transcription id once the worker succeeds', async () => {
+      const accepted = await request(app.app)
+        .post('/transcription')
+        .send({ audioUrl });
+
+      expect(await app.jobWorker.drain()).toBe(1);
+
+      const response = await request(app.app)
+        .get(`/jobs/${accepted.body.data.jobId}`)
+        .expect(200);
+
+      expect(response.body.data.status).toBe('succeeded');
+      expect(response.body.data.result.id).toBeDefined();
+
+      const transcription = await Transcription.findById(response.body.data.result.id);
+      expect(transcription?.audioUrl).toBe(audioUrl);
+    });
+
+    it('should return 404 for non-existent job', async () => {
+      const fakeId = new mongoose.Types.ObjectId().toString();
+
+      const response = await request(app.app)
+        .get(`/jobs/${fakeId}`)
+        .expect(404);
+
+      expect(response.body.detail).toBe('Job not found');
+    });
+
+    it('should return 404 for a malformed job id', async () => {
+      const response = await request(app.app)
+        .get('/jobs/invalid-id')
+        .expect(404);
+
+      expect(response.body.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('Worker processing', () => {
+    it('should requeue failed jobs with backoff until attempts are exhausted', async () => {
+      jobQueue.registerHandler('always-fails', async () => {
+        throw new Error('boom');
+      });
+
+      const job = await jobQueue.enqueue('always-fails', {}, { maxAttempts: 2 });
+
+      await jobQueue.processNext('test-worker');
+      let stored = await Job.findById(job._id);
+      expect(stored?.status).toBe('queued');
+      expect(stored?.attempts).toBe(1);
+      expect(stored?.error).toBe('boom');
+      expect(stored!.runAt.getTime()).toBeGreaterThan(Date.now());
+
+      // Make the retry due immediately
+      await Job.updateOne({ _id: job._id }, { runAt: new Date() });
+      await jobQueue.processNext('test-worker');
+
+      stored = await Job.findById(job._id);
+      expect(stored?.status).toBe('failed');
+      expect(stored?.attempts).toBe(2);
+    });
+
+    it('should reclaim running jobs whose lease has expired', async () => {
+      jobQueue.registerHandler('echo', async (payload) => payload);
+
+      const job = await jobQueue.enqueue('echo', { value: 42 });
+      await Job.updateOne(
+        { _id: job._id },
+        { status: 'running', lockedBy: 'crashed-worker', lockedUntil: new Date(Date.now() - 1000), attempts: 1 }
+      );
+
+      expect(await jobQueue.processNext('test-worker')).toBe(true);
+
+      const stored = await Job.findById(job._id);
+      expect(stored?.status).toBe('succeeded');
+      expect(stored?.result).toEqual({ value: 42 });
+    });
+
+    it('should renew the lease while the handler runs', async () => {
+      const leaseMs = config.JOB_LEASE_MS;
+      config.JOB_LEASE_MS = 300;
+
+      try {
+        let finish = (): void => undefined;
+        jobQueue.registerHandler('slow', () => new Promise(resolve => { finish = () => resolve({}); }));
+
+        const job = await jobQueue.enqueue('slow', {});
+        const running = jobQueue.processNext('test-worker');
+        await new Promise(resolve => setTimeout(resolve, 1000));
+
+        // Well past the original lease, but the job is still held
+        expect(await jobQueue.processNext('other-worker')).toBe(false);
+
+        finish();
+        await running;
+
+        const stored = await Job.findById(job._id);
+        expect(stored?.status).toBe('succeeded');
+        expect(stored?.attempts).toBe(1);
+      } finally {
+        config.JOB_LEASE_MS = leaseMs;
+      }
+    });
+
+    it('should not save a second transcription when a succeeded job runs again', async () => {
+      const accepted = await request(app.app).post('/transcription').send({ audioUrl }).expect(202);
+      await app.jobWorker.drain();
+      const first = await Job.findById(accepted.body.data.jobId);
+
+      // As if another worker had reclaimed the job while its first run was finishing
+      await Job.updateOne(
+        { _id: first!._id },
+        { status: 'running', lockedBy: 'crashed-worker', lockedUntil: new Date(Date.now() - 1000) }
+      );
+      expect(await app.jobWorker.drain()).toBe(1);
+
+      const rerun = await Job.findById(first!._id);
+      expect(rerun?.status).toBe('succeeded');
+      expect(rerun?.result?.id).toBe(first?.result?.id);
+      expect(await Transcription.countDocuments()).toBe(1);
+    });
+  });
+});
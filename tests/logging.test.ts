@@ -0,0 +1,158 @@
+import request from 'supertest';
+import { App } from '../src/app';
+import { Job } from '../src/models/Job.model';
+import { jobQueue } from '../src/services/job-queue.service';
+import { logger, redact } from '../src/utils/logger';
+import { runWithRequestId } from '../src/utils/request-context';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
+
+describe('Structured logging', () => {
+  let app: App;
+  let audioServer: AudioStandInServer;
+
+  /**
+   * Capture the JSON log entries written while `fn` runs
+   */
+  const captureLogs = async (fn: () => Promise<unknown>): Promise<Record<string, any>[]> => {
+    const lines: string[] = [];
+    const capture = (line: string) => {
+      lines.push(line);
+    };
+    const spies = [
+      jest.spyOn(console, 'log').mockImplementation(capture),
+      jest.spyOn(console, 'warn').mockImplementation(capture),
+      jest.spyOn(console, 'error').mockImplementation(capture)
+    ];
+
+    try {
+      await fn();
+    } finally {
+      spies.forEach(spy => spy.mockRestore());
+    }
+
+    return lines.map(line => JSON.parse(line));
+  };
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+
+    app = new App();
+    audioServer = await startAudioServer();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    await audioServer.close();
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('X-Request-Id', () => {
+    it('should echo a caller-supplied correlation id', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions')
+        .set('X-Request-Id', 'client-req-42')
+        .expect(200);
+
+      expect(response.headers['x-request-id']).toBe('client-req-42');
+    });
+
+    it('should generate an id when none or an unsafe one is supplied', async () => {
+      const generated = await request(app.app).get('/transcriptions').expect(200);
+      const replaced = await request(app.app).get('/transcriptions').set('X-Request-Id', 'bad id\twith spaces').expect(200);
+
+      expect(generated.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should include the correlation id in problem responses', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions/000000000000000000000000')
+        .set('X-Request-Id', 'problem-req-3')
+        .expect(404);
+
+      expect(response.headers['content-type']).toContain('application/problem+json');
+      expect(response.body).toMatchObject({ code: 'NOT_FOUND', requestId: 'problem-req-3' });
+    });
+
+    it('should log the completed request under its correlation id', async () => {
+      const entries = await captureLogs(() =>
+        request(app.app).get('/transcriptions').set('X-Request-Id', 'access-log-1').expect(200)
+      );
+
+      const completed = entries.find(entry => entry.message === 'Request completed');
+      expect(completed).toMatchObject({
+        level: 'info',
+        requestId: 'access-log-1',
+        method: 'GET',
+        path: '/transcriptions',
+        statusCode: 200
+      });
+      expect(typeof completed?.durationMs).toBe('number');
+    });
+  });
+
+  describe('Background work', () => {
+    it('should run queued jobs under the id of the request that queued them', async () => {
+      const accepted = await request(app.app)
+        .post('/transcription')
+        .set('X-Request-Id', 'queued-by-req-7')
+        .send({ audioUrl: audioServer.url('/sample.wav') })
+        .expect(202);
+
+      const job = await Job.findById(accepted.body.data.jobId);
+      expect(job?.requestId).toBe('queued-by-req-7');
+
+      const entries = await captureLogs(() => app.jobWorker.drain());
+
+      const succeeded = entries.find(entry => entry.message === 'Job succeeded');
+      expect(succeeded?.requestId).toBe('queued-by-req-7');
+      expect(entries.find(entry => entry.message === 'Transcription saved')?.requestId).toBe('queued-by-req-7');
+    });
+
+    it('should leave jobs queued outside a request without an id', async () => {
+      const job = await jobQueue.enqueue('transcription', { audioUrl: audioServer.url('/sample.wav') });
+
+      expect(job.requestId).toBeUndefined();
+    });
+  });
+
+  describe('Redaction', () => {
+    it('should mask sensitive fields and strip URL query strings', () => {
+      const redacted = redact({
+        apiKey: 'vo_live_abc',
+        headers: { authorization: 'Bearer secret-token', accept: 'application/json' },
+        audioUrl: 'https://storage.example.com/a.wav?sv=2024&sig=abc123',
+        nested: { password: 'hunter2', count: 3 }
+      });
+
+      expect(redacted).toEqual({
+        apiKey: '[REDACTED]',
+        headers: { authorization: '[REDACTED]', accept: 'application/json' },
+        audioUrl: 'https://storage.example.com/a.wav?[REDACTED]',
+        nested: { password: '[REDACTED]', count: 3 }
+      });
+    });
+
+    it('should redact URLs inside messages and errors', async () => {
+      const entries = await captureLogs(async () => {
+        runWithRequestId('redaction-1', () => {
+          logger.error('Download failed for https://cdn.example.com/x.mp3?token=abc', {
+            error: new Error('GET https://cdn.example.com/x.mp3?token=abc returned 403')
+          });
+        });
+      });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        level: 'error',
+        requestId: 'redaction-1',
+        message: 'Download failed for https://cdn.example.com/x.mp3?[REDACTED]',
+        error: { name: 'Error', message: 'GET https://cdn.example.com/x.mp3?[REDACTED] returned 403' }
+      });
+      expect(JSON.stringify(entries[0])).not.toContain('token=abc');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import request from 'supertest';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { Transcription } from '../src/models/Transcription.model';
+import { Usage } from '../src/models/Usage.model';
+import { DEFAULT_TENANT_ID } from '../src/utils/tenant-context';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
+
+describe('Prometheus metrics', () => {
+  let app: App;
+  let audioServer: AudioStandInServer;
+
+  const scrape = async (): Promise<string> => {
+    const response = await request(app.app).get('/metrics').expect(200);
+    return response.text;
+  };
+
+  /**
+   * Value of a sample, e.g. metricValue(text, 'workflows', '{status="review"}')
+   */
+  const metricValue = (text: string, name: string, labels: string = ''): number | undefined => {
+    const line = text.split('\n').find(l => l.startsWith(`${name}${labels} `));
+    return line ? Number(line.slice(line.lastIndexOf(' ') + 1)) : undefined;
+  };
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+
+    app = new App();
+    audioServer = await startAudioServer();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    await audioServer.close();
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  it('should expose metrics in Prometheus text format', async () => {
+    const response = await request(app.app).get('/metrics').expect(200);
+
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.text).toContain('# TYPE http_request_duration_seconds histogram');
+    expect(response.text).toContain('process_cpu_user_seconds_total');
+  });
+
+  it('should label request latency with the route pattern', async () => {
+    const transcription = await Transcription.create({ audioUrl: 'https://example.com/a.wav', transcription: 'Text' });
+
+    await request(app.app).get(`/transcriptions/${transcription._id}`).expect(200);
+
+    const text = await scrape();
+    expect(metricValue(text, 'http_request_duration_seconds_count', '{method="GET",route="/transcriptions/:id",status_code="200"}')).toBe(1);
+  });
+
+  it('should count transcriptions and their latency by source and language', async () => {
+    await request(app.app)
+      .post('/workflow')
+      .send({ audioUrl: audioServer.url('/sample.wav'), language: 'fr-FR' })
+      .expect(201);
+
+    const text = await scrape();
+    expect(metricValue(text, 'transcriptions_total', '{source="mock",language="fr-FR",outcome="success"}')).toBe(1);
+    expect(metricValue(text, 'transcription_duration_seconds_count', '{source="mock",language="fr-FR"}')).toBe(1);
+  });
+
+  it('should report workflow states and time spent in them', async () => {
+    const workflow = await Transcription.create({
+      audioUrl: 'https://example.com/b.wav',
+      transcription: 'Text',
+      workflowStatus: 'review',
+      workflowHistory: [{ status: 'review', timestamp: new Date(Date.now() - 90 * 1000) }]
+    });
+    await Transcription.create({ audioUrl: 'https://example.com/c.wav', transcription: 'Text', workflowStatus: 'review' });
+
+    let text = await scrape();
+    expect(metricValue(text, 'workflows', '{status="review"}')).toBe(2);
+
+    await request(app.app).put(`/workflow/${workflow._id}/transition`).send({ newStatus: 'approval' }).expect(200);
+
+    text = await scrape();
+    expect(metricValue(text, 'workflows', '{status="review"}')).toBe(1);
+    expect(metricValue(text, 'workflows', '{status="approval"}')).toBe(1);
+    expect(metricValue(text, 'workflow_time_in_state_seconds_bucket', '{le="60",status="review"}')).toBe(0);
+    expect(metricValue(text, 'workflow_time_in_state_seconds_bucket', '{le="300",status="review"}')).toBe(1);
+  });
+
+  it('should count rate limit rejections by limiter', async () => {
+    const period = new Date().toISOString().slice(0, 7);
+    await Usage.create({ tenantId: DEFAULT_TENANT_ID, period, audioSeconds: 60 * 60 });
+
+    await request(app.app).post('/transcription').send({ audioUrl: audioServer.url('/sample.wav') }).expect(429);
+
+    const text = await scrape();
+    expect(metricValue(text, 'rate_limit_rejections_total', '{limiter="audio_quota"}')).toBe(1);
+  });
+
+  it('should require the bearer token when METRICS_TOKEN is set', async () => {
+    config.METRICS_TOKEN = 'scrape-token';
+
+    try {
+      await request(app.app).get('/metrics').expect(401);
+      await request(app.app).get('/metrics').set('Authorization', 'Bearer wrong-token!').expect(401);
+      await request(app.app).get('/metrics').set('Authorization', 'Bearer scrape-token').expect(200);
+    } finally {
+      config.METRICS_TOKEN = '';
+    }
+  });
+});
@@ -0,0 +1,121 @@
+import request from 'supertest';
+import { Router } from 'express';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { apiDocs, listRoutes } from '../src/docs/route-docs';
+import { buildOpenApiDocument } from '../src/docs/openapi';
+import { validateRequest } from '../src/middleware/validate-request';
+import { field } from '../src/utils/schema';
+
+describe('OpenAPI document', () => {
+  let app: App;
+  const originalAuthRequired = config.AUTH_REQUIRED;
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+    // The document and docs page are public
+    config.AUTH_REQUIRED = true;
+
+    app = new App();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    config.AUTH_REQUIRED = originalAuthRequired;
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('GET /openapi.json', () => {
+    it('should document every registered route', async () => {
+      const response = await request(app.app).get('/openapi.json').expect(200);
+
+      const undocumented = listRoutes(app.app.router)
+        .filter(({ method, path }) => !response.body.paths[path.replace(/:(\w+)/g, '{$1}')]?.[method])
+        .map(({ method, path }) => `${method.toUpperCase()} ${path}`);
+
+      expect(undocumented).toEqual([]);
+      expect(response.body.openapi).toBe('3.0.3');
+      expect(response.body.info.version).toBe('1.0.0');
+    });
+
+    it('should describe parameters and bodies from the validation schemas', async () => {
+      const { body } = await request(app.app).get('/openapi.json').expect(200);
+
+      const list = body.paths['/v1/transcriptions'].get;
+      expect(list.parameters).toContainEqual({
+        name: 'limit',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 }
+      });
+      expect(list.responses['400'].content['application/problem+json'].schema).toEqual({ $ref: '#/components/schemas/Problem' });
+
+      const create = body.paths['/v2/webhooks'].post;
+      expect(create.requestBody.content['application/json'].schema).toMatchObject({
+        type: 'object',
+        required: ['url', 'events'],
+        properties: { url: { type: 'string', format: 'uri' }, secret: { type: 'string', minLength: 16 } }
+      });
+      expect(create.responses['201']).toBeDefined();
+
+      const transition = body.paths['/v1/workflow/{id}/transition'].put;
+      expect(transition.parameters).toEqual([
+        { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        expect.objectContaining({ name: 'Idempotency-Key', in: 'header', required: false }),
+        expect.objectContaining({ name: 'If-Match', in: 'header', required: false })
+      ]);
+      expect(transition.responses['412'].content['application/problem+json']).toBeDefined();
+    });
+
+    it('should document who may call each route', async () => {
+      const { body } = await request(app.app).get('/openapi.json').expect(200);
+
+      expect(body.security).toEqual([{ apiKey: [] }, { bearerAuth: [] }]);
+      expect(body.paths['/health'].get.security).toEqual([]);
+      expect(body.paths['/status'].get.security).toEqual([{ metricsToken: [] }]);
+      expect(body.paths['/v1/admin/api-keys'].post.security).toEqual([{ adminToken: [] }]);
+      expect(body.paths['/v1/transcriptions'].get.security).toBeUndefined();
+    });
+
+    it('should mark unversioned aliases as deprecated', async () => {
+      const { body } = await request(app.app).get('/openapi.json').expect(200);
+
+      expect(body.paths['/v2/workflow/{id}'].get.deprecated).toBeUndefined();
+      expect(body.paths['/workflow/{id}'].get.deprecated).toBe(true);
+      expect(body.paths['/workflow/{id}'].get.parameters).toContainEqual(
+        expect.objectContaining({ name: 'API-Version', in: 'header', required: false })
+      );
+      expect(body.paths['/health'].get.deprecated).toBeUndefined();
+    });
+  });
+
+  describe('GET /docs', () => {
+    it('should serve the interactive documentation', async () => {
+      const response = await request(app.app).get('/docs').expect(200);
+
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.text).toContain("url: 'openapi.json'");
+    });
+  });
+
+  describe('Undocumented routes', () => {
+    it('should be left out of the document', () => {
+      const router = Router();
+      const doc = apiDocs('Test');
+      const schema = { query: field.object({ q: field.string() }) };
+
+      router.get('/documented', doc('Documented'), validateRequest(schema), (req, res) => { res.end(); });
+      router.get('/undocumented', (req, res) => { res.end(); });
+
+      const document = buildOpenApiDocument(router);
+
+      expect(Object.keys(document.paths)).toEqual(['/documented']);
+      expect(document.paths['/documented'].get.parameters).toEqual([
+        { name: 'q', in: 'query', required: true, schema: { type: 'string' } }
+      ]);
+    });
+  });
+});
@@ -1,5 +1,9 @@
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import mongoose from 'mongoose';
+import { config } from '../src/config/env';
+
+// Stand-in audio hosts and webhook receivers listen on loopback, which is otherwise refused
+config.OUTBOUND_ALLOWED_HOSTS = ['127.0.0.1'];
 
 let mongoServer: MongoMemoryServer;
 
@@ -1,6 +1,7 @@
 import request from 'supertest';
 import { App } from '../src/app';
 import { Transcription } from '../src/models/Transcription.model';
+import { Job } from '../src/models/Job.model';
 
 describe('Transcription API', () => {
   let app: App;
@@ -22,96 +23,97 @@ describe('Transcription API', () => {
     }
   });
 
-  describe('POST /api/transcription', () => {
-    it('should create a new transcription with valid audioUrl', async () => {
+  describe('POST /transcription', () => {
+    it('should queue a transcription job for a valid audioUrl', async () => {
       const audioUrl = 'https://example.com/sample.mp3';
       
       const response = await request(app.app)
-        .post('/api/transcription')
+        .post('/transcription')
         .send({ audioUrl })
-        .expect(201);
+        .expect(202);
 
-      expect(response.body).toHaveProperty('id');
-      expect(response.body).toHaveProperty('message', 'Transcription saved');
-      expect(response.body.id).toBeDefined();
-
-      // Verify transcription was saved to database
-      const transcription = await Transcription.findById(response.body.id);
-      expect(transcription).toBeTruthy();
-      expect(transcription?.audioUrl).toBe(audioUrl);
-      expect(transcription?.source).toBe('mock');
-      expect(transcription?.transcription).toBeDefined();
+      expect(response.body.success).toBe(true);
+      expect(response.body).toHaveProperty('message', 'Transcription job accepted');
+      expect(response.body.data.status).toBe('queued');
+      expect(response.body.data.statusUrl).toBe(`/jobs/${response.body.data.jobId}`);
+      expect(response.headers.location).toBe(response.body.data.statusUrl);
+
+      // Verify the job was queued with the request
+      const job = await Job.findById(response.body.data.jobId);
+      expect(job).toBeTruthy();
+      expect(job?.type).toBe('transcription');
+      expect(job?.payload.audioUrl).toBe(audioUrl);
     });
 
     it('should return 400 for missing audioUrl', async () => {
       const response = await request(app.app)
-        .post('/api/transcription')
+        .post('/transcription')
         .send({})
         .expect(400);
 
-      expect(response.body.error).toBe('Bad Request');
-      expect(response.body.message).toBe('audioUrl is required');
+      expect(response.body.title).toBe('Bad Request');
+      expect(response.body.detail).toBe('audioUrl or uploadId is required');
     });
 
     it('should return 400 for invalid audioUrl format', async () => {
       const response = await request(app.app)
-        .post('/api/transcription')
+        .post('/transcription')
         .send({ audioUrl: 'invalid-url' })
         .expect(400);
 
-      expect(response.body.error).toBe('Bad Request');
-      expect(response.body.message).toBe('Invalid audioUrl format');
+      expect(response.body.title).toBe('Bad Request');
+      expect(response.body.detail).toBe('Invalid audioUrl format');
     });
 
     it('should handle different valid URL formats', async () => {
       const validUrls = [
         'https://example.com/audio.mp3',
         'http://test.com/file.wav',
-        'ftp://files.example.org/audio/sample.flac'
+        'https://files.example.org/audio/sample.flac?sv=2024&sig=abc'
       ];
 
       for (const audioUrl of validUrls) {
         const response = await request(app.app)
-          .post('/api/transcription')
+          .post('/transcription')
           .send({ audioUrl })
-          .expect(201);
+          .expect(202);
 
-        expect(response.body.id).toBeDefined();
+        expect(response.body.data.jobId).toBeDefined();
       }
     });
   });
 
-  describe('POST /api/azure-transcription', () => {
-    it('should create Azure transcription with valid audioUrl', async () => {
+  describe('POST /azure-transcription', () => {
+    it('should queue an Azure transcription job for a valid audioUrl', async () => {
       const audioUrl = 'https://example.com/azure-sample.mp3';
       
       const response = await request(app.app)
-        .post('/api/azure-transcription')
+        .post('/azure-transcription')
         .send({ audioUrl })
-        .expect(201);
+        .expect(202);
 
-      expect(response.body).toHaveProperty('id');
-      expect(response.body.message).toContain('Transcription saved');
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.statusUrl).toBe(`/jobs/${response.body.data.jobId}`);
 
-      // Verify transcription source
-      const transcription = await Transcription.findById(response.body.id);
-      expect(transcription).toBeTruthy();
-      expect(transcription?.audioUrl).toBe(audioUrl);
-      expect(['azure', 'mock']).toContain(transcription?.source); // Could be azure or fallback to mock
+      // Verify the job type
+      const job = await Job.findById(response.body.data.jobId);
+      expect(job).toBeTruthy();
+      expect(job?.type).toBe('azure-transcription');
+      expect(job?.payload.audioUrl).toBe(audioUrl);
     });
 
     it('should return 400 for missing audioUrl', async () => {
       const response = await request(app.app)
-        .post('/api/azure-transcription')
+        .post('/azure-transcription')
         .send({})
         .expect(400);
 
-      expect(response.body.error).toBe('Bad Request');
-      expect(response.body.message).toBe('audioUrl is required');
+      expect(response.body.title).toBe('Bad Request');
+      expect(response.body.detail).toBe('audioUrl or uploadId is required');
     });
   });
 
-  describe('GET /api/transcriptions', () => {
+  describe('GET /transcriptions', () => {
     beforeEach(async () => {
       // Create test transcriptions with different dates
       const now = new Date();
@@ -142,7 +144,7 @@ describe('Transcription API', () => {
 
     it('should return only transcriptions from last 30 days', async () => {
       const response = await request(app.app)
-        .get('/api/transcriptions')
+        .get('/transcriptions')
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -156,7 +158,7 @@ describe('Transcription API', () => {
 
     it('should support pagination', async () => {
       const response = await request(app.app)
-        .get('/api/transcriptions?page=1&limit=1')
+        .get('/transcriptions?page=1&limit=1')
         .expect(200);
 
       expect(response.body.data).toHaveLength(1);
@@ -168,7 +170,7 @@ describe('Transcription API', () => {
 
     it('should return transcriptions in descending order by createdAt', async () => {
       const response = await request(app.app)
-        .get('/api/transcriptions')
+        .get('/transcriptions')
         .expect(200);
 
       const transcriptions = response.body.data;
@@ -180,15 +182,15 @@ describe('Transcription API', () => {
 
     it('should return 400 for invalid pagination parameters', async () => {
       const response = await request(app.app)
-        .get('/api/transcriptions?page=0&limit=200')
+        .get('/transcriptions?page=0&limit=200')
         .expect(400);
 
-      expect(response.body.error).toBe('Bad Request');
-      expect(response.body.message).toContain('Invalid pagination parameters');
+      expect(response.body.title).toBe('Bad Request');
+      expect(response.body.detail).toContain('page must be an integer of at least 1');
     });
   });
 
-  describe('GET /api/transcription/:id', () => {
+  describe('GET /transcriptions/:id', () => {
     let transcriptionId: string;
 
     beforeEach(async () => {
@@ -202,7 +204,7 @@ describe('Transcription API', () => {
 
     it('should return transcription by valid ID', async () => {
       const response = await request(app.app)
-        .get(`/api/transcription/${transcriptionId}`)
+        .get(`/transcriptions/${transcriptionId}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -215,26 +217,253 @@ describe('Transcription API', () => {
       const fakeId = '507f1f77bcf86cd799439011'; // Valid ObjectId format but doesn't exist
       
       const response = await request(app.app)
-        .get(`/api/transcription/${fakeId}`)
+        .get(`/transcriptions/${fakeId}`)
+        .expect(404);
+
+      expect(response.body.title).toBe('Not Found');
+      expect(response.body.detail).toBe('Transcription not found');
+    });
+
+    it('should return 404 for invalid ID format', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions/invalid-id')
         .expect(404);
 
-      expect(response.body.error).toBe('Not Found');
-      expect(response.body.message).toBe('Transcription not found');
+      expect(response.body.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('GET /transcriptions filtering, sorting and search', () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    beforeEach(async () => {
+      // The text index must exist before $text queries
+      await Transcription.init();
+
+      await Transcription.create([
+        {
+          audioUrl: 'https://media.example.com/a.wav',
+          transcription: 'The quick brown fox jumps over the lazy dog',
+          confidence: 0.95,
+          source: 'mock',
+          language: 'en-US',
+          workflowStatus: 'review',
+          createdAt: daysAgo(1)
+        },
+        {
+          audioUrl: 'https://other.example.org:8443/b.wav',
+          transcription: 'Le renard brun rapide',
+          confidence: 0.8,
+          source: 'azure',
+          language: 'fr-FR',
+          workflowStatus: 'completed',
+          createdAt: daysAgo(5)
+        },
+        {
+          audioUrl: 'https://media.example.com/c.wav',
+          transcription: 'A fox in the archive',
+          confidence: 0.6,
+          source: 'mock',
+          language: 'en-US',
+          createdAt: daysAgo(60)
+        }
+      ]);
+    });
+
+    it('should filter by source, language and workflow status', async () => {
+      const bySource = await request(app.app).get('/transcriptions?source=azure').expect(200);
+      expect(bySource.body.data.map((t: any) => t.language)).toEqual(['fr-FR']);
+
+      const byLanguage = await request(app.app).get('/transcriptions?language=en-US').expect(200);
+      expect(byLanguage.body.pagination.total).toBe(1);
+
+      const byStatus = await request(app.app).get('/transcriptions?workflowStatus=completed').expect(200);
+      expect(byStatus.body.data[0].audioUrl).toBe('https://other.example.org:8443/b.wav');
+    });
+
+    it('should filter by audio URL host', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions?audioHost=other.example.org')
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].audioUrl).toBe('https://other.example.org:8443/b.wav');
+    });
+
+    it('should replace the 30-day default with an explicit date range', async () => {
+      const response = await request(app.app)
+        .get(`/transcriptions?from=${daysAgo(90).toISOString()}&to=${daysAgo(30).toISOString()}`)
+        .expect(200);
+
+      expect(response.body.data.map((t: any) => t.audioUrl)).toEqual(['https://media.example.com/c.wav']);
+    });
+
+    it('should sort by the requested field and direction', async () => {
+      const response = await request(app.app)
+        .get('/transcriptions?sortBy=confidence&sortOrder=asc')
+        .expect(200);
+
+      expect(response.body.data.map((t: any) => t.confidence)).toEqual([0.8, 0.95]);
+    });
+
+    it('should search the transcription text', async () => {
+      const response = await request(app.app)
+        .get(`/transcriptions?search=fox&from=${daysAgo(90).toISOString()}`)
+        .expect(200);
+
+      expect(response.body.pagination.total).toBe(2);
+      expect(response.body.data.every((t: any) => t.transcription.includes('fox'))).toBe(true);
+      expect(response.body.data[0]).toHaveProperty('score');
+    });
+
+    it('should page through results with cursors', async () => {
+      const query = `pagination=cursor&limit=1&sortBy=confidence&from=${daysAgo(90).toISOString()}`;
+
+      const first = await request(app.app).get(`/transcriptions?${query}&includeTotal=true`).expect(200);
+      expect(first.body.data.map((t: any) => t.confidence)).toEqual([0.95]);
+      expect(first.body.pagination.total).toBe(3);
+      expect(first.body.pagination.prev).toBeNull();
+
+      const second = await request(app.app)
+        .get(`/transcriptions?${query}&cursor=${first.body.pagination.next}`)
+        .expect(200);
+      expect(second.body.data.map((t: any) => t.confidence)).toEqual([0.8]);
+      expect(second.body.pagination).not.toHaveProperty('total');
+
+      const third = await request(app.app)
+        .get(`/transcriptions?${query}&cursor=${second.body.pagination.next}`)
+        .expect(200);
+      expect(third.body.data.map((t: any) => t.confidence)).toEqual([0.6]);
+      expect(third.body.pagination.next).toBeNull();
+
+      const back = await request(app.app)
+        .get(`/transcriptions?${query}&cursor=${third.body.pagination.prev}`)
+        .expect(200);
+      expect(back.body.data.map((t: any) => t.confidence)).toEqual([0.8]);
+    });
+
+    it('should reject cursors from a different sort order', async () => {
+      const first = await request(app.app).get('/transcriptions?pagination=cursor&limit=1').expect(200);
+
+      const response = await request(app.app)
+        .get(`/transcriptions?cursor=${first.body.pagination.next}&sortBy=confidence`)
+        .expect(400);
+
+      expect(response.body.detail).toBe('Invalid cursor for this sort order');
+    });
+
+    it('should return 400 for invalid sort and date parameters', async () => {
+      await request(app.app).get('/transcriptions?sortBy=audioUrl').expect(400);
+      await request(app.app).get('/transcriptions?sortOrder=up').expect(400);
+      await request(app.app).get('/transcriptions?sortBy=relevance').expect(400);
+      await request(app.app).get('/transcriptions?from=last-week').expect(400);
+    });
+  });
+
+  describe('Single transcription CRUD', () => {
+    let transcriptionId: string;
+
+    beforeEach(async () => {
+      const transcription = await Transcription.create({
+        audioUrl: 'https://example.com/crud.mp3',
+        transcription: 'Helo wrld',
+        confidence: 0.7,
+        segments: [{ speaker: 'Speaker 1', start: 0, end: 1, text: 'Helo wrld', confidence: 0.7, words: [] }],
+        source: 'mock',
+        workflowStatus: 'review'
+      });
+      transcriptionId = transcription._id.toString();
+    });
+
+    it('should get a transcription by ID', async () => {
+      const response = await request(app.app)
+        .get(`/transcriptions/${transcriptionId}`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.transcription).toBe('Helo wrld');
+    });
+
+    it('should return 404 for an invalid or unknown ID', async () => {
+      await request(app.app).get('/transcriptions/invalid-id').expect(404);
+      await request(app.app).get('/transcriptions/507f1f77bcf86cd799439011').expect(404);
+    });
+
+    it('should correct the text and keep the previous version as a revision', async () => {
+      const response = await request(app.app)
+        .patch(`/transcriptions/${transcriptionId}`)
+        .send({ transcription: 'Hello world', language: 'en-GB', editedBy: 'alice', comment: 'Typos' })
+        .expect(200);
+
+      expect(response.body.data.transcription).toBe('Hello world');
+      expect(response.body.data.language).toBe('en-GB');
+      expect(response.body.data.segments).toEqual([]);
+      expect(response.body.data.revisions).toHaveLength(1);
+      expect(response.body.data.revisions[0]).toMatchObject({
+        transcription: 'Helo wrld',
+        language: 'en-US',
+        confidence: 0.7,
+        editedBy: 'alice',
+        comment: 'Typos'
+      });
+      expect(response.body.data.revisions[0].segments).toHaveLength(1);
+    });
+
+    it('should reject edits without text or language', async () => {
+      const response = await request(app.app)
+        .patch(`/transcriptions/${transcriptionId}`)
+        .send({ comment: 'Nothing to change' })
+        .expect(400);
+
+      expect(response.body.detail).toBe('transcription or language is required');
+    });
+
+    it('should reject an invalid language', async () => {
+      await request(app.app)
+        .patch(`/transcriptions/${transcriptionId}`)
+        .send({ language: 'english' })
+        .expect(400);
+    });
+
+    it('should reject edits once the workflow is completed', async () => {
+      await Transcription.updateOne({ _id: transcriptionId }, { workflowStatus: 'completed' });
+
+      const response = await request(app.app)
+        .patch(`/transcriptions/${transcriptionId}`)
+        .send({ transcription: 'Hello world' })
+        .expect(409);
+
+      expect(response.body.detail).toBe('Cannot edit a transcription in completed state');
+    });
+
+    it('should soft-delete and restore a transcription', async () => {
+      await request(app.app).delete(`/transcriptions/${transcriptionId}`).expect(200);
+
+      await request(app.app).get(`/transcriptions/${transcriptionId}`).expect(404);
+      const deleted = await Transcription.findOne({ _id: transcriptionId, deletedAt: { $ne: null } });
+      expect(deleted).toBeTruthy();
+
+      const response = await request(app.app)
+        .post(`/transcriptions/${transcriptionId}/restore`)
+        .expect(200);
+
+      expect(response.body.data.deletedAt).toBeNull();
+      await request(app.app).get(`/transcriptions/${transcriptionId}`).expect(200);
     });
 
-    it('should return 500 for invalid ID format', async () => {
+    it('should return 409 when restoring a transcription that is not deleted', async () => {
       const response = await request(app.app)
-        .get('/api/transcription/invalid-id')
-        .expect(500);
+        .post(`/transcriptions/${transcriptionId}/restore`)
+        .expect(409);
 
-      expect(response.body.error).toBe('Internal Server Error');
+      expect(response.body.detail).toBe('Transcription is not deleted');
     });
   });
 
-  describe('GET /api/azure/health', () => {
+  describe('GET /health/azure', () => {
     it('should return Azure service health status', async () => {
       const response = await request(app.app)
-        .get('/api/azure/health')
+        .get('/health/azure')
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -278,8 +507,8 @@ describe('Transcription API', () => {
         .get('/api/nonexistent')
         .expect(404);
 
-      expect(response.body.error).toBe('Not Found');
-      expect(response.body.message).toContain('Route GET /api/nonexistent not found');
+      expect(response.body.title).toBe('Not Found');
+      expect(response.body.detail).toContain('Route GET /api/nonexistent not found');
     });
   });
 });
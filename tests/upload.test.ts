@@ -0,0 +1,204 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import request from 'supertest';
+import { App } from '../src/app';
+import { Transcription } from '../src/models/Transcription.model';
+import { Upload } from '../src/models/Upload.model';
+import { uploadStorages } from '../src/storage/storage.registry';
+import { LocalDiskStorage } from '../src/storage/local-disk.storage';
+import { createWavBuffer } from './helpers/audio-server';
+
+describe('Upload API', () => {
+  let app: App;
+  let uploadDir: string;
+  const wav = createWavBuffer(1);
+
+  const startResumableUpload = (sizeBytes: number = wav.length) =>
+    request(app.app)
+      .post('/uploads/resumable')
+      .send({ filename: 'long-recording.wav', sizeBytes, contentType: 'audio/wav' });
+
+  const sendChunk = (id: string, offset: number, chunk: Buffer) =>
+    request(app.app)
+      .patch(`/uploads/${id}`)
+      .set('Content-Type', 'application/offset+octet-stream')
+      .set('Upload-Offset', String(offset))
+      .send(chunk);
+
+  beforeAll(async () => {
+    app = new App();
+
+    // Keep uploaded files out of the working directory
+    uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'uploads-'));
+    uploadStorages.register(new LocalDiskStorage(uploadDir));
+  });
+
+  afterAll(async () => {
+    await fs.rm(uploadDir, { recursive: true, force: true });
+  });
+
+  describe('POST /uploads', () => {
+    it('should store a multipart audio file with its metadata', async () => {
+      const response = await request(app.app)
+        .post('/uploads')
+        .attach('file', wav, { filename: 'sample.wav', contentType: 'audio/wav' });
+
+      expect(response.status).toBe(201);
+      expect(response.headers.location).toBe(`/uploads/${response.body.data.id}`);
+      expect(response.body.data.status).toBe('completed');
+      expect(response.body.data.storage).toBe('local');
+      expect(response.body.data.audioMetadata).toMatchObject({ format: 'wav', durationSeconds: 1, sampleRate: 16000 });
+    });
+
+    it('should reject files that are not audio', async () => {
+      const response = await request(app.app)
+        .post('/uploads')
+        .attach('file', Buffer.from('hello'), { filename: 'notes.txt', contentType: 'text/plain' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('UNSUPPORTED_CONTENT_TYPE');
+    });
+
+    it('should require a file', async () => {
+      const response = await request(app.app)
+        .post('/uploads')
+        .field('name', 'no file');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Resumable uploads', () => {
+    it('should assemble chunks sent in order and probe the result', async () => {
+      const started = await startResumableUpload();
+
+      expect(started.status).toBe(201);
+      expect(started.body.data.status).toBe('pending');
+      expect(started.headers['upload-offset']).toBe('0');
+
+      const id = started.body.data.id;
+      const half = Math.floor(wav.length / 2);
+
+      const first = await sendChunk(id, 0, wav.subarray(0, half));
+      expect(first.status).toBe(200);
+      expect(first.body.data.receivedBytes).toBe(half);
+
+      // A client that lost track of the offset asks for it before resuming
+      const head = await request(app.app).head(`/uploads/${id}`);
+      expect(head.headers['upload-offset']).toBe(String(half));
+      expect(head.headers['upload-length']).toBe(String(wav.length));
+
+      const last = await sendChunk(id, half, wav.subarray(half));
+      expect(last.status).toBe(200);
+      expect(last.body.data.status).toBe('completed');
+      expect(last.body.data.audioMetadata.format).toBe('wav');
+    });
+
+    it('should replace data stored by a chunk that was never recorded', async () => {
+      const started = await startResumableUpload();
+      const id = started.body.data.id;
+      const half = Math.floor(wav.length / 2);
+
+      await sendChunk(id, 0, wav.subarray(0, half)).expect(200);
+
+      // A crash after storing a chunk but before recording its offset
+      const upload = await Upload.findById(id);
+      await fs.appendFile(path.join(uploadDir, upload!.storageKey), wav.subarray(half, half + 100));
+
+      const last = await sendChunk(id, half, wav.subarray(half));
+
+      expect(last.status).toBe(200);
+      expect(last.body.data.status).toBe('completed');
+      expect(await fs.readFile(path.join(uploadDir, upload!.storageKey))).toEqual(wav);
+    });
+
+    it('should reject chunks sent at the wrong offset', async () => {
+      const started = await startResumableUpload();
+      const id = started.body.data.id;
+
+      await sendChunk(id, 0, wav.subarray(0, 100));
+      const response = await sendChunk(id, 0, wav.subarray(0, 100));
+
+      expect(response.status).toBe(409);
+      expect(response.body.detail).toContain('expected offset 100');
+    });
+
+    it('should reject chunks past the declared size', async () => {
+      const started = await startResumableUpload(100);
+
+      const response = await sendChunk(started.body.data.id, 0, wav.subarray(0, 200));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should discard completed uploads that are not valid audio', async () => {
+      const corrupt = Buffer.alloc(1000, 1);
+      const started = await startResumableUpload(corrupt.length);
+      const id = started.body.data.id;
+
+      const response = await sendChunk(id, 0, corrupt);
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('UNSUPPORTED_AUDIO_FORMAT');
+
+      const fetched = await request(app.app).get(`/uploads/${id}`);
+      expect(fetched.status).toBe(404);
+    });
+  });
+
+  describe('Transcribing uploads', () => {
+    let uploadId: string;
+
+    beforeEach(async () => {
+      const response = await request(app.app)
+        .post('/uploads')
+        .attach('file', wav, { filename: 'sample.wav', contentType: 'audio/wav' });
+
+      uploadId = response.body.data.id;
+    });
+
+    it('should transcribe an upload instead of a URL', async () => {
+      const accepted = await request(app.app)
+        .post('/transcription')
+        .send({ uploadId })
+        .expect(202);
+
+      expect(await app.jobWorker.drain()).toBe(1);
+
+      const job = await request(app.app).get(`/jobs/${accepted.body.data.jobId}`);
+      const transcription = await Transcription.findById(job.body.data.result.id);
+
+      expect(transcription?.uploadId).toBe(uploadId);
+      expect(transcription?.audioUrl).toBeUndefined();
+      expect(transcription?.audioMetadata?.format).toBe('wav');
+    });
+
+    it('should start a workflow from an upload', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ uploadId });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.currentStatus).toBe('transcription');
+    });
+
+    it('should not accept both audioUrl and uploadId', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ uploadId, audioUrl: 'https://example.com/sample.wav' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should not transcribe incomplete uploads', async () => {
+      const started = await startResumableUpload();
+
+      const response = await request(app.app)
+        .post('/azure-transcription')
+        .send({ uploadId: started.body.data.id });
+
+      expect(response.status).toBe(409);
+      expect(response.body.detail).toBe('Upload is not complete');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import request from 'supertest';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { Usage } from '../src/models/Usage.model';
+import { MongoRateLimitStore } from '../src/rate-limit/mongo.store';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+describe('Rate limits, quotas and usage', () => {
+  let app: App;
+  let audioServer: AudioStandInServer;
+  const originalAdminToken = config.ADMIN_API_TOKEN;
+
+  const createKey = async (tenantId: string): Promise<string> => {
+    const response = await request(app.app)
+      .post('/admin/api-keys')
+      .set('X-Admin-Token', ADMIN_TOKEN)
+      .send({ tenantId, name: `${tenantId} key`, principal: `${tenantId}-service` })
+      .expect(201);
+
+    return response.body.data.key;
+  };
+
+  const setPlan = (tenantId: string, plan: string) =>
+    request(app.app)
+      .put(`/admin/tenants/${tenantId}/plan`)
+      .set('X-Admin-Token', ADMIN_TOKEN)
+      .send({ plan });
+
+  const currentPeriod = (): string => new Date().toISOString().slice(0, 7);
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+    config.ADMIN_API_TOKEN = ADMIN_TOKEN;
+
+    app = new App();
+    audioServer = await startAudioServer();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    config.ADMIN_API_TOKEN = originalAdminToken;
+    await audioServer.close();
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('GET /usage', () => {
+    it('should report the plan, audio quota and rate limit consumption', async () => {
+      const key = await createKey('usage-report');
+
+      await request(app.app).get('/transcriptions').set('X-API-Key', key).expect(200);
+      const response = await request(app.app).get('/usage').set('X-API-Key', key).expect(200);
+
+      expect(response.body.data).toMatchObject({
+        tenantId: 'usage-report',
+        plan: 'free',
+        audio: { usedMinutes: 0, limitMinutes: 60, remainingMinutes: 60, exceeded: false },
+        transcriptions: 0
+      });
+      expect(response.body.data.rateLimits.general).toMatchObject({ limit: config.RATE_LIMIT_MAX_REQUESTS, used: 2 });
+      expect(response.body.data.rateLimits.transcription).toMatchObject({ limit: 20, used: 0 });
+    });
+
+    it('should count limits per tenant rather than per IP', async () => {
+      const first = await createKey('usage-tenant-a');
+      const second = await createKey('usage-tenant-b');
+
+      await request(app.app).get('/transcriptions').set('X-API-Key', first).expect(200);
+      await request(app.app).get('/transcriptions').set('X-API-Key', first).expect(200);
+
+      const response = await request(app.app).get('/usage').set('X-API-Key', second).expect(200);
+      expect(response.body.data.rateLimits.general.used).toBe(1);
+    });
+
+    it('should record transcribed audio minutes', async () => {
+      const key = await createKey('usage-audio');
+
+      await request(app.app)
+        .post('/workflow')
+        .set('X-API-Key', key)
+        .send({ audioUrl: audioServer.url('/sample.wav') })
+        .expect(201);
+
+      const response = await request(app.app).get('/usage').set('X-API-Key', key).expect(200);
+
+      expect(response.body.data.transcriptions).toBe(1);
+      expect(response.body.data.audio.usedMinutes).toBeCloseTo(2 / 60, 2);
+    });
+  });
+
+  describe('Plans', () => {
+    it('should apply the limits of the tenant\'s plan', async () => {
+      const key = await createKey('usage-pro');
+
+      await setPlan('usage-pro', 'pro').expect(200);
+
+      const response = await request(app.app).get('/usage').set('X-API-Key', key).expect(200);
+      expect(response.body.data.plan).toBe('pro');
+      expect(response.body.data.rateLimits.general.limit).toBe(1000);
+      expect(response.body.data.audio.limitMinutes).toBe(3000);
+    });
+
+    it('should reject unknown plans', async () => {
+      await setPlan('usage-pro', 'platinum').expect(400);
+    });
+  });
+
+  describe('Monthly audio quota', () => {
+    it('should reject transcriptions once the quota is used up', async () => {
+      const key = await createKey('usage-quota');
+      await Usage.create({ tenantId: 'usage-quota', period: currentPeriod(), audioSeconds: 60 * 60, transcriptions: 10 });
+
+      const response = await request(app.app)
+        .post('/transcription')
+        .set('X-API-Key', key)
+        .send({ audioUrl: audioServer.url('/sample.wav') })
+        .expect(429);
+
+      expect(response.body.detail).toContain('Monthly audio quota');
+      expect(response.headers['retry-after']).toBeDefined();
+
+      await request(app.app)
+        .post('/workflow')
+        .set('X-API-Key', key)
+        .send({ audioUrl: audioServer.url('/sample.wav') })
+        .expect(429);
+    });
+
+    it('should not limit unlimited plans', async () => {
+      const key = await createKey('usage-enterprise');
+      await setPlan('usage-enterprise', 'enterprise').expect(200);
+      await Usage.create({ tenantId: 'usage-enterprise', period: currentPeriod(), audioSeconds: 10 * 60 * 60 });
+
+      await request(app.app)
+        .post('/transcription')
+        .set('X-API-Key', key)
+        .send({ audioUrl: audioServer.url('/sample.wav') })
+        .expect(202);
+    });
+  });
+
+  describe('MongoRateLimitStore', () => {
+    it('should share counters between store instances', async () => {
+      const first = new MongoRateLimitStore('shared');
+      const second = new MongoRateLimitStore('shared');
+      first.init({ windowMs: 60 * 1000 });
+      second.init({ windowMs: 60 * 1000 });
+
+      await first.increment('client');
+      const result = await second.increment('client');
+
+      expect(result.totalHits).toBe(2);
+      expect((await first.get('client'))?.totalHits).toBe(2);
+    });
+
+    it('should start a new window once the previous one expired', async () => {
+      const store = new MongoRateLimitStore('expiring');
+      store.init({ windowMs: 50 });
+
+      await store.increment('client');
+      await store.increment('client');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const result = await store.increment('client');
+      expect(result.totalHits).toBe(1);
+    });
+  });
+});
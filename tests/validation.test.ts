@@ -0,0 +1,89 @@
+import request from 'supertest';
+import { App } from '../src/app';
+import { field } from '../src/utils/schema';
+import { FieldError } from '../src/errors/app-errors';
+
+describe('Request validation', () => {
+  let app: App;
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+
+    app = new App();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('Field errors', () => {
+    it('should report every invalid field of the body at once', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl: 'not a url', language: 'english', provider: 'unknown-engine' })
+        .expect(400);
+
+      expect(response.headers['content-type']).toContain('application/problem+json');
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+      expect(response.body.errors).toEqual([
+        { field: 'body.audioUrl', message: 'Invalid audioUrl format' },
+        { field: 'body.language', message: 'language must be in format xx-XX (e.g., en-US, fr-FR)' },
+        { field: 'body.provider', message: expect.stringContaining('Invalid provider. Must be one of:') }
+      ]);
+    });
+
+    it('should apply the same audio URL and language rules to every create endpoint', async () => {
+      for (const path of ['/transcription', '/azure-transcription', '/workflow']) {
+        const ftp = await request(app.app).post(path).send({ audioUrl: 'ftp://example.com/a.wav' }).expect(400);
+        const language = await request(app.app).post(path).send({ audioUrl: 'https://example.com/a.wav', language: 'fr' }).expect(400);
+
+        expect(ftp.body.errors).toEqual([{ field: 'body.audioUrl', message: 'Invalid audioUrl format' }]);
+        expect(language.body.errors[0].field).toBe('body.language');
+      }
+    });
+
+    it('should report rules spanning several fields', async () => {
+      const response = await request(app.app)
+        .post('/transcription')
+        .send({ audioUrl: 'https://example.com/a.wav', uploadId: 'abc' })
+        .expect(400);
+
+      expect(response.body.errors).toEqual([{ field: 'body', message: 'Provide either audioUrl or uploadId, not both' }]);
+    });
+
+    it('should validate query parameters', async () => {
+      const response = await request(app.app)
+        .get('/workflows?page=0&limit=500')
+        .expect(400);
+
+      expect(response.body.errors).toEqual([
+        { field: 'query.page', message: 'page must be an integer of at least 1' },
+        { field: 'query.limit', message: 'limit must be an integer between 1 and 100' }
+      ]);
+    });
+  });
+
+  describe('Parsed values', () => {
+    it('should parse numbers, booleans and dates from query strings', async () => {
+      await request(app.app).get('/transcriptions?limit=5&includeTotal=true&pagination=cursor&from=2024-01-01').expect(200);
+      await request(app.app).get('/transcriptions?includeTotal=maybe').expect(400);
+      await request(app.app).get('/transcriptions?from=yesterday').expect(400);
+    });
+
+    it('should type values and drop unknown properties', () => {
+      const schema = field.object({
+        limit: field.integer({ min: 1 }).default(10),
+        tags: field.array(field.enum(['a', 'b'] as const)).optional()
+      });
+      const errors: FieldError[] = [];
+
+      const parsed = schema.parse({ tags: 'a,b', extra: 'dropped' }, 'query', { errors, coerce: true });
+
+      expect(errors).toEqual([]);
+      expect(parsed).toEqual({ limit: 10, tags: ['a', 'b'] });
+    });
+  });
+});
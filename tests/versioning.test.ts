@@ -0,0 +1,128 @@
+import request from 'supertest';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import mongoose from 'mongoose';
+import { App } from '../src/app';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
+
+describe('API versioning', () => {
+  let mongoServer: MongoMemoryServer;
+  let app: App;
+  let audioServer: AudioStandInServer;
+  let audioUrl: string;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+
+    if (mongoose.connection.readyState !== 0) {
+      await mongoose.disconnect();
+    }
+    await mongoose.connect(mongoServer.getUri());
+
+    app = new App();
+
+    audioServer = await startAudioServer();
+    audioUrl = audioServer.url('/sample.wav');
+  });
+
+  afterAll(async () => {
+    await audioServer.close();
+    await mongoose.connection.dropDatabase();
+    await mongoose.connection.close();
+    await mongoServer.stop();
+  });
+
+  afterEach(async () => {
+    const collections = mongoose.connection.collections;
+    for (const key in collections) {
+      await collections[key].deleteMany({});
+    }
+  });
+
+  const createWorkflow = async (path: string = '/v1/workflow'): Promise<string> => {
+    const response = await request(app.app).post(path).send({ audioUrl, language: 'en-US' }).expect(201);
+    return response.body.data.id;
+  };
+
+  describe('Versioned routes', () => {
+    it('should serve the v1 response shape under /v1', async () => {
+      const id = await createWorkflow();
+
+      const response = await request(app.app).get(`/v1/workflow/${id}`).expect(200);
+
+      expect(response.headers['api-version']).toBe('1');
+      expect(response.headers['deprecation']).toBeUndefined();
+      expect(response.body.data.currentStatus).toBe('transcription');
+      expect(response.body.data.canTransition).toEqual(expect.arrayContaining(['review', 'rejected']));
+    });
+
+    it('should serve the v2 response shape under /v2', async () => {
+      const created = await request(app.app).post('/v2/workflow').send({ audioUrl, language: 'en-US' }).expect(201);
+      const id = created.body.data.id;
+
+      const response = await request(app.app).get(`/v2/workflow/${id}`).expect(200);
+
+      expect(response.headers['api-version']).toBe('2');
+      expect(response.body.data).toMatchObject({
+        id,
+        status: 'transcription',
+        allowedTransitions: expect.arrayContaining(['review', 'rejected']),
+        transcript: { text: expect.any(String), segments: expect.any(Array) },
+        history: [expect.objectContaining({ status: 'transcription', at: expect.any(String) })]
+      });
+      expect(response.body.data).not.toHaveProperty('currentStatus');
+      expect(created.body.data.status).toBe('transcription');
+    });
+
+    it('should link to resources in the same version', async () => {
+      const response = await request(app.app).post('/v2/transcription').send({ audioUrl }).expect(202);
+
+      expect(response.body.data.statusUrl).toBe(`/v2/jobs/${response.body.data.jobId}`);
+      expect(response.headers['location']).toBe(response.body.data.statusUrl);
+      await request(app.app).get(response.body.data.statusUrl).expect(200);
+    });
+
+    it('should answer 404 for unknown versioned paths', async () => {
+      const response = await request(app.app).get('/v2/unknown').expect(404);
+
+      expect(response.body.code).toBe('ROUTE_NOT_FOUND');
+      expect(response.headers['deprecation']).toBeUndefined();
+    });
+  });
+
+  describe('Unversioned routes', () => {
+    it('should keep working as deprecated aliases of v1', async () => {
+      const id = await createWorkflow('/workflow');
+
+      const response = await request(app.app).get(`/workflow/${id}`).expect(200);
+
+      expect(response.headers['api-version']).toBe('1');
+      expect(response.headers['deprecation']).toMatch(/^@\d+$/);
+      expect(new Date(response.headers['sunset']).getTime()).toBeGreaterThan(Date.now());
+      expect(response.headers['link']).toBe(`</v1/workflow/${id}>; rel="successor-version"`);
+      expect(response.body.data.currentStatus).toBe('transcription');
+    });
+
+    it('should negotiate the version with the API-Version header', async () => {
+      const id = await createWorkflow();
+
+      const response = await request(app.app).get(`/workflow/${id}`).set('API-Version', '2').expect(200);
+
+      expect(response.headers['api-version']).toBe('2');
+      expect(response.headers['link']).toBe(`</v2/workflow/${id}>; rel="successor-version"`);
+      expect(response.body.data.status).toBe('transcription');
+    });
+
+    it('should reject unsupported versions', async () => {
+      const response = await request(app.app).get('/workflows').set('API-Version', '3').expect(400);
+
+      expect(response.body.code).toBe('UNSUPPORTED_API_VERSION');
+      expect(response.body.errors).toEqual([{ field: 'headers.API-Version', message: 'API-Version must be one of: 1, 2' }]);
+    });
+
+    it('should not be deprecated for health probes', async () => {
+      const response = await request(app.app).get('/health').expect(200);
+
+      expect(response.headers['deprecation']).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { App } from '../src/app';
+import { config } from '../src/config/env';
+import { Transcription } from '../src/models/Transcription.model';
+import { WebhookDelivery } from '../src/models/WebhookDelivery.model';
+import { signWebhookPayload } from '../src/services/webhook.service';
+
+const ADMIN_TOKEN = 'test-admin-token';
+
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local endpoint that records webhook requests and answers with a configurable status
+ */
+const startReceiver = async () => {
+  const received: ReceivedWebhook[] = [];
+  let status = 200;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+      res.writeHead(status, { 'Content-Type': 'text/plain' });
+      res.end(status < 300 ? 'ok' : 'nope');
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    respondWith: (code: number) => { status = code; },
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+};
+
+describe('Webhooks', () => {
+  let app: App;
+  let receiver: Awaited<ReturnType<typeof startReceiver>>;
+  const originalAdminToken = config.ADMIN_API_TOKEN;
+
+  const createWebhook = (body: Record<string, unknown>, apiKey?: string) => {
+    const req = request(app.app).post('/webhooks');
+    return (apiKey ? req.set('X-API-Key', apiKey) : req).send(body);
+  };
+
+  const createWorkflow = async (tenantId?: string): Promise<string> => {
+    const transcription = await Transcription.create({
+      audioUrl: 'https://example.com/webhook.wav',
+      transcription: 'Webhook transcript',
+      workflowStatus: 'review',
+      tenantId
+    });
+
+    return transcription._id.toString();
+  };
+
+  // Events are dispatched asynchronously, so wait for the deliveries to be logged
+  const waitForDeliveries = async (count: number): Promise<void> => {
+    for (let i = 0; i < 50 && await WebhookDelivery.countDocuments() < count; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  beforeAll(async () => {
+    process.env.NODE_ENV = 'test';
+    config.ADMIN_API_TOKEN = ADMIN_TOKEN;
+
+    app = new App();
+    receiver = await startReceiver();
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  });
+
+  beforeEach(() => {
+    receiver.received.length = 0;
+    receiver.respondWith(200);
+  });
+
+  afterAll(async () => {
+    config.ADMIN_API_TOKEN = originalAdminToken;
+    await receiver.close();
+
+    if (app) {
+      await app.shutdown();
+    }
+  });
+
+  describe('POST /webhooks', () => {
+    it('should return the signing secret only on creation', async () => {
+      const created = await createWebhook({ url: receiver.url, events: ['workflow.transitioned'] }).expect(201);
+
+      expect(created.body.data.secret).toMatch(/^whsec_/);
+
+      const fetched = await request(app.app).get(`/webhooks/${created.body.data.id}`).expect(200);
+      expect(fetched.body.data.events).toEqual(['workflow.transitioned']);
+      expect(fetched.body.data).not.toHaveProperty('secret');
+    });
+
+    it('should validate the URL and event types', async () => {
+      await createWebhook({ url: 'ftp://example.com', events: ['workflow.transitioned'] }).expect(400);
+      await createWebhook({ url: receiver.url, events: [] }).expect(400);
+      await createWebhook({ url: receiver.url, events: ['workflow.deleted'] }).expect(400);
+    });
+
+    it('should refuse URLs that resolve to loopback, private or link-local addresses', async () => {
+      const port = new URL(receiver.url).port;
+
+      for (const url of [`http://localhost:${port}/hooks`, 'http://10.0.0.8/hooks', 'http://169.254.169.254/latest']) {
+        const response = await createWebhook({ url, events: ['workflow.transitioned'] }).expect(400);
+        expect(response.body.errors[0].field).toBe('body.url');
+      }
+    });
+  });
+
+  describe('Delivery', () => {
+    it('should POST signed events to matching subscriptions', async () => {
+      const { body } = await createWebhook({
+        url: receiver.url,
+        events: ['workflow.transitioned'],
+        secret: 'a-shared-secret-of-some-length'
+      }).expect(201);
+      const workflowId = await createWorkflow();
+
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+      await waitForDeliveries(1);
+      await app.jobWorker.drain();
+
+      expect(receiver.received).toHaveLength(1);
+      const [webhook] = receiver.received;
+      const timestamp = Number(webhook.headers['x-webhook-timestamp']);
+
+      expect(webhook.headers['x-webhook-event']).toBe('workflow.transitioned');
+      expect(webhook.headers['x-webhook-signature'])
+        .toBe(`sha256=${signWebhookPayload('a-shared-secret-of-some-length', timestamp, webhook.body)}`);
+      expect(JSON.parse(webhook.body)).toMatchObject({
+        type: 'workflow.transitioned',
+        data: { id: workflowId, from: 'review', to: 'approval' }
+      });
+
+      const deliveries = await request(app.app).get(`/webhooks/${body.data.id}/deliveries`).expect(200);
+      expect(deliveries.body.data[0]).toMatchObject({ status: 'succeeded', eventType: 'workflow.transitioned' });
+      expect(deliveries.body.data[0].attempts[0].statusCode).toBe(200);
+    });
+
+    it('should keep server errors pending for a retry and give up on client errors', async () => {
+      await createWebhook({ url: receiver.url, events: ['workflow.transitioned'] }).expect(201);
+      const workflowId = await createWorkflow();
+
+      receiver.respondWith(503);
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+      await waitForDeliveries(1);
+      await app.jobWorker.drain();
+
+      let delivery = await WebhookDelivery.findOne();
+      expect(delivery?.status).toBe('pending');
+      expect(delivery?.attempts).toHaveLength(1);
+      expect(delivery?.attempts[0].statusCode).toBe(503);
+      expect(delivery?.nextAttemptAt?.getTime()).toBeGreaterThan(Date.now());
+
+      receiver.respondWith(410);
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'completed' }).expect(200);
+      await waitForDeliveries(2);
+      await app.jobWorker.drain();
+
+      delivery = await WebhookDelivery.findOne({ 'attempts.statusCode': 410 });
+      expect(delivery?.status).toBe('failed');
+    });
+
+    it('should only send the event types a subscription asked for', async () => {
+      await createWebhook({ url: receiver.url, events: ['workflow.completed'] }).expect(201);
+      const workflowId = await createWorkflow();
+
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'completed' }).expect(200);
+      await waitForDeliveries(1);
+      await app.jobWorker.drain();
+
+      expect(receiver.received.map(webhook => webhook.headers['x-webhook-event'])).toEqual(['workflow.completed']);
+    });
+
+    it('should not send to a URL that has come to resolve to a private address', async () => {
+      await createWebhook({ url: receiver.url, events: ['workflow.transitioned'] }).expect(201);
+      const workflowId = await createWorkflow();
+      const allowedHosts = config.OUTBOUND_ALLOWED_HOSTS;
+
+      // The receiver's loopback address is no longer exempt once registered
+      config.OUTBOUND_ALLOWED_HOSTS = [];
+      try {
+        await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+        await waitForDeliveries(1);
+        await app.jobWorker.drain();
+      } finally {
+        config.OUTBOUND_ALLOWED_HOSTS = allowedHosts;
+      }
+
+      const delivery = await WebhookDelivery.findOne();
+      expect(receiver.received).toHaveLength(0);
+      expect(delivery?.status).toBe('failed');
+      expect(delivery?.attempts[0].error).toMatch(/private or local address/);
+    });
+  });
+
+  describe('POST /webhooks/:id/deliveries/:deliveryId/replay', () => {
+    it('should send a logged event again as a new delivery', async () => {
+      const { body } = await createWebhook({ url: receiver.url, events: ['workflow.transitioned'] }).expect(201);
+      const workflowId = await createWorkflow();
+
+      receiver.respondWith(404);
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'approval' }).expect(200);
+      await waitForDeliveries(1);
+      await app.jobWorker.drain();
+
+      const original = await WebhookDelivery.findOne();
+      expect(original?.status).toBe('failed');
+
+      receiver.respondWith(200);
+      const replay = await request(app.app)
+        .post(`/webhooks/${body.data.id}/deliveries/${original?._id}/replay`)
+        .expect(202);
+
+      expect(replay.body.data).toMatchObject({ replayOf: original?._id.toString(), eventId: original?.eventId, status: 'pending' });
+
+      await app.jobWorker.drain();
+
+      const deliveries = await request(app.app).get(`/webhooks/${body.data.id}/deliveries?status=succeeded`).expect(200);
+      expect(deliveries.body.data.map((d: any) => d.id)).toEqual([replay.body.data.id]);
+      expect(receiver.received[0].body).toBe(receiver.received[1].body);
+    });
+  });
+
+  describe('Tenant isolation', () => {
+    it('should only deliver a tenant\'s events to its own subscriptions', async () => {
+      const createKey = async (tenantId: string): Promise<string> => {
+        const response = await request(app.app)
+          .post('/admin/api-keys')
+          .set('X-Admin-Token', ADMIN_TOKEN)
+          .send({ tenantId, name: `${tenantId} key`, roles: ['reviewer'], principal: `${tenantId}-service` })
+          .expect(201);
+
+        return response.body.data.key;
+      };
+
+      const acmeKey = await createKey('acme');
+      const globexKey = await createKey('globex');
+      const acmeWebhook = await createWebhook({ url: receiver.url, events: ['workflow.transitioned'] }, acmeKey).expect(201);
+      const workflowId = await createWorkflow('globex');
+
+      await request(app.app).get(`/webhooks/${acmeWebhook.body.data.id}`).set('X-API-Key', globexKey).expect(404);
+
+      await request(app.app)
+        .put(`/workflow/${workflowId}/transition`)
+        .set('X-API-Key', globexKey)
+        .send({ newStatus: 'approval' })
+        .expect(200);
+      await new Promise(resolve => setTimeout(resolve, 200));
+      await app.jobWorker.drain();
+
+      expect(await WebhookDelivery.countDocuments()).toBe(0);
+      expect(receiver.received).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import request from 'supertest';
+import { App } from '../src/app';
+import { WorkflowTemplate } from '../src/models/WorkflowTemplate.model';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
+
+describe('Workflow Template API', () => {
+  let app: App;
+  let audioServer: AudioStandInServer;
+  let audioUrl: string;
+
+  const legalTemplate = {
+    name: 'Legal review',
+    description: 'Transcripts checked by a legal reviewer before publishing',
+    initialState: 'draft',
+    states: [
+      { name: 'draft', autoProgress: { to: 'legal-review', afterMs: 1000 } },
+      { name: 'legal-review' },
+      { name: 'published', terminal: true },
+      { name: 'discarded', terminal: true }
+    ],
+    transitions: [
+      { from: 'draft', to: 'legal-review' },
+      { from: 'legal-review', to: 'published' },
+      { from: 'legal-review', to: 'discarded' }
+    ]
+  };
+
+  beforeAll(async () => {
+    app = new App();
+
+    // Serve audio from a local stand-in instead of a remote host
+    audioServer = await startAudioServer();
+    audioUrl = audioServer.url('/sample.wav');
+  });
+
+  afterAll(async () => {
+    await audioServer.close();
+  });
+
+  describe('POST /workflow-templates', () => {
+    it('should create a template at version 1', async () => {
+      const response = await request(app.app)
+        .post('/workflow-templates')
+        .send(legalTemplate);
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.templateId).toBeDefined();
+      expect(response.body.data.version).toBe(1);
+      expect(response.body.data.builtIn).toBe(false);
+    });
+
+    it('should reject inconsistent templates', async () => {
+      const response = await request(app.app)
+        .post('/workflow-templates')
+        .send({
+          ...legalTemplate,
+          transitions: [...legalTemplate.transitions, { from: 'published', to: 'missing' }]
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.detail).toContain('references an undefined state');
+      expect(response.body.detail).toContain('terminal state "published" cannot have outgoing transitions');
+    });
+  });
+
+  describe('GET /workflow-templates', () => {
+    it('should include the built-in default template', async () => {
+      const response = await request(app.app)
+        .get('/workflow-templates');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0].templateId).toBe('default');
+      expect(response.body.data[0].builtIn).toBe(true);
+    });
+
+    it('should not allow modifying the default template', async () => {
+      const response = await request(app.app)
+        .put('/workflow-templates/default')
+        .send(legalTemplate);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('PUT /workflow-templates/:templateId', () => {
+    it('should publish one latest version when updates race', async () => {
+      const created = await request(app.app).post('/workflow-templates').send(legalTemplate).expect(201);
+      const templateId = created.body.data.templateId;
+
+      const responses = await Promise.all([1, 2, 3].map(() => request(app.app)
+        .put(`/workflow-templates/${templateId}`)
+        .send(legalTemplate)));
+
+      // Each update either publishes the next version or loses to one that did
+      const published = responses.filter(response => response.status === 200);
+      const conflicts = responses.filter(response => response.status === 409);
+      expect(published.length).toBeGreaterThanOrEqual(1);
+      expect(published.length + conflicts.length).toBe(3);
+      conflicts.forEach(conflict => expect(conflict.body.code).toBe('TEMPLATE_CONFLICT'));
+
+      const latest = await WorkflowTemplate.find({ templateId, isLatest: true });
+      expect(latest).toHaveLength(1);
+      expect(latest[0].version).toBe(1 + published.length);
+    });
+  });
+
+  describe('Workflows using templates', () => {
+    let templateId: string;
+
+    beforeEach(async () => {
+      const response = await request(app.app)
+        .post('/workflow-templates')
+        .send(legalTemplate);
+
+      templateId = response.body.data.templateId;
+    });
+
+    it('should start the workflow in the template initial state', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl, templateId });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.currentStatus).toBe('draft');
+      expect(response.body.data.template).toEqual({ templateId, version: 1 });
+      expect(response.body.data.canTransition).toEqual(['legal-review']);
+    });
+
+    it('should keep existing workflows pinned to their template version', async () => {
+      const created = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl, templateId });
+
+      const workflowId = created.body.data.id;
+
+      // Version 2 allows going straight from draft to published
+      const updated = await request(app.app)
+        .put(`/workflow-templates/${templateId}`)
+        .send({
+          ...legalTemplate,
+          transitions: [...legalTemplate.transitions, { from: 'draft', to: 'published' }]
+        });
+
+      expect(updated.status).toBe(200);
+      expect(updated.body.data.version).toBe(2);
+
+      const pinned = await request(app.app)
+        .put(`/workflow/${workflowId}/transition`)
+        .send({ newStatus: 'published' });
+
+      expect(pinned.status).toBe(409);
+      expect(pinned.body.code).toBe('INVALID_TRANSITION');
+      expect(pinned.body.detail).toContain('Invalid transition');
+
+      const newWorkflow = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl, templateId });
+
+      expect(newWorkflow.body.data.template.version).toBe(2);
+
+      const transitioned = await request(app.app)
+        .put(`/workflow/${newWorkflow.body.data.id}/transition`)
+        .send({ newStatus: 'published' });
+
+      expect(transitioned.status).toBe(200);
+      expect(transitioned.body.data.canTransition).toEqual([]);
+    });
+
+    it('should accept custom template states as workflow list filters', async () => {
+      await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl, templateId });
+
+      const response = await request(app.app)
+        .get('/workflows?status=draft');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.workflows).toHaveLength(1);
+    });
+
+    it('should not start workflows from an archived template', async () => {
+      const deleted = await request(app.app)
+        .delete(`/workflow-templates/${templateId}`);
+
+      expect(deleted.status).toBe(200);
+
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl, templateId });
+
+      expect(response.status).toBe(404);
+      expect(response.body.detail).toBe('Workflow template not found');
+    });
+  });
+});
@@ -2,10 +2,14 @@ import request from 'supertest';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import mongoose from 'mongoose';
 import { App } from '../src/app';
+import { workflowScheduler } from '../src/services/workflow-scheduler.service';
+import { startAudioServer, AudioStandInServer } from './helpers/audio-server';
 
 describe('Workflow API', () => {
   let mongoServer: MongoMemoryServer;
   let app: App;
+  let audioServer: AudioStandInServer;
+  let audioUrl: string;
 
   beforeAll(async () => {
     // Start in-memory MongoDB
@@ -22,10 +26,15 @@ describe('Workflow API', () => {
     
     // Create app instance without auto-connecting to DB
     app = new App();
+
+    // Serve audio from a local stand-in instead of a remote host
+    audioServer = await startAudioServer();
+    audioUrl = audioServer.url('/sample.wav');
   });
 
   afterAll(async () => {
     // Clean up
+    await audioServer.close();
     await mongoose.connection.dropDatabase();
     await mongoose.connection.close();
     await mongoServer.stop();
@@ -44,7 +53,7 @@ describe('Workflow API', () => {
       const response = await request(app.app)
         .post('/workflow')
         .send({
-          audioUrl: 'https://example.com/sample.mp3',
+          audioUrl,
           language: 'en-US'
         });
 
@@ -62,7 +71,7 @@ describe('Workflow API', () => {
         .send({});
 
       expect(response.status).toBe(400);
-      expect(response.body.error).toBe('audioUrl is required and must be a string');
+      expect(response.body.detail).toBe('audioUrl or uploadId is required');
     });
 
     it('should validate audioUrl format', async () => {
@@ -73,19 +82,100 @@ describe('Workflow API', () => {
         });
 
       expect(response.status).toBe(400);
-      expect(response.body.error).toBe('Invalid audioUrl format');
+      expect(response.body.detail).toBe('Invalid audioUrl format');
     });
 
     it('should validate language format', async () => {
       const response = await request(app.app)
         .post('/workflow')
         .send({
-          audioUrl: 'https://example.com/sample.mp3',
+          audioUrl,
           language: 'invalid-lang'
         });
 
       expect(response.status).toBe(400);
-      expect(response.body.error).toBe('language must be in format xx-XX (e.g., en-US, fr-FR)');
+      expect(response.body.detail).toBe('language must be in format xx-XX (e.g., en-US, fr-FR)');
+    });
+
+    it('should record the audio metadata probed from the file', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl });
+
+      expect(response.status).toBe(201);
+
+      const transcription = await mongoose.connection
+        .collection('transcriptions')
+        .findOne({ _id: new mongoose.Types.ObjectId(response.body.data.id) });
+      expect(transcription?.audioMetadata).toMatchObject({
+        format: 'wav',
+        durationSeconds: 2,
+        sampleRate: 16000,
+        channels: 1
+      });
+    });
+
+    it('should return speaker segments with word timings and confidence', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl });
+
+      const { transcription, confidence, segments } = response.body.data;
+      expect(transcription).toEqual(expect.any(String));
+      expect(confidence).toBeGreaterThan(0);
+      expect(confidence).toBeLessThanOrEqual(1);
+      expect(segments.length).toBeGreaterThan(0);
+
+      const [first] = segments;
+      const last = segments[segments.length - 1];
+      expect(first.speaker).toBe('Speaker 1');
+      expect(first.start).toBe(0);
+      expect(last.end).toBeCloseTo(2, 2); // sample.wav is 2 seconds long
+      expect(first.words[0]).toEqual({
+        text: expect.any(String),
+        start: 0,
+        end: expect.any(Number),
+        confidence: expect.any(Number)
+      });
+    });
+
+    it('should reject URLs that do not serve audio with 422', async () => {
+      audioServer.setRoute('/page.html', { body: Buffer.from('<html></html>'), contentType: 'text/html' });
+
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl: audioServer.url('/page.html') });
+
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('UNSUPPORTED_CONTENT_TYPE');
+    });
+
+    it('should reject unknown speech providers', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({
+          audioUrl,
+          provider: 'unknown-engine'
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.detail).toContain('Invalid provider');
+    });
+
+    it('should record the selected provider as the transcription source', async () => {
+      const response = await request(app.app)
+        .post('/workflow')
+        .send({
+          audioUrl,
+          provider: 'mock'
+        });
+
+      expect(response.status).toBe(201);
+
+      const transcription = await mongoose.connection
+        .collection('transcriptions')
+        .findOne({ _id: new mongoose.Types.ObjectId(response.body.data.id) });
+      expect(transcription?.source).toBe('mock');
     });
   });
 
@@ -97,7 +187,7 @@ describe('Workflow API', () => {
       const response = await request(app.app)
         .post('/workflow')
         .send({
-          audioUrl: 'https://example.com/sample.mp3'
+          audioUrl
         });
       
       workflowId = response.body.data.id;
@@ -126,9 +216,18 @@ describe('Workflow API', () => {
           newStatus: 'completed' // Invalid: can't go directly from transcription to completed
         });
 
-      expect(response.status).toBe(400);
-      expect(response.body.error).toBe('Failed to transition workflow');
-      expect(response.body.message).toContain('Invalid transition');
+      expect(response.status).toBe(409);
+      expect(response.headers['content-type']).toContain('application/problem+json');
+      expect(response.body).toMatchObject({
+        type: '/problems/invalid-transition',
+        title: 'Conflict',
+        status: 409,
+        code: 'INVALID_TRANSITION',
+        instance: `/workflow/${workflowId}/transition`,
+        from: 'transcription',
+        to: 'completed'
+      });
+      expect(response.body.detail).toContain('Invalid transition');
     });
 
     it('should validate newStatus is required', async () => {
@@ -137,7 +236,7 @@ describe('Workflow API', () => {
         .send({});
 
       expect(response.status).toBe(400);
-      expect(response.body.error).toBe('newStatus is required');
+      expect(response.body.detail).toBe('newStatus is required');
     });
 
     it('should handle non-existent workflow', async () => {
@@ -150,8 +249,52 @@ describe('Workflow API', () => {
         });
 
       expect(response.status).toBe(404);
-      expect(response.body.error).toBe('Failed to transition workflow');
-      expect(response.body.message).toBe('Transcription not found');
+      expect(response.body.code).toBe('NOT_FOUND');
+      expect(response.body.detail).toBe('Transcription not found');
+    });
+
+    it('should apply the transition when If-Match has the current ETag', async () => {
+      const statusResponse = await request(app.app).get(`/workflow/${workflowId}`);
+      expect(statusResponse.headers['etag']).toBe('"0"');
+
+      const response = await request(app.app)
+        .put(`/workflow/${workflowId}/transition`)
+        .set('If-Match', statusResponse.headers['etag'])
+        .send({ newStatus: 'review' });
+
+      expect(response.status).toBe(200);
+      expect(response.headers['etag']).toBe('"1"');
+      expect(response.body.data.version).toBe(1);
+    });
+
+    it('should reject a transition with a stale If-Match with 412', async () => {
+      await request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'review' }).expect(200);
+
+      const response = await request(app.app)
+        .put(`/workflow/${workflowId}/transition`)
+        .set('If-Match', '"0"')
+        .send({ newStatus: 'approval' });
+
+      expect(response.status).toBe(412);
+      expect(response.body).toMatchObject({ code: 'WORKFLOW_VERSION_MISMATCH', currentVersion: 1, currentStatus: 'review' });
+
+      const statusResponse = await request(app.app).get(`/workflow/${workflowId}`);
+      expect(statusResponse.body.data.currentStatus).toBe('review');
+      expect(statusResponse.body.data.workflowHistory).toHaveLength(2);
+    });
+
+    it('should apply only one of two concurrent transitions', async () => {
+      const responses = await Promise.all(['review', 'rejected'].map(newStatus =>
+        request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus })
+      ));
+
+      expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+
+      const statusResponse = await request(app.app).get(`/workflow/${workflowId}`);
+      const applied = responses.find(response => response.status === 200)!;
+      expect(statusResponse.body.data.currentStatus).toBe(applied.body.data.currentStatus);
+      expect(statusResponse.body.data.workflowHistory).toHaveLength(2);
+      expect(statusResponse.body.data.version).toBe(1);
     });
   });
 
@@ -163,7 +306,7 @@ describe('Workflow API', () => {
       const response = await request(app.app)
         .post('/workflow')
         .send({
-          audioUrl: 'https://example.com/sample.mp3'
+          audioUrl
         });
       
       workflowId = response.body.data.id;
@@ -188,8 +331,15 @@ describe('Workflow API', () => {
         .get(`/workflow/${fakeId}`);
 
       expect(response.status).toBe(404);
-      expect(response.body.error).toBe('Failed to get workflow status');
-      expect(response.body.message).toBe('Transcription not found');
+      expect(response.body.code).toBe('NOT_FOUND');
+      expect(response.body.detail).toBe('Transcription not found');
+    });
+
+    it('should answer malformed ids like unknown ones', async () => {
+      await request(app.app).get('/workflow/invalid-id').expect(404);
+      await request(app.app).get('/workflow/invalid-id/scheduled').expect(404);
+      await request(app.app).put('/workflow/invalid-id/transition').send({ newStatus: 'review' }).expect(404);
+      await request(app.app).delete(`/workflow/${workflowId}/scheduled/invalid-id`).expect(404);
     });
   });
 
@@ -198,11 +348,11 @@ describe('Workflow API', () => {
       // Create multiple workflows
       await request(app.app)
         .post('/workflow')
-        .send({ audioUrl: 'https://example.com/sample1.mp3' });
+        .send({ audioUrl });
       
       await request(app.app)
         .post('/workflow')
-        .send({ audioUrl: 'https://example.com/sample2.mp3' });
+        .send({ audioUrl });
     });
 
     it('should list all workflows', async () => {
@@ -239,12 +389,44 @@ describe('Workflow API', () => {
       expect(response.body.data.limit).toBe(1);
     });
 
+    it('should page through workflows with cursors', async () => {
+      const first = await request(app.app)
+        .get('/workflows?pagination=cursor&limit=1&includeTotal=true');
+
+      expect(first.status).toBe(200);
+      expect(first.body.data.workflows).toHaveLength(1);
+      expect(first.body.data.total).toBe(2);
+      expect(first.body.data.prev).toBeNull();
+      expect(first.body.data.next).toEqual(expect.any(String));
+
+      const second = await request(app.app)
+        .get(`/workflows?cursor=${first.body.data.next}&limit=1`);
+
+      expect(second.status).toBe(200);
+      expect(second.body.data.workflows).toHaveLength(1);
+      expect(second.body.data.workflows[0]._id).not.toBe(first.body.data.workflows[0]._id);
+      expect(second.body.data.next).toBeNull();
+      expect(second.body.data).not.toHaveProperty('total');
+
+      const back = await request(app.app)
+        .get(`/workflows?cursor=${second.body.data.prev}&limit=1`);
+
+      expect(back.body.data.workflows[0]._id).toBe(first.body.data.workflows[0]._id);
+    });
+
+    it('should reject malformed cursors', async () => {
+      const response = await request(app.app)
+        .get('/workflows?cursor=not-a-cursor');
+
+      expect(response.status).toBe(400);
+    });
+
     it('should validate invalid status filter', async () => {
       const response = await request(app.app)
         .get('/workflows?status=invalid');
 
       expect(response.status).toBe(400);
-      expect(response.body.error).toContain('Invalid status filter');
+      expect(response.body.detail).toContain('Invalid status filter');
     });
   });
 
@@ -253,11 +435,11 @@ describe('Workflow API', () => {
       // Create workflows in different states
       const workflow1 = await request(app.app)
         .post('/workflow')
-        .send({ audioUrl: 'https://example.com/sample1.mp3' });
+        .send({ audioUrl });
       
       const workflow2 = await request(app.app)
         .post('/workflow')
-        .send({ audioUrl: 'https://example.com/sample2.mp3' });
+        .send({ audioUrl });
 
       // Transition one to review
       await request(app.app)
@@ -280,18 +462,34 @@ describe('Workflow API', () => {
   });
 
   describe('Workflow Auto-progression', () => {
-    it('should auto-progress workflow asynchronously', async () => {
+    const makeScheduleDue = () =>
+      mongoose.connection
+        .collection('scheduledtransitions')
+        .updateMany({ status: 'pending' }, { $set: { dueAt: new Date(Date.now() - 1000) } });
+
+    it('should persist the auto-progression and apply it when due', async () => {
       // Create a workflow
       const createResponse = await request(app.app)
         .post('/workflow')
         .send({
-          audioUrl: 'https://example.com/sample.mp3'
+          audioUrl
         });
 
       const workflowId = createResponse.body.data.id;
 
-      // Wait for auto-progression (should happen after 2 seconds)
-      await new Promise(resolve => setTimeout(resolve, 2500));
+      const scheduledResponse = await request(app.app)
+        .get(`/workflow/${workflowId}/scheduled`);
+
+      expect(scheduledResponse.status).toBe(200);
+      expect(scheduledResponse.body.data).toHaveLength(1);
+      expect(scheduledResponse.body.data[0].fromStatus).toBe('transcription');
+      expect(scheduledResponse.body.data[0].toStatus).toBe('review');
+
+      // Nothing happens before the transition is due
+      expect(await app.workflowSchedulerWorker.drain()).toBe(0);
+
+      await makeScheduleDue();
+      expect(await app.workflowSchedulerWorker.drain()).toBe(1);
 
       const statusResponse = await request(app.app)
         .get(`/workflow/${workflowId}`);
@@ -300,6 +498,99 @@ describe('Workflow API', () => {
       expect(statusResponse.body.data.currentStatus).toBe('review');
       expect(statusResponse.body.data.workflowHistory).toHaveLength(2);
       expect(statusResponse.body.data.workflowHistory[1].reviewedBy).toBe('system');
-    }, 10000); // Increase timeout for async test
+
+      // The next progression is scheduled from the new state
+      const nextResponse = await request(app.app)
+        .get(`/workflow/${workflowId}/scheduled`);
+      expect(nextResponse.body.data).toHaveLength(1);
+      expect(nextResponse.body.data[0].fromStatus).toBe('review');
+    });
+
+    it('should let only one instance claim a due transition', async () => {
+      await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl });
+
+      await makeScheduleDue();
+
+      const claims = await Promise.all([
+        workflowScheduler.claimNext('instance-a'),
+        workflowScheduler.claimNext('instance-b')
+      ]);
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+    });
+
+    it('should drop pending progressions when the workflow is transitioned manually', async () => {
+      const createResponse = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl });
+
+      const workflowId = createResponse.body.data.id;
+
+      await request(app.app)
+        .put(`/workflow/${workflowId}/transition`)
+        .send({ newStatus: 'rejected' });
+
+      const scheduledResponse = await request(app.app)
+        .get(`/workflow/${workflowId}/scheduled?all=true`);
+
+      expect(scheduledResponse.body.data).toHaveLength(1);
+      expect(scheduledResponse.body.data[0].status).toBe('cancelled');
+
+      await makeScheduleDue();
+      expect(await app.workflowSchedulerWorker.drain()).toBe(0);
+    });
+
+    it('should not record both a manual transition and a racing auto-progression', async () => {
+      const createResponse = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl });
+
+      const workflowId = createResponse.body.data.id;
+      await makeScheduleDue();
+
+      await Promise.all([
+        app.workflowSchedulerWorker.drain(),
+        request(app.app).put(`/workflow/${workflowId}/transition`).send({ newStatus: 'rejected' })
+      ]);
+
+      const statusResponse = await request(app.app)
+        .get(`/workflow/${workflowId}`);
+      // Either may win, but every applied transition is recorded exactly once
+      const { workflowHistory, currentStatus, version } = statusResponse.body.data;
+      expect(workflowHistory[workflowHistory.length - 1].status).toBe(currentStatus);
+      expect(workflowHistory).toHaveLength(version + 1);
+    });
+
+    it('should cancel a pending scheduled transition', async () => {
+      const createResponse = await request(app.app)
+        .post('/workflow')
+        .send({ audioUrl });
+
+      const workflowId = createResponse.body.data.id;
+
+      const scheduledResponse = await request(app.app)
+        .get(`/workflow/${workflowId}/scheduled`);
+      const scheduleId = scheduledResponse.body.data[0].id;
+
+      const cancelResponse = await request(app.app)
+        .delete(`/workflow/${workflowId}/scheduled/${scheduleId}`);
+
+      expect(cancelResponse.status).toBe(200);
+      expect(cancelResponse.body.data.status).toBe('cancelled');
+
+      // Cancelling twice conflicts
+      const secondCancel = await request(app.app)
+        .delete(`/workflow/${workflowId}/scheduled/${scheduleId}`);
+      expect(secondCancel.status).toBe(409);
+
+      await makeScheduleDue();
+      expect(await app.workflowSchedulerWorker.drain()).toBe(0);
+
+      const statusResponse = await request(app.app)
+        .get(`/workflow/${workflowId}`);
+      expect(statusResponse.body.data.currentStatus).toBe('transcription');
+    });
   });
 });